@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { currentUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({ user: await currentUser(request) });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
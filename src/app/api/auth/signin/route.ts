@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { requestSignIn } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+const bodySchema = z.object({ email: z.string().trim().toLowerCase().email() });
+
+// Always answers the same way so the form can't be used to probe the
+// directory. Outside production the link comes back too, in place of email.
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = bodySchema.safeParse(await request.json());
+    if (!parsed.success) {
+      throw new HttpError(400, "Enter a valid email address");
+    }
+    const message = await requestSignIn(parsed.data.email, request.nextUrl.origin);
+    const previewLink = process.env.NODE_ENV !== "production" ? message?.link ?? null : null;
+    return NextResponse.json({ sent: true, previewLink });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
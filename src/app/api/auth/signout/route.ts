@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { endSession, SESSION_COOKIE } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  try {
+    await endSession(request);
+    const response = new NextResponse(null, { status: 204 });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
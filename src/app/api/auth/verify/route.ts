@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { HttpError } from "@/lib/errors";
+import { sessionCookie, verifySignIn } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+// Where emailed sign-in links land; signs in and moves on to the app
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token") ?? "";
+  try {
+    const session = await verifySignIn(token);
+    const response = NextResponse.redirect(new URL("/", request.url));
+    response.cookies.set(sessionCookie(session.token, session.expires));
+    return response;
+  } catch (err) {
+    if (!(err instanceof HttpError)) console.error(err);
+    const message = err instanceof HttpError ? err.message : "Sign-in failed";
+    return NextResponse.redirect(new URL(`/signin?error=${encodeURIComponent(message)}`, request.url));
+  }
+}
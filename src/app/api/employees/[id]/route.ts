@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { requireUser } from "@/lib/auth";
+import { deleteEmployee, updateEmployee } from "@/lib/employees";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireUser(request, ["admin"]);
+    return NextResponse.json(await updateEmployee(params.id, await request.json()));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireUser(request, ["admin"]);
+    await deleteEmployee(params.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
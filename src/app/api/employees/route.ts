@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { requireUser } from "@/lib/auth";
+import { createEmployee, listEmployees } from "@/lib/employees";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireUser(request, ["manager", "admin"]);
+    return NextResponse.json({ employees: await listEmployees() });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireUser(request, ["admin"]);
+    return NextResponse.json(await createEmployee(await request.json()), { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
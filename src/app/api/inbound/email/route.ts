@@ -0,0 +1,42 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { parseInboundRequest, receiveTimesheetEmail } from "@/lib/inbound";
+
+export const maxDuration = 60; // seconds, as for /api/extract
+export const runtime = "nodejs";
+
+// The mail provider's webhook posts here with the shared secret in the
+// x-inbound-secret header. Without INBOUND_EMAIL_SECRET the route only works
+// outside production, so fixtures can be posted locally:
+//
+//   curl -X POST --data-binary @fixtures/email/timesheet.eml \
+//     -H 'Content-Type: message/rfc822' http://localhost:3000/api/inbound/email
+function checkSecret(request: NextRequest): void {
+  const secret = process.env.INBOUND_EMAIL_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new HttpError(503, "Inbound email isn't set up; set INBOUND_EMAIL_SECRET");
+    }
+    return;
+  }
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  if (!timingSafeEqual(digest(request.headers.get("x-inbound-secret") ?? ""), digest(secret))) {
+    throw new HttpError(401, "Invalid inbound secret");
+  }
+}
+
+// Messages that can't be used still get a 200 with status "rejected", so the
+// provider doesn't keep retrying them
+export async function POST(request: NextRequest) {
+  try {
+    checkSecret(request);
+    const email = parseInboundRequest(
+      request.headers.get("content-type") ?? "",
+      Buffer.from(await request.arrayBuffer())
+    );
+    return NextResponse.json(await receiveTimesheetEmail(email, { origin: request.nextUrl.origin }));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { actingFor, requireUser } from "@/lib/auth";
+import { getSettings } from "@/lib/settingsStore";
+import { claimedKilometers } from "@/lib/timesheets";
+
+export const runtime = "nodejs";
+
+// ?employee=&before=YYYY-MM-DD gives the kilometres already claimed this
+// claim year, which decide the rate tier a period starts in
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const employee = await actingFor(user, request.nextUrl.searchParams.get("employee"));
+    const before = request.nextUrl.searchParams.get("before") ?? "";
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(before)) throw new HttpError(400, "before must be a YYYY-MM-DD date");
+
+    const { mileage } = await getSettings();
+    return NextResponse.json({ kilometers: await claimedKilometers(employee.email, before, mileage.yearStart) });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
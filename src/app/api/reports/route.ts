@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { requireUser } from "@/lib/auth";
+import { getSettings } from "@/lib/settingsStore";
+import { listTimesheets } from "@/lib/timesheets";
+import { generateTimesheetPDF, reportSheet } from "@/lib/report";
+import { TimesheetStatus } from "@/lib/types";
+
+const STATUSES: TimesheetStatus[] = ["draft", "submitted", "approved", "rejected"];
+
+export const runtime = "nodejs";
+
+// Many employees' timesheets in one PDF to print, filtered like the
+// timesheet list, e.g. ?weekStartDate=2025-02-03&status=approved
+export async function GET(request: NextRequest) {
+  try {
+    await requireUser(request, ["manager", "admin"]);
+    const params = request.nextUrl.searchParams;
+    const status = params.get("status") as TimesheetStatus | null;
+    if (status && !STATUSES.includes(status)) {
+      throw new HttpError(400, `Unknown status: ${status}`);
+    }
+    const weekStartDate = params.get("weekStartDate") ?? undefined;
+
+    const timesheets = await listTimesheets({
+      employee: params.get("employee") ?? undefined,
+      weekStartDate,
+      status: status ?? undefined,
+    });
+    if (timesheets.length === 0) {
+      throw new HttpError(404, "No timesheets match");
+    }
+
+    const sheets = await Promise.all(
+      [...timesheets]
+        .sort((a, b) => a.weekStartDate.localeCompare(b.weekStartDate) || a.employeeName.localeCompare(b.employeeName))
+        .map(reportSheet)
+    );
+    const pdf = generateTimesheetPDF(sheets, await getSettings());
+    const filename = `timesheets-${[weekStartDate, status].filter(Boolean).join("-") || "all"}.pdf`;
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { requireUser } from "@/lib/auth";
+import { getSettings, saveSettings } from "@/lib/settingsStore";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireUser(request);
+    return NextResponse.json(await getSettings());
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    await requireUser(request, ["admin"]);
+    return NextResponse.json(await saveSettings(await request.json()));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
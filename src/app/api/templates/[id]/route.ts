@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { actingFor, requireUser } from "@/lib/auth";
+import { deleteTemplate, getTemplate } from "@/lib/templateStore";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request);
+    const template = await getTemplate(params.id);
+    await actingFor(user, template.employeeEmail);
+    await deleteTemplate(params.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
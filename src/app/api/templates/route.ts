@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { actingFor, requireUser } from "@/lib/auth";
+import { listTemplates, saveTemplate } from "@/lib/templateStore";
+
+export const runtime = "nodejs";
+
+// ?employee= picks whose templates; managers can ask for anyone's
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const employee = await actingFor(user, request.nextUrl.searchParams.get("employee"));
+    return NextResponse.json({ templates: await listTemplates(employee.email) });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const body = await request.json();
+    const employee = await actingFor(user, body?.employeeEmail);
+    return NextResponse.json(await saveTemplate(employee.email, body), { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { checkTimesheetAccess, requireUser } from "@/lib/auth";
+import { getTimesheet } from "@/lib/timesheets";
+import { generateAuditCSV } from "@/lib/audit";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Available at any status so disputes can be looked into before and after payroll
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request);
+    const timesheet = await getTimesheet(params.id);
+    checkTimesheetAccess(user, timesheet);
+    const name = timesheet.employeeName || timesheet.email || "Employee";
+    const filename = `audit-${timesheet.weekStartDate}-${name.replace(/\s+/g, "_")}.csv`;
+
+    return new NextResponse(generateAuditCSV(timesheet), {
+      headers: {
+        "Content-Type": "text/csv;charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
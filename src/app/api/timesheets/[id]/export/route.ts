@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { checkTimesheetAccess, requireUser } from "@/lib/auth";
+import { getSettings } from "@/lib/settingsStore";
+import { getTimesheet } from "@/lib/timesheets";
+import { payrollFor } from "@/lib/employees";
+import { isExportable } from "@/lib/workflow";
+import { checkTimesheet, hasErrors } from "@/lib/rules";
+import { generateXeroCSV } from "@/lib/xero";
+import { dayKilometers } from "@/lib/mileage";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Only approved timesheets go to payroll
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request);
+    const timesheet = await getTimesheet(params.id);
+    checkTimesheetAccess(user, timesheet);
+    if (!isExportable(timesheet.status)) {
+      throw new HttpError(409, "Only approved timesheets can be exported to Xero");
+    }
+
+    const settings = await getSettings();
+    const violations = checkTimesheet(timesheet.days, settings.rules, settings.rounding);
+    if (hasErrors(violations)) {
+      throw new HttpError(422, "This timesheet breaks timesheet rules; fix the errors before exporting", {
+        violations: violations.filter((v) => v.severity === "error"),
+      });
+    }
+
+    // Names and rates come from the directory, so they match Xero
+    const employee = await payrollFor(timesheet);
+    if (!employee.mileageRate && timesheet.days.some((d) => dayKilometers(d) > 0)) {
+      throw new HttpError(
+        422,
+        `${employee.name} can't claim kilometres; remove them or add a mileage rate in the directory`
+      );
+    }
+
+    const name = employee.xeroName || employee.name;
+    const csv = generateXeroCSV(employee, timesheet.days, settings);
+    const filename = `timesheet-${timesheet.weekStartDate}-${name.replace(/\s+/g, "_")}.csv`;
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv;charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
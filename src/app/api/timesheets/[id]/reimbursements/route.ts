@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { checkTimesheetAccess, requireUser } from "@/lib/auth";
+import { getSettings } from "@/lib/settingsStore";
+import { claimedKilometers, getTimesheet } from "@/lib/timesheets";
+import { payrollFor } from "@/lib/employees";
+import { isExportable } from "@/lib/workflow";
+import { mileageClaims } from "@/lib/mileage";
+import { generateReimbursementCSV } from "@/lib/xero";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Mileage paid as a reimbursement goes to Xero separately from the hours
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request);
+    const timesheet = await getTimesheet(params.id);
+    checkTimesheetAccess(user, timesheet);
+    if (!isExportable(timesheet.status)) {
+      throw new HttpError(409, "Only approved timesheets can be exported to Xero");
+    }
+
+    // Paid as earnings, the kilometres are already in the timesheet export
+    const settings = await getSettings();
+    if (settings.mileage.payAs !== "reimbursement") {
+      throw new HttpError(409, "Mileage is paid as earnings; it's in the Xero timesheet export");
+    }
+    const employee = await payrollFor(timesheet);
+    if (!employee.mileageRate) {
+      throw new HttpError(422, `${employee.name} can't claim kilometres; add a mileage rate in the directory`);
+    }
+
+    const claimedBefore = await claimedKilometers(
+      timesheet.email,
+      timesheet.weekStartDate,
+      settings.mileage.yearStart
+    );
+    const claims = mileageClaims(timesheet.days, settings.mileage, claimedBefore);
+    if (claims.length === 0) throw new HttpError(422, "This timesheet has no kilometres to reimburse");
+
+    const name = employee.xeroName || employee.name;
+    const csv = generateReimbursementCSV(employee, claims, settings);
+    const filename = `reimbursements-${timesheet.weekStartDate}-${name.replace(/\s+/g, "_")}.csv`;
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv;charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
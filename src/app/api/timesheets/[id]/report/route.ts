@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { checkTimesheetAccess, requireUser } from "@/lib/auth";
+import { getSettings } from "@/lib/settingsStore";
+import { getTimesheet } from "@/lib/timesheets";
+import { generateTimesheetPDF, reportSheet } from "@/lib/report";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// A printable copy to sign, at any status
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request);
+    const timesheet = await getTimesheet(params.id);
+    checkTimesheetAccess(user, timesheet);
+
+    const sheet = await reportSheet(timesheet);
+    const pdf = generateTimesheetPDF([sheet], await getSettings());
+    const filename = `timesheet-${timesheet.weekStartDate}-${sheet.employee.name.replace(/\s+/g, "_")}.pdf`;
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
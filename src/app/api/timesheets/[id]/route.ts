@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { actingFor, checkTimesheetAccess, requireUser } from "@/lib/auth";
+import { deleteTimesheet, getTimesheet, parseTimesheetInput, updateTimesheet } from "@/lib/timesheets";
+import { trackInput } from "@/lib/provenanceStore";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request);
+    const timesheet = await getTimesheet(params.id);
+    checkTimesheetAccess(user, timesheet);
+    return NextResponse.json(timesheet);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request);
+    const existing = await getTimesheet(params.id);
+    checkTimesheetAccess(user, existing);
+    const input = parseTimesheetInput(await request.json());
+    const employee = await actingFor(user, input.email);
+    const tracked = await trackInput({ ...input, email: employee.email, employeeName: employee.name }, existing.days);
+    return NextResponse.json(await updateTimesheet(params.id, tracked));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request);
+    checkTimesheetAccess(user, await getTimesheet(params.id));
+    await deleteTimesheet(params.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
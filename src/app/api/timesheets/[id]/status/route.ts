@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { checkTimesheetAccess, isManager, ownsTimesheet, requireUser } from "@/lib/auth";
+import { getSettings } from "@/lib/settingsStore";
+import { missingSignOff } from "@/lib/signOff";
+import { getTimesheet, transitionTimesheet } from "@/lib/timesheets";
+import { needsManager } from "@/lib/workflow";
+
+export const runtime = "nodejs";
+
+const bodySchema = z.object({
+  action: z.enum(["submit", "approve", "reject", "reopen", "comment"]),
+  comment: z.string().default(""),
+});
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const parsed = bodySchema.safeParse(await request.json());
+    if (!parsed.success) {
+      throw new HttpError(400, "Expected an action of submit, approve, reject, reopen or comment");
+    }
+    const { action, comment } = parsed.data;
+    const user = await requireUser(request);
+    const timesheet = await getTimesheet(params.id);
+    checkTimesheetAccess(user, timesheet);
+
+    // Employees can't approve their own timesheets, or reopen them once
+    // approved, even when they're managers
+    if (needsManager(timesheet.status, action)) {
+      const what = action === "reopen" ? `${timesheet.status} timesheet` : "timesheet";
+      if (!isManager(user)) throw new HttpError(403, `Only managers can ${action} ${what}s`);
+      if (ownsTimesheet(user, timesheet)) throw new HttpError(403, `You can't ${action} your own ${what}`);
+    }
+
+    if (action === "submit") {
+      const settings = await getSettings();
+      const missing = missingSignOff(timesheet.validation, settings.signOff);
+      if (missing.length) {
+        throw new HttpError(422, `Sign-off is missing the ${missing.join(", ")}`, { missing });
+      }
+    }
+    return NextResponse.json(await transitionTimesheet(params.id, action, user.name, comment));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
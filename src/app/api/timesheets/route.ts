@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { actingFor, canSeeTimesheet, requireUser } from "@/lib/auth";
+import { createTimesheet, listTimesheets, parseTimesheetInput } from "@/lib/timesheets";
+import { trackInput } from "@/lib/provenanceStore";
+import { TimesheetStatus } from "@/lib/types";
+
+const STATUSES: TimesheetStatus[] = ["draft", "submitted", "approved", "rejected"];
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const params = request.nextUrl.searchParams;
+    const status = params.get("status") as TimesheetStatus | null;
+    if (status && !STATUSES.includes(status)) {
+      throw new HttpError(400, `Unknown status: ${status}`);
+    }
+
+    const timesheets = await listTimesheets({
+      employee: params.get("employee") ?? undefined,
+      weekStartDate: params.get("weekStartDate") ?? undefined,
+      status: status ?? undefined,
+    });
+    return NextResponse.json({ timesheets: timesheets.filter((t) => canSeeTimesheet(user, t)) });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// Names and emails come from the directory, and provenance from the server,
+// never from the client
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const input = parseTimesheetInput(await request.json());
+    const employee = await actingFor(user, input.email);
+    const timesheet = await createTimesheet(
+      await trackInput({ ...input, email: employee.email, employeeName: employee.name })
+    );
+    return NextResponse.json(timesheet, { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
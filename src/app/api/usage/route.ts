@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { requireUser } from "@/lib/auth";
+import { getSettings } from "@/lib/settingsStore";
+import { summarizeUsage } from "@/lib/usage";
+
+export const runtime = "nodejs";
+
+// AI extraction usage for the last ?days= days (30 by default)
+export async function GET(request: NextRequest) {
+  try {
+    await requireUser(request, ["manager", "admin"]);
+    const days = Number(request.nextUrl.searchParams.get("days") ?? 30);
+    if (!Number.isInteger(days) || days < 1 || days > 366) {
+      throw new HttpError(400, "days must be a whole number from 1 to 366");
+    }
+    const { timeZone } = await getSettings();
+    return NextResponse.json(await summarizeUsage(days, timeZone));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import EmployeeRow from "@/components/EmployeeRow";
+import { listEmployees } from "@/lib/api";
+import { useSession } from "@/lib/useSession";
+import { useSettings } from "@/lib/useSettings";
+import { earningsRates } from "@/lib/payRules";
+import { Employee } from "@/lib/types";
+
+export default function EmployeesPage() {
+  const user = useSession();
+  const [employees, setEmployees] = useState<Employee[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const readOnly = user?.role !== "admin";
+  const rates = earningsRates(useSettings().payRules);
+
+  useEffect(() => {
+    listEmployees()
+      .then(setEmployees)
+      .catch((err) => setError(err.message));
+  }, []);
+
+  function handleSaved(saved: Employee) {
+    setEmployees((prev) =>
+      [...(prev ?? []).filter((e) => e.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Employee Directory</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Everyone who can sign in. Employees fill in their own timesheets, managers approve them, and admins
+          also manage this directory and the organisation settings. Payroll details decide the name, rates and
+          kilometres written to the Xero export.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {!employees ? (
+        !error && <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <div className="card space-y-2">
+          <div className="hidden sm:grid sm:grid-cols-[1fr_1fr_110px_120px_60px_180px] gap-2 text-xs font-medium text-gray-500 uppercase tracking-wide">
+            <div>Name</div>
+            <div>Email</div>
+            <div>Employee ID</div>
+            <div>Role</div>
+            <div>Active</div>
+            <div />
+          </div>
+          {employees.map((employee) => (
+            <EmployeeRow
+              key={`${employee.id}-${employee.updatedAt}`}
+              employee={employee}
+              readOnly={readOnly}
+              rates={rates}
+              onSaved={handleSaved}
+              onDeleted={(id) => setEmployees((prev) => (prev ?? []).filter((e) => e.id !== id))}
+            />
+          ))}
+          {!readOnly && (
+            <EmployeeRow employee={null} readOnly={false} rates={rates} onSaved={handleSaved} onDeleted={() => {}} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import type { Metadata } from "next";
+import AccountMenu from "@/components/AccountMenu";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -20,6 +21,24 @@ export default function RootLayout({
               <a href="/" className="text-lg font-semibold text-gray-900">
                 Timesheet Manager
               </a>
+              <nav className="flex items-center gap-4 text-sm text-gray-600">
+                <a href="/" className="hover:text-gray-900">
+                  My Timesheet
+                </a>
+                <a href="/manager" className="hover:text-gray-900">
+                  Approvals
+                </a>
+                <a href="/usage" className="hover:text-gray-900">
+                  Usage
+                </a>
+                <a href="/employees" className="hover:text-gray-900">
+                  Employees
+                </a>
+                <a href="/settings" className="hover:text-gray-900">
+                  Settings
+                </a>
+                <AccountMenu />
+              </nav>
             </div>
           </header>
           <main className="mx-auto max-w-5xl px-4 py-8">{children}</main>
@@ -0,0 +1,104 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import ApprovalCard from "@/components/ApprovalCard";
+import { batchReportUrl, listTimesheets, transitionTimesheet } from "@/lib/api";
+import { TimesheetRecord, TimesheetStatus, WorkflowAction } from "@/lib/types";
+import { STATUS_LABELS } from "@/lib/workflow";
+import { useSettings } from "@/lib/useSettings";
+
+const FILTERS: TimesheetStatus[] = ["submitted", "approved", "rejected", "draft"];
+
+export default function ManagerPage() {
+  const [status, setStatus] = useState<TimesheetStatus>("submitted");
+  const [timesheets, setTimesheets] = useState<TimesheetRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const settings = useSettings();
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setTimesheets(await listTimesheets(status));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load timesheets");
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function handleAction(id: string, action: WorkflowAction, comment: string) {
+    await transitionTimesheet(id, action, comment);
+    await load();
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Timesheet Approvals</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Review submitted timesheets against the supervisor and client details read from the
+          source documents. Approved timesheets can be exported to Xero.
+        </p>
+      </div>
+
+      <div className="card">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Show</label>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as TimesheetStatus)}
+              className="input-field"
+            >
+              {FILTERS.map((s) => (
+                <option key={s} value={s}>
+                  {STATUS_LABELS[s]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end sm:justify-end">
+            <a
+              href={batchReportUrl({ status })}
+              className={`btn-secondary ${timesheets.length ? "" : "pointer-events-none opacity-50"}`}
+              title="Every timesheet shown here in one PDF, ready to print and sign"
+            >
+              Print all as PDF
+            </a>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : timesheets.length === 0 ? (
+        <p className="text-sm text-gray-500">No {STATUS_LABELS[status].toLowerCase()} timesheets.</p>
+      ) : (
+        <div className="space-y-4">
+          {timesheets.map((t) => (
+            <ApprovalCard
+              key={t.id}
+              timesheet={t}
+              rules={settings.rules}
+              rounding={settings.rounding}
+              signOff={settings.signOff}
+              onAction={(action, comment) => handleAction(t.id, action, comment)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,111 +1,354 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import WeekPicker from "@/components/WeekPicker";
 import TimesheetGrid from "@/components/TimesheetGrid";
 import FileUpload from "@/components/FileUpload";
-import { DayEntry, AIExtractionResult } from "@/lib/types";
-import { generateWeekDays, getCurrentWeekStart } from "@/lib/dates";
-import { generateXeroCSV } from "@/lib/xero";
+import ExtractionReview from "@/components/ExtractionReview";
+import RuleSummary from "@/components/RuleSummary";
+import ValidationPanel from "@/components/ValidationPanel";
+import TemplateBar from "@/components/TemplateBar";
+import {
+  DayEntry,
+  Employee,
+  AIExtractionResult,
+  AIValidationData,
+  ConfidenceMap,
+  ExtractionCacheInfo,
+  ExtractionConflict,
+  ScheduleTemplate,
+  TimesheetRecord,
+  WorkflowAction,
+} from "@/lib/types";
+import { generateWeekDays, getCurrentWeekStart, getPeriodStart, shiftPeriod } from "@/lib/dates";
+import {
+  ExtractionReview as ExtractionReviewData,
+  ReviewSelection,
+  applyReview,
+  appliedConfidences,
+} from "@/lib/review";
+import {
+  auditUrl,
+  deleteTimesheet,
+  exportUrl,
+  fetchMileageToDate,
+  findTimesheet,
+  listEmployees,
+  listTemplates,
+  reimbursementUrl,
+  reportUrl,
+  saveTemplate,
+  deleteTemplate,
+  saveTimesheet,
+  transitionTimesheet,
+} from "@/lib/api";
+import { periodHours } from "@/lib/hours";
+import { limitRates, splitHours, totalByRate } from "@/lib/payRules";
+import { findJob, jobLabel, totalByJob } from "@/lib/jobs";
+import { claimsTotal, mileageClaims, periodKilometers } from "@/lib/mileage";
+import { checkTimesheet, hasErrors } from "@/lib/rules";
+import { trackDays } from "@/lib/provenance";
+import { applyTemplate, copyPeriod, templateDays } from "@/lib/templates";
+import { emptyValidation, missingSignOff } from "@/lib/signOff";
+import { useSettings } from "@/lib/useSettings";
+import { useSession } from "@/lib/useSession";
+import { ACTION_VERBS, isEditable, isExportable, STATUS_LABELS, STATUS_STYLES } from "@/lib/workflow";
 
 export default function Home() {
-  const [email, setEmail] = useState("");
-  const [employeeName, setEmployeeName] = useState("");
   const [weekStart, setWeekStart] = useState(getCurrentWeekStart);
   const [days, setDays] = useState<DayEntry[]>(() =>
     generateWeekDays(getCurrentWeekStart())
   );
-  const [confidences, setConfidences] = useState<
-    Record<string, Record<string, number | null>>
-  >({});
+  const [confidences, setConfidences] = useState<ConfidenceMap>({});
   const [warnings, setWarnings] = useState<string[]>([]);
+  const [conflicts, setConflicts] = useState<ExtractionConflict[]>([]);
   const [showUpload, setShowUpload] = useState(false);
+  const [pending, setPending] = useState<AIExtractionResult | null>(null);
+  const [pendingCache, setPendingCache] = useState<ExtractionCacheInfo | null>(null);
+  const [extraction, setExtraction] = useState<AIExtractionResult | null>(null);
+  const [validation, setValidation] = useState<AIValidationData | null>(null);
+  const [record, setRecord] = useState<TimesheetRecord | null>(null);
+  const [savedMatch, setSavedMatch] = useState<TimesheetRecord | null>(null);
+  const [saveState, setSaveState] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [roster, setRoster] = useState<Employee[]>([]);
+  const [actingAs, setActingAs] = useState<Employee | null>(null);
+  const [nameQuery, setNameQuery] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<ScheduleTemplate[]>([]);
+  const [kmToDate, setKmToDate] = useState(0);
 
-  function handleWeekChange(date: string) {
+  const settings = useSettings();
+  // Timesheets belong to whoever is signed in, or to the roster employee a
+  // manager picks; the server checks both
+  const user = useSession();
+  const manager = user?.role === "manager" || user?.role === "admin";
+  const employee = actingAs ?? user ?? null;
+  const employeeName = employee?.name ?? "";
+  const email = employee?.email ?? "";
+  const rateTotals = totalByRate(
+    limitRates(splitHours(days, settings.payRules, settings.rounding), employee?.eligibleRates ?? null, settings.payRules)
+  );
+  const totalKm = periodKilometers(days);
+  // Dollars at the tier the employee has reached this claim year
+  const reimbursement = useMemo(
+    () => claimsTotal(mileageClaims(days, settings.mileage, kmToDate)),
+    [days, settings.mileage, kmToDate]
+  );
+  const reimbursed = settings.mileage.payAs === "reimbursement";
+  const standardHours = employee?.standardHours
+    ? employee.standardHours * days.filter((d) => d.dayOfWeek !== "SAT" && d.dayOfWeek !== "SUN").length
+    : 0;
+  const jobTotals = totalByJob(days, settings.rounding);
+  const violations = useMemo(
+    () => checkTimesheet(days, settings.rules, settings.rounding),
+    [days, settings.rules, settings.rounding]
+  );
+  const blocked = hasErrors(violations);
+  const missing = missingSignOff(validation, settings.signOff);
+  const recordId = record?.id ?? null;
+  const editable = !record || isEditable(record.status);
+  const employeeLookup = (email || employeeName).trim();
+  const hasAnyData = days.some(
+    (d) => d.segments.some((s) => s.startTime || s.endTime) || d.totalHours || d.kilometers || d.trips.length
+  );
+  // What's on screen now, for effects that should only run when something else changes
+  const latest = useRef({ hasAnyData, recordId, weekStart, loadRecord, resetPeriod });
+  latest.current = { hasAnyData, recordId, weekStart, loadRecord, resetPeriod };
+
+  // Settings arrive after the first render; move to the organisation's current period if nothing has been entered yet
+  useEffect(() => {
+    const { hasAnyData, recordId, resetPeriod } = latest.current;
+    if (!hasAnyData && !recordId) {
+      resetPeriod(getCurrentWeekStart(settings.period, settings.timeZone));
+    }
+  }, [settings.period, settings.timeZone]);
+
+  // Managers can fill in timesheets for anyone on the roster
+  useEffect(() => {
+    if (!manager) return;
+    listEmployees()
+      .then((all) => setRoster(all.filter((e) => e.active)))
+      .catch((err) => console.error("Failed to load the roster:", err));
+  }, [manager]);
+
+  // A blank period picks up the employee's defaults once we know who they are
+  useEffect(() => {
+    const { hasAnyData, recordId, weekStart, resetPeriod } = latest.current;
+    if (!hasAnyData && !recordId) resetPeriod(weekStart);
+  }, [email]);
+
+  useEffect(() => {
+    if (!email) return;
+    let cancelled = false;
+    listTemplates(email)
+      .then((t) => !cancelled && setTemplates(t))
+      .catch((err) => console.error("Failed to load templates:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [email]);
+
+  useEffect(() => {
+    if (!email) return;
+    let cancelled = false;
+    fetchMileageToDate(email, weekStart)
+      .then((km) => !cancelled && setKmToDate(km))
+      .catch((err) => console.error("Failed to load kilometres claimed this year:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [email, weekStart]);
+
+  // Look for a saved timesheet for this employee and period
+  useEffect(() => {
+    if (!employeeLookup) {
+      setSavedMatch(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      findTimesheet(employeeLookup, weekStart)
+        .then((record) => {
+          if (cancelled) return;
+          setSavedMatch(record);
+          if (recordId && record?.id !== recordId) setRecord(null);
+        })
+        .catch(() => !cancelled && setSavedMatch(null));
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [employeeLookup, weekStart, recordId]);
+
+  // Load it straight away when there's nothing on screen to lose
+  useEffect(() => {
+    const { hasAnyData, recordId, loadRecord } = latest.current;
+    if (savedMatch && savedMatch.id !== recordId && !hasAnyData) {
+      loadRecord(savedMatch);
+    }
+  }, [savedMatch]);
+
+  function resetPeriod(date: string, who = employee) {
     setWeekStart(date);
-    setDays(generateWeekDays(date));
+    setDays(generateWeekDays(date, settings.period, who ?? undefined));
     setConfidences({});
     setWarnings([]);
+    setConflicts([]);
+    setExtraction(null);
+    setValidation(null);
+    setRecord(null);
+    setSaveState("idle");
   }
 
-  const handleExtracted = useCallback(
-    (data: unknown) => {
-      const result = data as AIExtractionResult;
+  // Switches to a roster employee once the name matches one exactly, starting
+  // the period afresh so one employee's hours are never saved as another's
+  function handleNameChange(name: string) {
+    setNameQuery(name);
+    const match = roster.find((e) => e.name.toLowerCase() === name.trim().toLowerCase());
+    if (!match) return;
+    setNameQuery(null);
+    if (match.id === employee?.id) return;
 
-      // Fill employee info if returned
-      if (result.employee?.fullName && !employeeName) {
-        setEmployeeName(result.employee.fullName);
-      }
-      if (result.employee?.email && !email) {
-        setEmail(result.employee.email);
-      }
+    const unsaved = record ? JSON.stringify(days) !== JSON.stringify(record.days) : hasAnyData;
+    const lose = `Switch to ${match.name}? The changes you haven't saved for ${employeeName} will be lost.`;
+    if (unsaved && !confirm(lose)) return;
+    setActingAs(match.id === user?.id ? null : match);
+    setSavedMatch(null);
+    setPending(null);
+    resetPeriod(weekStart, match);
+  }
 
-      // Map AI days directly — support any number of days returned
-      if (result.days && result.days.length > 0) {
-        const newDays = result.days.map((aiDay) => ({
-          date: aiDay.date,
-          dayOfWeek: aiDay.dayOfWeek,
-          startTime: aiDay.work.startTime || "",
-          endTime: aiDay.work.endTime || "",
-          totalHours:
-            aiDay.work.totalHours != null
-              ? String(aiDay.work.totalHours)
-              : "",
-          breakMinutes:
-            aiDay.work.breakMinutes != null
-              ? String(aiDay.work.breakMinutes)
-              : "",
-          kilometers:
-            aiDay.work.kilometers != null
-              ? String(aiDay.work.kilometers)
-              : "",
-          notes: aiDay.notes || "",
-        }));
-        setDays(newDays);
-
-        // Build confidence map
-        const confMap: Record<string, Record<string, number | null>> = {};
-        result.days.forEach((aiDay) => {
-          confMap[aiDay.date] = aiDay.confidence.fields;
-        });
-        setConfidences(confMap);
-      }
+  async function handleCopyLast(): Promise<string> {
+    const previousStart = shiftPeriod(weekStart, -1, settings.period);
+    const previous = await findTimesheet(email, previousStart);
+    if (!previous) throw new Error(`There's no saved timesheet for the period starting ${previousStart}`);
+    setDays((prev) => copyPeriod(prev, previous.days));
+    return `Filled blank cells from the period starting ${previousStart}`;
+  }
 
-      if (result.warnings?.length) {
-        setWarnings(result.warnings);
-      }
+  async function handleSaveTemplate(name: string) {
+    const saved = await saveTemplate(email, name, templateDays(days));
+    setTemplates((prev) =>
+      [...prev.filter((t) => t.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+    );
+  }
+
+  async function handleDeleteTemplate(id: string) {
+    await deleteTemplate(id);
+    setTemplates((prev) => prev.filter((t) => t.id !== id));
+  }
+
+  function handleWeekChange(date: string) {
+    resetPeriod(date);
+  }
+
+  function loadRecord(record: TimesheetRecord) {
+    setRecord(record);
+    setWeekStart(record.weekStartDate);
+    setDays(record.days);
+    setConfidences(record.confidences);
+    setWarnings(record.warnings);
+    setConflicts(record.conflicts);
+    setExtraction(record.extraction);
+    setValidation(record.validation);
+    setSaveState("idle");
+  }
+
+  async function handleSave(): Promise<TimesheetRecord | null> {
+    setSaveState("saving");
+    setSaveError(null);
+    try {
+      const saved = await saveTimesheet(recordId, {
+        email,
+        employeeName,
+        weekStartDate: weekStart,
+        days,
+        extraction,
+        confidences,
+        warnings,
+        conflicts,
+        validation,
+      });
+      setRecord(saved);
+      setSavedMatch(saved);
+      setSaveState("saved");
+      return saved;
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : "Save failed");
+      setSaveState("error");
+      return null;
+    }
+  }
 
-      // Update week start if AI detected a different one
-      if (result.period?.weekStartDate) {
-        setWeekStart(result.period.weekStartDate);
+  async function handleTransition(action: WorkflowAction) {
+    // Submitting saves the latest edits first
+    const target = action === "submit" ? await handleSave() : record;
+    if (!target) return;
+    try {
+      const updated = await transitionTimesheet(target.id, action);
+      setRecord(updated);
+      setSavedMatch(updated);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : "Update failed");
+      setSaveState("error");
+    }
+  }
+
+  async function handleDelete() {
+    if (!recordId || !confirm("Delete the saved timesheet for this period?")) return;
+    try {
+      await deleteTimesheet(recordId);
+      setRecord(null);
+      setSavedMatch(null);
+      setSaveState("idle");
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : "Delete failed");
+      setSaveState("error");
+    }
+  }
+
+  const handleExtracted = useCallback((result: AIExtractionResult, cache: ExtractionCacheInfo | null) => {
+    setPending(result);
+    setPendingCache(cache);
+    setShowUpload(false);
+  }, []);
+
+  function handleApplyExtraction(review: ExtractionReviewData, selection: ReviewSelection) {
+    if (!pending) return;
+
+    setDays((prev) => applyReview(prev, review, selection));
+    setConfidences((prev) => {
+      const next = { ...prev };
+      for (const [date, fields] of Object.entries(appliedConfidences(review, selection))) {
+        next[date] = { ...next[date], ...fields };
       }
+      return next;
+    });
+    setWarnings(pending.warnings ?? []);
+    setConflicts(pending.conflicts ?? []);
+    setExtraction(pending);
+    setValidation(pending.validation);
+    setPending(null);
+  }
 
-      setShowUpload(false);
-    },
-    [days, email, employeeName]
-  );
+  // Only moves the period when the user asks to from the review
+  function handleSwitchPeriod(date: string) {
+    resetPeriod(getPeriodStart(date, settings.period));
+  }
 
-  function handleDownloadCSV() {
-    const name = employeeName || email || "Employee";
-    const csv = generateXeroCSV(name, days);
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
+  // The export comes from the server so payroll gets exactly what was approved
+  function download(url: string) {
     const a = document.createElement("a");
     a.href = url;
-    a.download = `timesheet-${weekStart}-${name.replace(/\s+/g, "_")}.csv`;
     a.click();
-    URL.revokeObjectURL(url);
   }
 
-  const hasAnyData = days.some(
-    (d) => d.startTime || d.endTime || d.totalHours || d.kilometers
-  );
-
   return (
     <div className="space-y-8">
       {/* Header */}
       <div>
-        <h1 className="text-2xl font-bold text-gray-900">Weekly Timesheet</h1>
+        <h1 className="text-2xl font-bold text-gray-900">Timesheet</h1>
         <p className="mt-1 text-sm text-gray-500">
           Enter your hours manually or upload a document for AI extraction.
           Download as Xero-ready CSV when done.
@@ -119,28 +362,53 @@ export default function Home() {
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Full Name
             </label>
-            <input
-              type="text"
-              placeholder="John Smith"
-              value={employeeName}
-              onChange={(e) => setEmployeeName(e.target.value)}
-              className="input-field"
-            />
+            {manager ? (
+              <>
+                <input
+                  type="text"
+                  list="roster"
+                  value={nameQuery ?? employeeName}
+                  onChange={(e) => handleNameChange(e.target.value)}
+                  onBlur={() => setNameQuery(null)}
+                  className="input-field"
+                />
+                <datalist id="roster">
+                  {roster.map((e) => (
+                    <option key={e.id} value={e.name}>
+                      {e.email}
+                    </option>
+                  ))}
+                </datalist>
+              </>
+            ) : (
+              <input type="text" value={employeeName} readOnly disabled className="input-field" />
+            )}
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Email
             </label>
-            <input
-              type="email"
-              placeholder="john@company.com"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              className="input-field"
-            />
+            <input type="email" value={email} readOnly disabled className="input-field" />
+            <p className="mt-1 text-xs text-gray-500">
+              {manager
+                ? "Pick anyone on the roster to fill in their timesheet."
+                : "From your sign-in; ask an admin to change it."}
+            </p>
           </div>
-          <WeekPicker value={weekStart} onChange={handleWeekChange} />
+          <WeekPicker value={weekStart} period={settings.period} onChange={handleWeekChange} />
         </div>
+
+        {savedMatch && savedMatch.id !== recordId && (
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-3 rounded-lg bg-blue-50 border border-blue-200 px-4 py-3 text-sm text-blue-800">
+            <span>
+              A saved timesheet exists for {savedMatch.employeeName || savedMatch.email} for this
+              period (last saved {new Date(savedMatch.updatedAt).toLocaleString()}).
+            </span>
+            <button onClick={() => loadRecord(savedMatch)} className="btn-secondary !py-1.5">
+              Load saved timesheet
+            </button>
+          </div>
+        )}
       </div>
 
       {/* AI Upload section */}
@@ -156,13 +424,27 @@ export default function Home() {
           </div>
           <button
             onClick={() => setShowUpload(!showUpload)}
+            disabled={!editable}
             className="btn-secondary"
           >
             {showUpload ? "Hide" : "Upload File"}
           </button>
         </div>
 
-        {showUpload && <FileUpload onExtracted={handleExtracted} employeeName={employeeName} />}
+        {showUpload && editable && <FileUpload onExtracted={handleExtracted} employeeEmail={email} />}
+
+        {pending && (
+          <ExtractionReview
+            key={weekStart}
+            current={days}
+            result={pending}
+            cache={pendingCache}
+            period={settings.period}
+            onApply={handleApplyExtraction}
+            onDiscard={() => setPending(null)}
+            onSwitchPeriod={handleSwitchPeriod}
+          />
+        )}
 
         {/* Confidence legend */}
         {Object.keys(confidences).length > 0 && (
@@ -195,17 +477,89 @@ export default function Home() {
             </ul>
           </div>
         )}
+
+        {/* Disagreements between uploaded files */}
+        {conflicts.length > 0 && (
+          <div className="mt-4 rounded-lg bg-red-50 border border-red-200 px-4 py-3">
+            <p className="text-sm font-medium text-red-800 mb-1">
+              Files disagree — please check these values
+            </p>
+            <ul className="text-sm text-red-700 list-disc list-inside space-y-0.5">
+              {conflicts.map((c, i) => (
+                <li key={i}>
+                  {c.date} {c.field}:{" "}
+                  {c.values
+                    .map((v) => `${v.value} (${v.source})`)
+                    .join(" vs ")}{" "}
+                  — used {c.chosen}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
 
       {/* Timesheet grid */}
       <div>
-        <h2 className="text-lg font-semibold text-gray-900 mb-4">
-          Hours — Period Starting {weekStart}
-        </h2>
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Hours — Period Starting {weekStart}
+          </h2>
+          {record && (
+            <span
+              className={`rounded-full px-2.5 py-0.5 text-xs font-medium ${STATUS_STYLES[record.status]}`}
+            >
+              {STATUS_LABELS[record.status]}
+            </span>
+          )}
+        </div>
+        {record?.inbound && (
+          <div className="mb-4 rounded-lg bg-blue-50 border border-blue-200 px-4 py-3 text-sm text-blue-800">
+            Read from an email by {record.inbound.from} on {record.inbound.receivedAt.slice(0, 10)}
+            {record.inbound.subject && <> (&ldquo;{record.inbound.subject}&rdquo;)</>}:{" "}
+            {record.inbound.files.join(", ")}. Check the values against the attachment before submitting.
+          </div>
+        )}
+        {record && !editable && (
+          <p className="mb-4 text-sm text-gray-500">
+            This timesheet is {record.status} and can&apos;t be edited.
+            {record.status === "submitted" && " Withdraw it to make changes."}
+          </p>
+        )}
+        {editable && (
+          <TemplateBar
+            templates={templates}
+            canSave={hasAnyData}
+            onApply={(template) => setDays((prev) => applyTemplate(prev, template))}
+            onCopyLast={handleCopyLast}
+            onSave={handleSaveTemplate}
+            onDelete={handleDeleteTemplate}
+          />
+        )}
         <TimesheetGrid
           days={days}
-          onChange={setDays}
+          onChange={(next) => setDays((prev) => trackDays(prev, next, "manual"))}
           confidences={confidences}
+          jobs={settings.jobs}
+          rounding={settings.rounding}
+          violations={violations}
+          readOnly={!editable}
+        />
+        {violations.length > 0 && (
+          <div className="mt-4">
+            <RuleSummary violations={violations} />
+          </div>
+        )}
+      </div>
+
+      {/* Sign-off and other details read off the sheet */}
+      <div className="card">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Sign-off &amp; Details</h2>
+        <ValidationPanel
+          value={validation ?? emptyValidation()}
+          onChange={setValidation}
+          missing={missing}
+          readOnly={!editable}
         />
       </div>
 
@@ -218,63 +572,175 @@ export default function Home() {
               <span>
                 Total Hours:{" "}
                 <span className="font-semibold text-gray-900">
-                  {days
-                    .reduce((sum, d) => {
-                      let h = parseFloat(d.totalHours) || 0;
-                      if (!h && d.startTime && d.endTime) {
-                        const [sh, sm] = d.startTime.split(":").map(Number);
-                        const [eh, em] = d.endTime.split(":").map(Number);
-                        h = eh - sh + (em - sm) / 60;
-                        h -= (parseFloat(d.breakMinutes) || 0) / 60;
-                      }
-                      return sum + Math.max(0, h);
-                    }, 0)
-                    .toFixed(1)}
+                  {periodHours(days, settings.rounding).toFixed(1)}
                 </span>
+                {standardHours > 0 && <span className="text-gray-500"> of {standardHours.toFixed(1)} standard</span>}
               </span>
               <span>
                 Total Km:{" "}
-                <span className="font-semibold text-gray-900">
-                  {days
-                    .reduce(
-                      (sum, d) => sum + (parseFloat(d.kilometers) || 0),
-                      0
-                    )
-                    .toFixed(0)}
-                </span>
+                <span className="font-semibold text-gray-900">{totalKm.toFixed(0)}</span>
+                {totalKm > 0 && employee && !employee.mileageRate && (
+                  <span className="text-red-600"> (no mileage allowance)</span>
+                )}
               </span>
+              {totalKm > 0 && employee?.mileageRate && (
+                <span title={kmToDate ? `${kmToDate.toFixed(0)} km already claimed this year` : undefined}>
+                  Mileage:{" "}
+                  <span className="font-semibold text-gray-900">${reimbursement.toFixed(2)}</span>
+                </span>
+              )}
             </div>
+            {rateTotals.length > 1 && (
+              <div className="mt-2 flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-500">
+                {rateTotals.map((line) => (
+                  <span key={line.rate}>
+                    {line.rate}:{" "}
+                    <span className="font-medium text-gray-700">{line.hours.toFixed(2)}</span>
+                  </span>
+                ))}
+              </div>
+            )}
+            {jobTotals.some((line) => line.jobCode) && (
+              <div className="mt-3">
+                <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">By job</h3>
+                <ul className="text-sm text-gray-600 space-y-0.5">
+                  {jobTotals.map((line) => {
+                    const job = line.jobCode ? findJob(settings.jobs, line.jobCode) : undefined;
+                    return (
+                      <li key={line.jobCode ?? ""} className="flex gap-4">
+                        <span className="w-16 text-right font-medium text-gray-900">{line.hours.toFixed(2)}</span>
+                        <span>{line.jobCode ? (job ? jobLabel(job) : line.jobCode) : "Not booked to a job"}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
           </div>
 
-          <button
-            onClick={handleDownloadCSV}
-            disabled={!hasAnyData || !employeeName}
-            className="btn-success"
-            title={
-              !employeeName
-                ? "Enter employee name first"
-                : !hasAnyData
-                  ? "Enter some timesheet data first"
-                  : "Download Xero CSV"
-            }
-          >
-            <svg
-              className="mr-2 h-4 w-4"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
+          <div className="flex flex-wrap items-center gap-2">
+            {saveState === "saved" && (
+              <span className="text-sm text-emerald-600">Saved</span>
+            )}
+            {saveState === "error" && saveError && (
+              <span className="text-sm text-red-600">{saveError}</span>
+            )}
+            {recordId && editable && (
+              <button onClick={handleDelete} className="btn-secondary">
+                Delete
+              </button>
+            )}
+            {editable && (
+              <button
+                onClick={handleSave}
+                disabled={!employeeLookup || saveState === "saving"}
+                className="btn-secondary"
+                title={!employeeLookup ? "Waiting for your sign-in" : "Save timesheet"}
+              >
+                {saveState === "saving" ? "Saving..." : recordId ? "Save changes" : "Save draft"}
+              </button>
+            )}
+            {editable && (
+              <button
+                onClick={() => handleTransition("submit")}
+                disabled={!employeeName || !hasAnyData || missing.length > 0 || saveState === "saving"}
+                className="btn-primary"
+                title={
+                  !employeeName
+                    ? "Waiting for your sign-in"
+                    : missing.length
+                      ? `Add the ${missing.join(", ")} first`
+                      : "Submit for approval"
+                }
+              >
+                Submit for approval
+              </button>
+            )}
+            {record?.status === "submitted" && (
+              <button onClick={() => handleTransition("reopen")} className="btn-secondary">
+                Withdraw
+              </button>
+            )}
+            <button
+              onClick={() => record && download(auditUrl(record.id))}
+              disabled={!record}
+              className="btn-secondary"
+              title={record ? "Where each value came from and every change to it" : "Save the timesheet first"}
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
-              />
-            </svg>
-            Download Xero CSV
-          </button>
+              Audit report
+            </button>
+            <button
+              onClick={() => record && download(reportUrl(record.id))}
+              disabled={!record}
+              className="btn-secondary"
+              title={record ? "A printable PDF with lines to sign" : "Save the timesheet first"}
+            >
+              Print PDF
+            </button>
+            <button
+              onClick={() => record && download(exportUrl(record.id))}
+              disabled={!record || !isExportable(record.status) || blocked}
+              className="btn-success"
+              title={
+                blocked
+                  ? "Fix the errors on this timesheet before exporting"
+                  : record && isExportable(record.status)
+                    ? "Download Xero CSV"
+                    : "Only approved timesheets can be exported"
+              }
+            >
+              <svg
+                className="mr-2 h-4 w-4"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+                />
+              </svg>
+              Download Xero CSV
+            </button>
+            {reimbursed && totalKm > 0 && (
+              <button
+                onClick={() => record && download(reimbursementUrl(record.id))}
+                disabled={!record || !isExportable(record.status) || !employee?.mileageRate}
+                className="btn-secondary"
+                title={
+                  !employee?.mileageRate
+                    ? "This employee can't claim kilometres"
+                    : record && isExportable(record.status)
+                      ? "Download the mileage reimbursements for Xero"
+                      : "Only approved timesheets can be exported"
+                }
+              >
+                Reimbursements CSV
+              </button>
+            )}
+          </div>
         </div>
       </div>
+
+      {/* Approval history */}
+      {record && record.history.length > 0 && (
+        <div className="card">
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">History</h2>
+          <ul className="space-y-2 text-sm">
+            {record.history.map((event, i) => (
+              <li key={i} className="text-gray-700">
+                <span className="font-medium">{event.by}</span> {ACTION_VERBS[event.action]}{" "}
+                <span className="text-gray-500">{new Date(event.at).toLocaleString()}</span>
+                {event.comment && (
+                  <p className="mt-0.5 text-gray-600 italic">&ldquo;{event.comment}&rdquo;</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,130 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import PayRulesForm from "@/components/PayRulesForm";
+import PeriodForm from "@/components/PeriodForm";
+import JobsForm from "@/components/JobsForm";
+import RulesForm from "@/components/RulesForm";
+import RoundingForm from "@/components/RoundingForm";
+import SignOffForm from "@/components/SignOffForm";
+import MileageForm from "@/components/MileageForm";
+import { fetchSettings, saveSettings } from "@/lib/api";
+import { OrgSettings } from "@/lib/types";
+
+export default function SettingsPage() {
+  const [settings, setSettings] = useState<OrgSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchSettings()
+      .then(setSettings)
+      .catch((err) => setMessage({ ok: false, text: err.message }));
+  }, []);
+
+  async function handleSave() {
+    if (!settings) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      setSettings(await saveSettings(settings));
+      setMessage({ ok: true, text: "Settings saved" });
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message : "Save failed" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Organisation Settings</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Payroll rules shared by every timesheet and export.
+        </p>
+      </div>
+
+      {!settings ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <>
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Pay Period</h2>
+            <PeriodForm
+              value={settings.period}
+              onChange={(period) => setSettings({ ...settings, period })}
+            />
+            <div className="mt-4 sm:w-1/3">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Time zone</label>
+              <input
+                type="text"
+                list="time-zones"
+                value={settings.timeZone}
+                onChange={(e) => setSettings({ ...settings, timeZone: e.target.value })}
+                className="input-field"
+              />
+              <datalist id="time-zones">
+                {Intl.supportedValuesOf("timeZone").map((zone) => (
+                  <option key={zone} value={zone} />
+                ))}
+              </datalist>
+              <p className="mt-1 text-xs text-gray-500">Decides which day and period are current.</p>
+            </div>
+          </div>
+
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Earnings Rates</h2>
+            <PayRulesForm
+              value={settings.payRules}
+              onChange={(payRules) => setSettings({ ...settings, payRules })}
+            />
+          </div>
+
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Rounding</h2>
+            <RoundingForm
+              value={settings.rounding}
+              onChange={(rounding) => setSettings({ ...settings, rounding })}
+            />
+          </div>
+
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Mileage</h2>
+            <MileageForm value={settings.mileage} onChange={(mileage) => setSettings({ ...settings, mileage })} />
+          </div>
+
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Timesheet Rules</h2>
+            <RulesForm value={settings.rules} onChange={(rules) => setSettings({ ...settings, rules })} />
+          </div>
+
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Required Sign-off</h2>
+            <SignOffForm value={settings.signOff} onChange={(signOff) => setSettings({ ...settings, signOff })} />
+          </div>
+
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Jobs &amp; Cost Codes</h2>
+            <JobsForm
+              jobs={settings.jobs}
+              tracking={settings.tracking}
+              onChange={(jobs, tracking) => setSettings({ ...settings, jobs, tracking })}
+            />
+          </div>
+
+          <div className="flex items-center justify-end gap-3">
+            {message && (
+              <span className={`text-sm ${message.ok ? "text-emerald-600" : "text-red-600"}`}>
+                {message.text}
+              </span>
+            )}
+            <button onClick={handleSave} disabled={saving} className="btn-primary">
+              {saving ? "Saving..." : "Save settings"}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import { requestSignIn } from "@/lib/api";
+
+export default function SignInPage({ searchParams }: { searchParams: { error?: string } }) {
+  const [email, setEmail] = useState("");
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [previewLink, setPreviewLink] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(searchParams.error ?? null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSending(true);
+    setError(null);
+    try {
+      const result = await requestSignIn(email);
+      setSent(result.sent);
+      setPreviewLink(result.previewLink);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't send a sign-in link");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-md space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Sign in</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          We&apos;ll email you a link to sign in with. Ask an admin to add you to the employee directory if
+          you&apos;re not in it yet.
+        </p>
+      </div>
+
+      <div className="card space-y-4">
+        {sent ? (
+          <>
+            <p className="text-sm text-gray-700">
+              If <span className="font-medium">{email}</span> is in the directory, a sign-in link is on its
+              way. It works once, for the next 15 minutes.
+            </p>
+            {previewLink && (
+              <div className="rounded-lg bg-amber-50 border border-amber-200 px-4 py-3 text-sm text-amber-800">
+                Email isn&apos;t sent in development.{" "}
+                <a href={previewLink} className="font-medium underline">
+                  Open the sign-in link
+                </a>
+              </div>
+            )}
+            <button onClick={() => setSent(false)} className="btn-secondary">
+              Use a different email
+            </button>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Work email</label>
+              <input
+                type="email"
+                required
+                placeholder="john@company.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="input-field"
+              />
+            </div>
+            <button type="submit" disabled={sending || !email.trim()} className="btn-primary w-full">
+              {sending ? "Sending..." : "Email me a sign-in link"}
+            </button>
+          </form>
+        )}
+
+        {error && (
+          <div className="rounded-lg bg-red-50 border border-red-200 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fetchUsage } from "@/lib/api";
+import { UsageSummary, UsageTotals } from "@/lib/types";
+
+const RANGES = [7, 30, 90];
+
+function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+}
+
+function UsageTable({ label, rows }: { label: string; rows: Array<UsageTotals & { key: string }> }) {
+  if (rows.length === 0) return <p className="text-sm text-gray-500">No extractions in this range.</p>;
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+          <th className="py-1 pr-3">{label}</th>
+          <th className="py-1 pr-3 text-right">Requests</th>
+          <th className="py-1 pr-3 text-right">Failed</th>
+          <th className="py-1 pr-3 text-right">Cached</th>
+          <th className="py-1 pr-3 text-right">Tokens in / out</th>
+          <th className="py-1 pr-3 text-right">Avg time</th>
+          <th className="py-1 text-right">Est. cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key} className="border-t border-gray-100">
+            <td className="py-1 pr-3 text-gray-900">{row.key || "—"}</td>
+            <td className="py-1 pr-3 text-right">{row.requests}</td>
+            <td className={`py-1 pr-3 text-right ${row.failures ? "text-red-600" : ""}`}>{row.failures}</td>
+            <td className="py-1 pr-3 text-right">{row.cacheHits}</td>
+            <td className="py-1 pr-3 text-right">
+              {row.inputTokens.toLocaleString()} / {row.outputTokens.toLocaleString()}
+            </td>
+            <td className="py-1 pr-3 text-right">{(row.averageLatencyMs / 1000).toFixed(1)}s</td>
+            <td className="py-1 text-right font-medium">{formatCost(row.costUsd)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function UsagePage() {
+  const [days, setDays] = useState(30);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    fetchUsage(days)
+      .then(setUsage)
+      .catch((err) => setError(err.message));
+  }, [days]);
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">AI Extraction Usage</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Requests, tokens and estimated spend. Costs use list prices and are estimates only.
+          </p>
+        </div>
+        <select value={days} onChange={(e) => setDays(Number(e.target.value))} className="input-field !w-40">
+          {RANGES.map((n) => (
+            <option key={n} value={n}>
+              Last {n} days
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {!usage ? (
+        !error && <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <>
+          <div className="card grid gap-4 sm:grid-cols-4 text-sm">
+            <div>
+              <div className="text-xs uppercase tracking-wide text-gray-500">Requests</div>
+              <div className="text-xl font-semibold text-gray-900">{usage.totals.requests}</div>
+            </div>
+            <div>
+              <div className="text-xs uppercase tracking-wide text-gray-500">Failed</div>
+              <div className="text-xl font-semibold text-gray-900">{usage.totals.failures}</div>
+            </div>
+            <div>
+              <div className="text-xs uppercase tracking-wide text-gray-500">Average time</div>
+              <div className="text-xl font-semibold text-gray-900">
+                {(usage.totals.averageLatencyMs / 1000).toFixed(1)}s
+              </div>
+            </div>
+            <div>
+              <div className="text-xs uppercase tracking-wide text-gray-500">Estimated cost</div>
+              <div className="text-xl font-semibold text-gray-900">{formatCost(usage.totals.costUsd)}</div>
+            </div>
+          </div>
+
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">By employee</h2>
+            <UsageTable label="Employee" rows={usage.byEmployee.map((e) => ({ ...e, key: e.employee }))} />
+          </div>
+
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">By day</h2>
+            <UsageTable label="Date" rows={usage.byDay.map((d) => ({ ...d, key: d.date }))} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
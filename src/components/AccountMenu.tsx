@@ -0,0 +1,25 @@
+"use client";
+
+import { signOut } from "@/lib/api";
+import { useSession } from "@/lib/useSession";
+
+export default function AccountMenu() {
+  const user = useSession();
+  if (!user) return null;
+
+  async function handleSignOut() {
+    await signOut().catch(() => undefined);
+    window.location.assign("/signin");
+  }
+
+  return (
+    <div className="flex items-center gap-3 border-l border-gray-200 pl-4">
+      <span className="text-gray-900" title={user.email}>
+        {user.name}
+      </span>
+      <button onClick={handleSignOut} className="hover:text-gray-900">
+        Sign out
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import RuleSummary from "@/components/RuleSummary";
+import { RoundingPolicy, SignOffSettings, TimesheetRecord, TimesheetRules, WorkflowAction } from "@/lib/types";
+import { ACTION_VERBS, STATUS_LABELS, STATUS_STYLES } from "@/lib/workflow";
+import { dayHours, describeSegments, periodHours } from "@/lib/hours";
+import { checkTimesheet } from "@/lib/rules";
+import { dayKilometers, describeTrips, periodKilometers } from "@/lib/mileage";
+import { customText, missingSignOff } from "@/lib/signOff";
+
+interface ApprovalCardProps {
+  timesheet: TimesheetRecord;
+  rules: TimesheetRules;
+  rounding: RoundingPolicy;
+  signOff: SignOffSettings;
+  onAction: (action: WorkflowAction, comment: string) => Promise<void>;
+}
+
+export default function ApprovalCard({ timesheet, rules, rounding, signOff, onAction }: ApprovalCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [comment, setComment] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const totalHours = periodHours(timesheet.days, rounding);
+  const totalKm = periodKilometers(timesheet.days);
+  const validation = timesheet.validation;
+  const submitted = [...timesheet.history].reverse().find((e) => e.action === "submit");
+  const missing = missingSignOff(validation, signOff);
+  const violations = useMemo(
+    () => checkTimesheet(timesheet.days, rules, rounding),
+    [timesheet.days, rules, rounding]
+  );
+
+  async function act(action: WorkflowAction) {
+    setBusy(true);
+    setError(null);
+    try {
+      await onAction(action, comment);
+      setComment("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Update failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2">
+            <h3 className="font-semibold text-gray-900">
+              {timesheet.employeeName || timesheet.email}
+            </h3>
+            <span
+              className={`rounded-full px-2.5 py-0.5 text-xs font-medium ${STATUS_STYLES[timesheet.status]}`}
+            >
+              {STATUS_LABELS[timesheet.status]}
+            </span>
+          </div>
+          <p className="text-sm text-gray-500">
+            Period starting {timesheet.weekStartDate}
+            {submitted && ` · submitted ${new Date(submitted.at).toLocaleString()}`}
+          </p>
+        </div>
+        <div className="text-right text-sm text-gray-600">
+          <div>
+            <span className="font-semibold text-gray-900">{totalHours.toFixed(1)}</span> hours
+          </div>
+          <div>
+            <span className="font-semibold text-gray-900">{totalKm.toFixed(0)}</span> km
+          </div>
+        </div>
+      </div>
+
+      {/* What the AI read off the source document */}
+      <dl className="grid gap-2 text-sm sm:grid-cols-3">
+        <div>
+          <dt className="text-xs uppercase tracking-wide text-gray-500">Supervisor</dt>
+          <dd className="text-gray-900">
+            {validation?.supervisor.name || "—"}
+            {validation?.supervisor.signature && (
+              <span className="ml-1 text-xs text-gray-500">(signed)</span>
+            )}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-xs uppercase tracking-wide text-gray-500">Client / project</dt>
+          <dd className="text-gray-900">
+            {[validation?.client.name, validation?.client.project].filter(Boolean).join(" — ") || "—"}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-xs uppercase tracking-wide text-gray-500">Approver on sheet</dt>
+          <dd className="text-gray-900">
+            {validation?.approver.name || "—"}
+            {validation?.approver.date && (
+              <span className="ml-1 text-xs text-gray-500">{validation.approver.date}</span>
+            )}
+          </dd>
+        </div>
+        {Object.entries(validation?.custom ?? {}).map(([key, value]) => (
+          <div key={key}>
+            <dt className="text-xs uppercase tracking-wide text-gray-500">{key}</dt>
+            <dd className="text-gray-900">{customText(value) || "—"}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {missing.length > 0 && (
+        <p className="text-sm text-red-600">Sign-off is missing the {missing.join(", ")}.</p>
+      )}
+
+      <RuleSummary violations={violations} />
+
+      <button onClick={() => setExpanded(!expanded)} className="text-sm text-blue-600 hover:underline">
+        {expanded ? "Hide days" : "Show days"}
+      </button>
+
+      {expanded && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="text-xs uppercase tracking-wide text-gray-500">
+              <tr>
+                <th className="py-1 pr-3 text-left">Day</th>
+                <th className="py-1 pr-3 text-left">Times</th>
+                <th className="py-1 pr-3 text-left">Hours</th>
+                <th className="py-1 pr-3 text-left">Km</th>
+                <th className="py-1 text-left">Notes</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 text-gray-700">
+              {timesheet.days.map((d) => (
+                <tr key={d.date}>
+                  <td className="py-1 pr-3">
+                    {d.dayOfWeek} <span className="text-xs text-gray-500">{d.date}</span>
+                  </td>
+                  <td className="py-1 pr-3">{describeSegments(d.segments) || "—"}</td>
+                  <td className="py-1 pr-3">{dayHours(d, rounding) ? dayHours(d, rounding).toFixed(2) : "—"}</td>
+                  <td className="py-1 pr-3">{dayKilometers(d) || "—"}</td>
+                  <td className="py-1">
+                    {d.notes}
+                    {d.trips.length > 0 && <div className="text-xs text-gray-500">{describeTrips(d.trips)}</div>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {timesheet.history.length > 0 && (
+        <ul className="space-y-1 text-xs text-gray-500">
+          {timesheet.history.map((event, i) => (
+            <li key={i}>
+              {event.by} {ACTION_VERBS[event.action]} {new Date(event.at).toLocaleString()}
+              {event.comment && <span className="italic"> — &ldquo;{event.comment}&rdquo;</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {timesheet.status === "submitted" && (
+        <div className="space-y-2">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Comment (required to reject)"
+            rows={2}
+            className="input-field"
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => act("reject")}
+              disabled={busy || !comment.trim()}
+              className="btn-secondary"
+            >
+              Reject
+            </button>
+            <button onClick={() => act("approve")} disabled={busy} className="btn-success">
+              Approve
+            </button>
+          </div>
+        </div>
+      )}
+
+      {timesheet.status === "approved" && (
+        <div className="flex justify-end gap-2">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button onClick={() => act("reopen")} disabled={busy} className="btn-secondary">
+            Reopen
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import { deleteEmployee, saveEmployee } from "@/lib/api";
+import { DEFAULT_PAYROLL } from "@/lib/settings";
+import { Employee, EmployeeInput, Role } from "@/lib/types";
+
+interface EmployeeRowProps {
+  employee: Employee | null; // null for the blank row that adds someone
+  readOnly: boolean;
+  rates: string[]; // the organisation's earnings rates, ordinary first
+  onSaved: (employee: Employee) => void;
+  onDeleted: (id: string) => void;
+}
+
+const ROLE_LABELS: Record<Role, string> = {
+  employee: "Employee",
+  manager: "Manager",
+  admin: "Admin",
+};
+
+const BLANK: EmployeeInput = {
+  name: "",
+  email: "",
+  employeeId: "",
+  role: "employee",
+  active: true,
+  ...DEFAULT_PAYROLL,
+};
+
+function toInput(employee: Employee | null): EmployeeInput {
+  if (!employee) return BLANK;
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...input } = employee;
+  return input;
+}
+
+export default function EmployeeRow({ employee, readOnly, rates, onSaved, onDeleted }: EmployeeRowProps) {
+  const [draft, setDraft] = useState<EmployeeInput>(() => toInput(employee));
+  const [showPayroll, setShowPayroll] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(toInput(employee));
+
+  function update(patch: Partial<EmployeeInput>) {
+    setDraft({ ...draft, ...patch });
+  }
+
+  // Ordinary hours are always payable, so it isn't offered
+  function toggleRate(rate: string, allowed: boolean) {
+    const current = draft.eligibleRates ?? rates.slice(1);
+    update({ eligibleRates: allowed ? [...current, rate] : current.filter((r) => r !== rate) });
+  }
+
+  async function run(task: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleSave() {
+    run(async () => {
+      const saved = await saveEmployee(employee?.id ?? null, draft);
+      onSaved(saved);
+      if (!employee) setDraft(BLANK);
+    });
+  }
+
+  function handleDelete() {
+    if (!employee || !confirm(`Remove ${employee.name} from the directory?`)) return;
+    run(async () => {
+      await deleteEmployee(employee.id);
+      onDeleted(employee.id);
+    });
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="grid gap-2 sm:grid-cols-[1fr_1fr_110px_120px_60px_180px] items-center">
+        <input
+          type="text"
+          placeholder="Full name"
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+          disabled={readOnly}
+          className="input-field"
+        />
+        <input
+          type="email"
+          placeholder="Email"
+          value={draft.email}
+          onChange={(e) => update({ email: e.target.value })}
+          disabled={readOnly}
+          className="input-field"
+        />
+        <input
+          type="text"
+          placeholder="ID"
+          value={draft.employeeId}
+          onChange={(e) => update({ employeeId: e.target.value })}
+          disabled={readOnly}
+          className="input-field"
+        />
+        <select
+          value={draft.role}
+          onChange={(e) => update({ role: e.target.value as Role })}
+          disabled={readOnly}
+          className="input-field"
+        >
+          {Object.entries(ROLE_LABELS).map(([role, label]) => (
+            <option key={role} value={role}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="checkbox"
+          checked={draft.active}
+          onChange={(e) => update({ active: e.target.checked })}
+          disabled={readOnly}
+          aria-label="Active"
+        />
+        <div className="flex gap-3 text-sm">
+          <button onClick={() => setShowPayroll(!showPayroll)} className="text-gray-600 hover:underline">
+            Payroll {showPayroll ? "▴" : "▾"}
+          </button>
+          {!readOnly && (
+            <button
+              onClick={handleSave}
+              disabled={busy || !dirty}
+              className="text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+            >
+              {employee ? "Save" : "Add"}
+            </button>
+          )}
+          {!readOnly && employee && (
+            <button onClick={handleDelete} disabled={busy} className="text-red-600 hover:underline">
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showPayroll && (
+        <div className="grid gap-3 rounded-lg bg-gray-50 p-3 sm:grid-cols-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-0.5">Name in Xero</label>
+            <input
+              type="text"
+              placeholder={draft.name || "Same as name"}
+              value={draft.xeroName}
+              onChange={(e) => update({ xeroName: e.target.value })}
+              disabled={readOnly}
+              className="input-field text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-0.5">Default break (min)</label>
+            <input
+              type="number"
+              min={0}
+              value={draft.defaultBreakMinutes}
+              onChange={(e) => update({ defaultBreakMinutes: Number(e.target.value) || 0 })}
+              disabled={readOnly}
+              className="input-field text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-0.5">Standard hours a weekday</label>
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={draft.standardHours}
+              onChange={(e) => update({ standardHours: Number(e.target.value) || 0 })}
+              disabled={readOnly}
+              className="input-field text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-0.5">Mileage rate in Xero</label>
+            <input
+              type="text"
+              placeholder="Can't claim km"
+              value={draft.mileageRate}
+              onChange={(e) => update({ mileageRate: e.target.value })}
+              disabled={readOnly}
+              className="input-field text-sm"
+            />
+          </div>
+          {rates.length > 1 && (
+            <div className="sm:col-span-4">
+              <div className="text-xs font-medium text-gray-500 mb-1">
+                Can be paid (other hours go to {rates[0]})
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                {rates.slice(1).map((rate) => (
+                  <label key={rate} className="flex items-center gap-1.5">
+                    <input
+                      type="checkbox"
+                      checked={draft.eligibleRates?.includes(rate) ?? true}
+                      onChange={(e) => toggleRate(rate, e.target.checked)}
+                      disabled={readOnly}
+                    />
+                    {rate}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { AIExtractionResult, DayEntry, ExtractionCacheInfo, PeriodSettings } from "@/lib/types";
+import { getPeriodStart } from "@/lib/dates";
+import { describeSegments } from "@/lib/hours";
+import {
+  ExtractionReview as Review,
+  REVIEW_FIELD_LABELS,
+  ReviewSelection,
+  buildReview,
+  selectAll,
+  selectEmptyOnly,
+  selectNone,
+} from "@/lib/review";
+
+interface ExtractionReviewProps {
+  current: DayEntry[];
+  result: AIExtractionResult;
+  cache?: ExtractionCacheInfo | null;
+  period: PeriodSettings;
+  onApply: (review: Review, selection: ReviewSelection) => void;
+  onDiscard: () => void;
+  onSwitchPeriod: (weekStartDate: string) => void;
+}
+
+function confidenceBadge(c: number | null): string {
+  if (c == null) return "text-gray-400";
+  if (c >= 0.8) return "text-emerald-600";
+  if (c >= 0.5) return "text-amber-600";
+  return "text-red-600";
+}
+
+export default function ExtractionReview({
+  current,
+  result,
+  cache,
+  period,
+  onApply,
+  onDiscard,
+  onSwitchPeriod,
+}: ExtractionReviewProps) {
+  const review = useMemo(() => buildReview(current, result), [current, result]);
+  const [selection, setSelection] = useState<ReviewSelection>(() => selectEmptyOnly(review));
+
+  const selectedCount = Object.values(selection).reduce(
+    (sum, fields) => sum + Object.values(fields).filter(Boolean).length,
+    0
+  );
+  const gridStart = current[0]?.date;
+  const periodStart = result.period?.weekStartDate && getPeriodStart(result.period.weekStartDate, period);
+
+  function toggle(date: string, field: string, value: boolean) {
+    setSelection((prev) => ({ ...prev, [date]: { ...prev[date], [field]: value } }));
+  }
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">Review extracted values</h3>
+          <p className="text-xs text-gray-500">
+            Choose which values to copy into the timesheet. Nothing changes until you apply.
+          </p>
+          {cache && cache.hits > 0 && (
+            <p className="text-xs text-gray-500">
+              {cache.misses ? `${cache.hits} of ${cache.hits + cache.misses} files` : "These files"} were read
+              before, so the earlier extraction was reused. Upload again with &ldquo;Re-extract&rdquo; ticked to
+              read them afresh.
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => setSelection(selectAll(review))} className="btn-secondary !py-1.5">
+            Accept all
+          </button>
+          <button onClick={() => setSelection(selectEmptyOnly(review))} className="btn-secondary !py-1.5">
+            Only empty cells
+          </button>
+          <button onClick={() => setSelection(selectNone(review))} className="btn-secondary !py-1.5">
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {/* Days the grid has no row for */}
+      {review.outsidePeriod.length > 0 && (
+        <div className="rounded-lg bg-amber-50 border border-amber-200 px-4 py-3 text-sm text-amber-800">
+          <p className="font-medium mb-1">
+            {review.outsidePeriod.length} extracted day(s) fall outside the period starting {gridStart}
+          </p>
+          <ul className="list-disc list-inside space-y-0.5 text-amber-700">
+            {review.outsidePeriod.map((d) => (
+              <li key={d.date}>
+                {d.dayOfWeek} {d.date}
+                {d.totalHours && ` — ${d.totalHours}h`}
+                {describeSegments(d.segments) && ` (${describeSegments(d.segments)})`}
+              </li>
+            ))}
+          </ul>
+          {!period.includeWeekends && review.outsidePeriod.some((d) => d.dayOfWeek === "SAT" || d.dayOfWeek === "SUN") && (
+            <p className="mt-1 text-amber-700">Weekends are turned off for pay periods in Settings.</p>
+          )}
+          {periodStart && gridStart && periodStart !== getPeriodStart(gridStart, period) && (
+            <button onClick={() => onSwitchPeriod(periodStart)} className="btn-secondary !py-1.5 mt-2">
+              Switch to the period starting {periodStart}
+            </button>
+          )}
+        </div>
+      )}
+
+      {review.days.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          The extraction has no new values for the days in this period.
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-gray-200">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-xs uppercase tracking-wide text-gray-500">
+              <tr>
+                <th className="px-3 py-2 text-left">Apply</th>
+                <th className="px-3 py-2 text-left">Day</th>
+                <th className="px-3 py-2 text-left">Field</th>
+                <th className="px-3 py-2 text-left">Current</th>
+                <th className="px-3 py-2 text-left">Extracted</th>
+                <th className="px-3 py-2 text-left">Confidence</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {review.days.flatMap((day) =>
+                day.changes.map((change, i) => (
+                  <tr key={`${day.date}-${change.field}`}>
+                    <td className="px-3 py-1.5">
+                      <input
+                        type="checkbox"
+                        checked={!!selection[day.date]?.[change.field]}
+                        onChange={(e) => toggle(day.date, change.field, e.target.checked)}
+                      />
+                    </td>
+                    <td className="px-3 py-1.5 text-gray-700">
+                      {i === 0 && (
+                        <>
+                          {day.dayOfWeek} <span className="text-xs text-gray-500">{day.date}</span>
+                        </>
+                      )}
+                    </td>
+                    <td className="px-3 py-1.5 text-gray-700">{REVIEW_FIELD_LABELS[change.field]}</td>
+                    <td className="px-3 py-1.5 text-gray-500">
+                      {change.current || <span className="italic text-gray-400">empty</span>}
+                    </td>
+                    <td className="px-3 py-1.5 font-medium text-gray-900">{change.extracted}</td>
+                    <td className={`px-3 py-1.5 ${confidenceBadge(change.confidence)}`}>
+                      {change.confidence != null ? `${Math.round(change.confidence * 100)}%` : "—"}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onDiscard} className="btn-secondary">
+          Discard
+        </button>
+        <button
+          onClick={() => onApply(review, selection)}
+          disabled={selectedCount === 0}
+          className="btn-primary"
+        >
+          Apply {selectedCount} value{selectedCount === 1 ? "" : "s"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,70 +1,139 @@
 "use client";
 
-import { useCallback, useState } from "react";
+import { useCallback, useRef, useState } from "react";
+import {
+  AIExtractionDay,
+  AIExtractionResult,
+  ExtractionCacheInfo,
+  ExtractionIssue,
+  ExtractionStage,
+} from "@/lib/types";
+import { streamExtraction } from "@/lib/api";
 
 interface FileUploadProps {
-  onExtracted: (data: unknown) => void;
-  employeeName: string;
+  onExtracted: (data: AIExtractionResult, cache: ExtractionCacheInfo | null) => void;
+  employeeEmail: string; // who the timesheet is for; the server checks it
   disabled?: boolean;
 }
 
-export default function FileUpload({ onExtracted, employeeName, disabled }: FileUploadProps) {
+const STAGES: { stage: ExtractionStage; label: string }[] = [
+  { stage: "received", label: "Upload received" },
+  { stage: "preparing", label: "Preparing documents" },
+  { stage: "calling", label: "Reading with AI" },
+  { stage: "validating", label: "Checking the result" },
+  { stage: "done", label: "Done" },
+];
+
+function dayLine(day: AIExtractionDay): string {
+  const times = day.work.startTime && day.work.endTime ? `${day.work.startTime}–${day.work.endTime}` : "";
+  const hours = day.work.totalHours != null ? `${day.work.totalHours}h` : "";
+  return [day.dayOfWeek, day.date, times, hours].filter(Boolean).join(" · ");
+}
+
+export default function FileUpload({ onExtracted, employeeEmail, disabled }: FileUploadProps) {
   const [dragging, setDragging] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [fileName, setFileName] = useState<string | null>(null);
-
-  const processFile = useCallback(
-    async (file: File) => {
-      if (!employeeName.trim()) {
-        setError("Please enter the employee name before uploading.");
-        return;
-      }
+  const [issues, setIssues] = useState<ExtractionIssue[]>([]);
+  const [fileNames, setFileNames] = useState<string[]>([]);
+  const [mode, setMode] = useState<"together" | "separate">("together");
+  const [force, setForce] = useState(false);
+  const [stage, setStage] = useState<{ stage: ExtractionStage; message: string } | null>(null);
+  const [repairing, setRepairing] = useState(false);
+  const [partialDays, setPartialDays] = useState<AIExtractionDay[]>([]);
+  const abort = useRef<AbortController | null>(null);
 
+  const processFiles = useCallback(
+    async (files: File[]) => {
       setError(null);
-      setFileName(file.name);
+      setIssues([]);
+      setFileNames(files.map((f) => f.name));
+      setStage(null);
+      setRepairing(false);
+      setPartialDays([]);
       setUploading(true);
+      const controller = new AbortController();
+      abort.current = controller;
 
       try {
         const formData = new FormData();
-        formData.append("file", file);
-        formData.append("employeeName", employeeName.trim());
-
-        const res = await fetch("/api/extract", {
-          method: "POST",
-          body: formData,
-        });
+        files.forEach((file) => formData.append("file", file));
+        formData.append("employeeEmail", employeeEmail);
+        formData.append("mode", mode);
+        if (force) formData.append("force", "true");
 
-        if (!res.ok) {
-          const data = await res.json();
-          throw new Error(data.error || "Extraction failed");
+        let lastStage = "starting";
+        for await (const event of streamExtraction(formData, controller.signal)) {
+          if (event.type === "stage") {
+            lastStage = event.message.charAt(0).toLowerCase() + event.message.slice(1);
+            if (event.stage === "repairing") setRepairing(true);
+            setStage(event);
+          } else if (event.type === "day") {
+            // A repaired answer or a second file can send the same date again
+            setPartialDays((prev) => [...prev.filter((d) => d.date !== event.day.date), event.day]);
+          } else if (event.type === "result") {
+            onExtracted(event.result, event.cache);
+            return;
+          } else {
+            if (event.issues) setIssues(event.issues);
+            throw new Error(event.error);
+          }
         }
-
-        const result = await res.json();
-        onExtracted(result);
+        throw new Error(`The connection closed while ${lastStage}; try again`);
       } catch (err) {
-        setError(err instanceof Error ? err.message : "Upload failed");
+        if (controller.signal.aborted) {
+          setError("Extraction cancelled.");
+        } else {
+          setError(err instanceof Error ? err.message : "Upload failed");
+        }
       } finally {
+        abort.current = null;
         setUploading(false);
       }
     },
-    [onExtracted, employeeName]
+    [onExtracted, employeeEmail, mode, force]
   );
 
   function handleDrop(e: React.DragEvent) {
     e.preventDefault();
     setDragging(false);
-    const file = e.dataTransfer.files[0];
-    if (file) processFile(file);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length && !uploading) processFiles(files);
   }
 
   function handleFileInput(e: React.ChangeEvent<HTMLInputElement>) {
-    const file = e.target.files?.[0];
-    if (file) processFile(file);
+    const files = Array.from(e.target.files ?? []);
+    if (files.length) processFiles(files);
+    e.target.value = "";
   }
 
   return (
     <div className="space-y-3">
+      <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+        <label className="flex items-center gap-1.5">
+          <input
+            type="radio"
+            name="extract-mode"
+            checked={mode === "together"}
+            onChange={() => setMode("together")}
+          />
+          Pages of one timesheet (extract together)
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="radio"
+            name="extract-mode"
+            checked={mode === "separate"}
+            onChange={() => setMode("separate")}
+          />
+          Separate documents (extract each, then merge)
+        </label>
+        <label className="flex items-center gap-1.5" title="Files read before are normally reused">
+          <input type="checkbox" checked={force} onChange={(e) => setForce(e.target.checked)} />
+          Re-extract even if already read
+        </label>
+      </div>
+
       <div
         onDragOver={(e) => {
           e.preventDefault();
@@ -76,28 +145,65 @@ export default function FileUpload({ onExtracted, employeeName, disabled }: File
           dragging
             ? "border-blue-400 bg-blue-50"
             : "border-gray-300 hover:border-gray-400"
-        } ${disabled || uploading ? "opacity-50 pointer-events-none" : ""}`}
+        } ${disabled ? "opacity-50 pointer-events-none" : ""}`}
       >
         {uploading ? (
-          <div className="space-y-2">
-            <div className="mx-auto h-8 w-8 animate-spin rounded-full border-4 border-blue-200 border-t-blue-600" />
-            <p className="text-sm text-gray-600">
-              Extracting data from <span className="font-medium">{fileName}</span>...
-            </p>
+          <div className="space-y-3 text-left">
+            <div className="flex items-center gap-3">
+              <div className="h-6 w-6 shrink-0 animate-spin rounded-full border-4 border-blue-200 border-t-blue-600" />
+              <p className="flex-1 text-sm text-gray-600">
+                {stage?.message ?? "Uploading"}{" "}
+                <span className="text-gray-400">
+                  ({fileNames.length === 1 ? fileNames[0] : `${fileNames.length} files`})
+                </span>
+              </p>
+              <button
+                onClick={() => abort.current?.abort()}
+                className="btn-secondary !py-1"
+              >
+                Cancel
+              </button>
+            </div>
+
+            <ol className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+              {STAGES.map((s, i) => {
+                const current = stage ? STAGES.findIndex((x) => x.stage === stage.stage) : -1;
+                // Repairs go back to the model, so they show against the AI step
+                const reached = stage?.stage === "repairing" ? i <= 2 : i <= current;
+                return (
+                  <li key={s.stage} className={reached ? "text-blue-700 font-medium" : "text-gray-400"}>
+                    {reached ? "✓" : "○"} {s.label}
+                    {s.stage === "calling" && repairing && " (retrying)"}
+                  </li>
+                );
+              })}
+            </ol>
+
+            {partialDays.length > 0 && (
+              <ul className="space-y-0.5 text-xs text-gray-700">
+                {[...partialDays]
+                  .sort((a, b) => a.date.localeCompare(b.date))
+                  .map((day) => (
+                    <li key={day.date}>{dayLine(day)}</li>
+                  ))}
+              </ul>
+            )}
           </div>
         ) : (
           <>
             <div className="text-4xl mb-3">📄</div>
             <p className="text-sm text-gray-600 mb-1">
-              Drag & drop a file here, or click to browse
+              Drag & drop files here, or click to browse
             </p>
             <p className="text-xs text-gray-400">
-              JPG, PNG, PDF, DOC, DOCX, TXT, XLS, XLSX, CSV — max 20MB
+              JPG, PNG, WEBP, PDF, DOCX, TXT, XLSX, CSV — up to 10 files, max 20MB each
             </p>
+            <p className="text-xs text-gray-400">Older .doc and .xls files need saving as .docx or .xlsx first</p>
             <input
               type="file"
+              multiple
               onChange={handleFileInput}
-              accept=".jpg,.jpeg,.png,.webp,.pdf,.doc,.docx,.txt,.xls,.xlsx,.csv"
+              accept=".jpg,.jpeg,.png,.webp,.pdf,.docx,.txt,.xlsx,.csv"
               className="absolute inset-0 cursor-pointer opacity-0"
             />
           </>
@@ -107,6 +213,15 @@ export default function FileUpload({ onExtracted, employeeName, disabled }: File
       {error && (
         <div className="rounded-lg bg-red-50 border border-red-200 px-4 py-3 text-sm text-red-700">
           {error}
+          {issues.length > 0 && (
+            <ul className="mt-2 list-disc list-inside space-y-0.5 text-xs">
+              {issues.map((issue, i) => (
+                <li key={i}>
+                  <span className="font-mono">{issue.path}</span>: {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,108 @@
+"use client";
+
+import { Job, JobTracking } from "@/lib/types";
+
+interface JobsFormProps {
+  jobs: Job[];
+  tracking: JobTracking;
+  onChange: (jobs: Job[], tracking: JobTracking) => void;
+}
+
+export default function JobsForm({ jobs, tracking, onChange }: JobsFormProps) {
+  function updateJob(index: number, patch: Partial<Job>) {
+    const updated = [...jobs];
+    updated[index] = { ...updated[index], ...patch };
+    onChange(updated, tracking);
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-500">
+        Jobs employees can book their hours to. Inactive jobs stay on old timesheets but can&apos;t be
+        picked for new ones.
+      </p>
+
+      {jobs.length > 0 && (
+        <div className="space-y-2">
+          <div className="hidden sm:grid sm:grid-cols-[120px_1fr_1fr_70px_60px] gap-2 text-xs font-medium text-gray-500 uppercase tracking-wide">
+            <div>Cost code</div>
+            <div>Client</div>
+            <div>Project</div>
+            <div>Active</div>
+            <div />
+          </div>
+          {jobs.map((job, i) => (
+            <div key={i} className="grid gap-2 sm:grid-cols-[120px_1fr_1fr_70px_60px] items-center">
+              <input
+                type="text"
+                placeholder="Code"
+                value={job.code}
+                onChange={(e) => updateJob(i, { code: e.target.value })}
+                className="input-field"
+              />
+              <input
+                type="text"
+                placeholder="Client"
+                value={job.client}
+                onChange={(e) => updateJob(i, { client: e.target.value })}
+                className="input-field"
+              />
+              <input
+                type="text"
+                placeholder="Project"
+                value={job.project}
+                onChange={(e) => updateJob(i, { project: e.target.value })}
+                className="input-field"
+              />
+              <input
+                type="checkbox"
+                checked={job.active}
+                onChange={(e) => updateJob(i, { active: e.target.checked })}
+              />
+              <button
+                onClick={() => onChange(jobs.filter((_, j) => j !== i), tracking)}
+                className="text-sm text-red-600 hover:underline text-left"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <button
+        onClick={() => onChange([...jobs, { code: "", client: "", project: "", active: true }], tracking)}
+        className="btn-secondary !py-1.5"
+      >
+        Add job
+      </button>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-1">Xero tracking categories</h3>
+        <p className="text-xs text-gray-500 mb-2">
+          Exported rows carry the job&apos;s client and project under these categories. Leave one blank to
+          leave it out.
+        </p>
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Client category</label>
+            <input
+              type="text"
+              value={tracking.clientCategory}
+              onChange={(e) => onChange(jobs, { ...tracking, clientCategory: e.target.value })}
+              className="input-field"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Project category</label>
+            <input
+              type="text"
+              value={tracking.projectCategory}
+              onChange={(e) => onChange(jobs, { ...tracking, projectCategory: e.target.value })}
+              className="input-field"
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
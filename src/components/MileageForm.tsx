@@ -0,0 +1,106 @@
+"use client";
+
+import { MileageSettings, MileageTier } from "@/lib/types";
+
+interface MileageFormProps {
+  value: MileageSettings;
+  onChange: (mileage: MileageSettings) => void;
+}
+
+export default function MileageForm({ value, onChange }: MileageFormProps) {
+  function update(patch: Partial<MileageSettings>) {
+    onChange({ ...value, ...patch });
+  }
+
+  function updateTier(index: number, patch: Partial<MileageTier>) {
+    const tiers = [...value.tiers];
+    tiers[index] = { ...tiers[index], ...patch };
+    update({ tiers });
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-500">
+        Dollars paid per kilometre, by how far the employee has claimed so far this year. Kilometres past the last
+        capped tier aren&apos;t paid unless a tier has no cap.
+      </p>
+
+      {value.tiers.length > 0 && (
+        <div className="space-y-2">
+          <div className="hidden sm:grid sm:grid-cols-[160px_160px_60px] gap-2 text-xs font-medium text-gray-500 uppercase tracking-wide">
+            <div>Up to km a year</div>
+            <div>$ per km</div>
+            <div />
+          </div>
+          {value.tiers.map((tier, i) => (
+            <div key={i} className="grid gap-2 sm:grid-cols-[160px_160px_60px] items-center">
+              <input
+                type="number"
+                min="1"
+                placeholder="No cap"
+                value={tier.upToKm ?? ""}
+                onChange={(e) => updateTier(i, { upToKm: e.target.value ? Number(e.target.value) : null })}
+                className="input-field"
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={tier.ratePerKm}
+                onChange={(e) => updateTier(i, { ratePerKm: Number(e.target.value) })}
+                className="input-field"
+              />
+              <button
+                onClick={() => update({ tiers: value.tiers.filter((_, j) => j !== i) })}
+                className="text-sm text-red-600 hover:underline text-left"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <button
+        onClick={() => update({ tiers: [...value.tiers, { upToKm: null, ratePerKm: 0 }] })}
+        className="btn-secondary !py-1.5"
+      >
+        Add tier
+      </button>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Claim year starts (MM-DD)</label>
+          <input
+            type="text"
+            placeholder="07-01"
+            value={value.yearStart}
+            onChange={(e) => update({ yearStart: e.target.value })}
+            className="input-field"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Pay as</label>
+          <select
+            value={value.payAs}
+            onChange={(e) => update({ payAs: e.target.value as MileageSettings["payAs"] })}
+            className="input-field"
+          >
+            <option value="earnings">Earnings line in the timesheet export</option>
+            <option value="reimbursement">Separate reimbursement export</option>
+          </select>
+        </div>
+        {value.payAs === "reimbursement" && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Xero reimbursement type</label>
+            <input
+              type="text"
+              value={value.reimbursementType}
+              onChange={(e) => update({ reimbursementType: e.target.value })}
+              className="input-field"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
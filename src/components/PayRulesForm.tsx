@@ -0,0 +1,190 @@
+"use client";
+
+import { PayRules } from "@/lib/types";
+
+interface PayRulesFormProps {
+  value: PayRules;
+  onChange: (rules: PayRules) => void;
+}
+
+export default function PayRulesForm({ value, onChange }: PayRulesFormProps) {
+  function update(patch: Partial<PayRules>) {
+    onChange({ ...value, ...patch });
+  }
+
+  function updateTier(index: number, patch: Partial<PayRules["dailyOvertime"][number]>) {
+    const tiers = [...value.dailyOvertime];
+    tiers[index] = { ...tiers[index], ...patch };
+    update({ dailyOvertime: tiers });
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-500">
+        Rate names must match the earnings rates in Xero exactly. Leave a rate off to pay those
+        hours as ordinary time.
+      </p>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Ordinary rate</label>
+          <input
+            type="text"
+            value={value.ordinaryRate}
+            onChange={(e) => update({ ordinaryRate: e.target.value })}
+            className="input-field"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Saturday rate</label>
+          <input
+            type="text"
+            placeholder="Ordinary"
+            value={value.saturdayRate ?? ""}
+            onChange={(e) => update({ saturdayRate: e.target.value || null })}
+            className="input-field"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Sunday rate</label>
+          <input
+            type="text"
+            placeholder="Ordinary"
+            value={value.sundayRate ?? ""}
+            onChange={(e) => update({ sundayRate: e.target.value || null })}
+            className="input-field"
+          />
+        </div>
+      </div>
+
+      {/* Daily overtime tiers */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-2">Daily overtime</h3>
+        <div className="space-y-2">
+          {value.dailyOvertime.map((tier, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+              <span>After</span>
+              <input
+                type="number"
+                min="0"
+                max="24"
+                step="0.25"
+                value={tier.afterHours}
+                onChange={(e) => updateTier(i, { afterHours: parseFloat(e.target.value) || 0 })}
+                className="input-field !w-20"
+              />
+              <span>hours in a day, pay</span>
+              <input
+                type="text"
+                value={tier.rate}
+                onChange={(e) => updateTier(i, { rate: e.target.value })}
+                className="input-field !w-56"
+              />
+              <button
+                onClick={() => update({ dailyOvertime: value.dailyOvertime.filter((_, j) => j !== i) })}
+                className="text-red-600 hover:underline"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() =>
+              update({
+                dailyOvertime: [
+                  ...value.dailyOvertime,
+                  { afterHours: value.dailyOvertime.length ? 10 : 8, rate: "Overtime Hours" },
+                ],
+              })
+            }
+            className="btn-secondary !py-1.5"
+          >
+            Add tier
+          </button>
+        </div>
+      </div>
+
+      {/* Weekly overtime */}
+      <div>
+        <label className="flex items-center gap-2 text-sm font-semibold text-gray-900 mb-2">
+          <input
+            type="checkbox"
+            checked={!!value.weeklyOvertime}
+            onChange={(e) =>
+              update({
+                weeklyOvertime: e.target.checked ? { afterHours: 38, rate: "Overtime Hours" } : null,
+              })
+            }
+          />
+          Weekly overtime
+        </label>
+        {value.weeklyOvertime && (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <span>Ordinary hours past</span>
+            <input
+              type="number"
+              min="0"
+              max="168"
+              step="0.5"
+              value={value.weeklyOvertime.afterHours}
+              onChange={(e) =>
+                update({
+                  weeklyOvertime: { ...value.weeklyOvertime!, afterHours: parseFloat(e.target.value) || 0 },
+                })
+              }
+              className="input-field !w-20"
+            />
+            <span>in a week are paid as</span>
+            <input
+              type="text"
+              value={value.weeklyOvertime.rate}
+              onChange={(e) => update({ weeklyOvertime: { ...value.weeklyOvertime!, rate: e.target.value } })}
+              className="input-field !w-56"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Night loading */}
+      <div>
+        <label className="flex items-center gap-2 text-sm font-semibold text-gray-900 mb-2">
+          <input
+            type="checkbox"
+            checked={!!value.nightLoading}
+            onChange={(e) =>
+              update({
+                nightLoading: e.target.checked ? { start: "22:00", end: "06:00", rate: "Night Shift" } : null,
+              })
+            }
+          />
+          Night loading
+        </label>
+        {value.nightLoading && (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <span>Ordinary hours between</span>
+            <input
+              type="time"
+              value={value.nightLoading.start}
+              onChange={(e) => update({ nightLoading: { ...value.nightLoading!, start: e.target.value } })}
+              className="input-field !w-28"
+            />
+            <span>and</span>
+            <input
+              type="time"
+              value={value.nightLoading.end}
+              onChange={(e) => update({ nightLoading: { ...value.nightLoading!, end: e.target.value } })}
+              className="input-field !w-28"
+            />
+            <span>are paid as</span>
+            <input
+              type="text"
+              value={value.nightLoading.rate}
+              onChange={(e) => update({ nightLoading: { ...value.nightLoading!, rate: e.target.value } })}
+              className="input-field !w-56"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { PERIOD_LENGTH_LABELS } from "@/lib/settings";
+import { DayOfWeek, PeriodLength, PeriodSettings } from "@/lib/types";
+
+interface PeriodFormProps {
+  value: PeriodSettings;
+  onChange: (period: PeriodSettings) => void;
+}
+
+const WEEKDAYS: { value: DayOfWeek; label: string }[] = [
+  { value: "MON", label: "Monday" },
+  { value: "TUE", label: "Tuesday" },
+  { value: "WED", label: "Wednesday" },
+  { value: "THU", label: "Thursday" },
+  { value: "FRI", label: "Friday" },
+  { value: "SAT", label: "Saturday" },
+  { value: "SUN", label: "Sunday" },
+];
+
+export default function PeriodForm({ value, onChange }: PeriodFormProps) {
+  function update(patch: Partial<PeriodSettings>) {
+    onChange({ ...value, ...patch });
+  }
+
+  const weekBased = value.length === "weekly" || value.length === "fortnightly";
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Pay period</label>
+          <select
+            value={value.length}
+            onChange={(e) => update({ length: e.target.value as PeriodLength })}
+            className="input-field"
+          >
+            {Object.entries(PERIOD_LENGTH_LABELS).map(([length, label]) => (
+              <option key={length} value={length}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {weekBased && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Starts on</label>
+            <select
+              value={value.startDay}
+              onChange={(e) => update({ startDay: e.target.value as DayOfWeek })}
+              className="input-field"
+            >
+              {WEEKDAYS.map((d) => (
+                <option key={d.value} value={d.value}>
+                  {d.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        {value.length === "fortnightly" && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              A fortnight started on
+            </label>
+            <input
+              type="date"
+              value={value.anchorDate}
+              onChange={(e) => e.target.value && update({ anchorDate: e.target.value })}
+              className="input-field"
+            />
+          </div>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={value.includeWeekends}
+          onChange={(e) => update({ includeWeekends: e.target.checked })}
+        />
+        Include Saturdays and Sundays in the timesheet
+      </label>
+    </div>
+  );
+}
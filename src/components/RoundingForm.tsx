@@ -0,0 +1,74 @@
+"use client";
+
+import { ROUNDING_METHOD_LABELS } from "@/lib/settings";
+import { RoundingMethod, RoundingPolicy } from "@/lib/types";
+
+interface RoundingFormProps {
+  value: RoundingPolicy;
+  onChange: (rounding: RoundingPolicy) => void;
+}
+
+const INCREMENTS = [
+  { value: 0, label: "Don't round" },
+  { value: 6, label: "6 minutes (0.1 h)" },
+  { value: 15, label: "15 minutes" },
+];
+
+export default function RoundingForm({ value, onChange }: RoundingFormProps) {
+  function update(patch: Partial<RoundingPolicy>) {
+    onChange({ ...value, ...patch });
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Round to</label>
+          <select
+            value={value.increment}
+            onChange={(e) => update({ increment: Number(e.target.value) })}
+            className="input-field"
+          >
+            {INCREMENTS.map((i) => (
+              <option key={i.value} value={i.value}>
+                {i.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {value.increment > 0 && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">How</label>
+              <select
+                value={value.method}
+                onChange={(e) => update({ method: e.target.value as RoundingMethod })}
+                className="input-field"
+              >
+                {Object.entries(ROUNDING_METHOD_LABELS).map(([method, label]) => (
+                  <option key={method} value={method}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Applies to</label>
+              <select
+                value={value.scope}
+                onChange={(e) => update({ scope: e.target.value as RoundingPolicy["scope"] })}
+                className="input-field"
+              >
+                <option value="segment">Each segment</option>
+                <option value="day">The whole day</option>
+              </select>
+            </div>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        Applies to hours worked out from start and end times. Hours typed into a day are paid as entered.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { RuleViolation } from "@/lib/types";
+
+interface RuleSummaryProps {
+  violations: RuleViolation[];
+}
+
+export default function RuleSummary({ violations }: RuleSummaryProps) {
+  if (violations.length === 0) return null;
+
+  const errors = violations.filter((v) => v.severity === "error");
+  const warnings = violations.filter((v) => v.severity === "warning");
+
+  return (
+    <div
+      className={`rounded-lg border px-4 py-3 text-sm ${
+        errors.length ? "bg-red-50 border-red-200" : "bg-amber-50 border-amber-200"
+      }`}
+    >
+      <p className={`font-medium mb-1 ${errors.length ? "text-red-800" : "text-amber-800"}`}>
+        {errors.length > 0 && `${errors.length} error${errors.length === 1 ? "" : "s"}`}
+        {errors.length > 0 && warnings.length > 0 && ", "}
+        {warnings.length > 0 && `${warnings.length} warning${warnings.length === 1 ? "" : "s"}`}
+        {errors.length > 0 && " — fix the errors before exporting to Xero"}
+      </p>
+      <ul className="space-y-0.5">
+        {[...errors, ...warnings].map((v, i) => (
+          <li key={i} className={v.severity === "error" ? "text-red-700" : "text-amber-700"}>
+            <span className="font-medium">{v.date}</span> {v.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
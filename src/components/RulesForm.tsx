@@ -0,0 +1,73 @@
+"use client";
+
+import { RULE_DEFINITIONS } from "@/lib/rules";
+import { RuleSeverity, RuleSetting, TimesheetRules } from "@/lib/types";
+
+interface RulesFormProps {
+  value: TimesheetRules;
+  onChange: (rules: TimesheetRules) => void;
+}
+
+const SEVERITIES: { value: RuleSeverity; label: string }[] = [
+  { value: "error", label: "Error — blocks export" },
+  { value: "warning", label: "Warning" },
+  { value: "off", label: "Off" },
+];
+
+export default function RulesForm({ value, onChange }: RulesFormProps) {
+  function update(id: keyof TimesheetRules, patch: Partial<RuleSetting> & { breakMinutes?: number }) {
+    onChange({ ...value, [id]: { ...value[id], ...patch } });
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-500">
+        Checked as people fill in their timesheets and again before export.
+      </p>
+      {RULE_DEFINITIONS.map((rule) => (
+        <div key={rule.id} className="grid gap-2 sm:grid-cols-[220px_200px_1fr] sm:items-center text-sm">
+          <span className="font-medium text-gray-900">{rule.label}</span>
+          <select
+            value={value[rule.id].severity}
+            onChange={(e) => update(rule.id, { severity: e.target.value as RuleSeverity })}
+            className="input-field"
+          >
+            {SEVERITIES.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+          {rule.limitLabel && (
+            <div className="flex flex-wrap items-center gap-2 text-gray-600">
+              <span>{rule.limitLabel}</span>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={value[rule.id].limit}
+                onChange={(e) => update(rule.id, { limit: parseFloat(e.target.value) || 0 })}
+                disabled={value[rule.id].severity === "off"}
+                className="input-field !w-20"
+              />
+              {rule.id === "breakRequired" && (
+                <>
+                  <span>need a break of (min)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="5"
+                    value={value.breakRequired.breakMinutes}
+                    onChange={(e) => update("breakRequired", { breakMinutes: parseFloat(e.target.value) || 0 })}
+                    disabled={value.breakRequired.severity === "off"}
+                    className="input-field !w-20"
+                  />
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { SignOffSettings } from "@/lib/types";
+
+interface SignOffFormProps {
+  value: SignOffSettings;
+  onChange: (signOff: SignOffSettings) => void;
+}
+
+const OPTIONS: { key: keyof SignOffSettings; label: string }[] = [
+  { key: "supervisor", label: "Supervisor's name" },
+  { key: "signature", label: "Supervisor's signature" },
+  { key: "approver", label: "Approver's name and date" },
+];
+
+export default function SignOffForm({ value, onChange }: SignOffFormProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-500">Timesheets can&apos;t be submitted without the ticked details.</p>
+      {OPTIONS.map((option) => (
+        <label key={option.key} className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={value[option.key]}
+            onChange={(e) => onChange({ ...value, [option.key]: e.target.checked })}
+          />
+          {option.label}
+        </label>
+      ))}
+    </div>
+  );
+}
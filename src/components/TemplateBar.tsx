@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { ScheduleTemplate } from "@/lib/types";
+
+interface TemplateBarProps {
+  templates: ScheduleTemplate[];
+  canSave: boolean; // there are hours to save
+  onApply: (template: ScheduleTemplate) => void;
+  onCopyLast: () => Promise<string>; // resolves to a message for the user
+  onSave: (name: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+export default function TemplateBar({ templates, canSave, onApply, onCopyLast, onSave, onDelete }: TemplateBarProps) {
+  const [selected, setSelected] = useState("");
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const template = templates.find((t) => t.id === selected);
+
+  async function run(task: () => Promise<string>) {
+    setBusy(true);
+    setMessage(null);
+    try {
+      setMessage({ ok: true, text: await task() });
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message : "Request failed" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleApply() {
+    if (!template) return;
+    onApply(template);
+    setMessage({ ok: true, text: `Filled blank cells from ${template.name}` });
+  }
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select value={selected} onChange={(e) => setSelected(e.target.value)} className="input-field !w-56">
+          <option value="">{templates.length ? "Choose a template" : "No saved templates"}</option>
+          {templates.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleApply}
+          disabled={!template || busy}
+          className="btn-secondary !py-1.5"
+        >
+          Apply
+        </button>
+        {template && (
+          <button
+            onClick={() =>
+              confirm(`Delete the template ${template.name}?`) &&
+              run(async () => {
+                await onDelete(template.id);
+                setSelected("");
+                return `Deleted ${template.name}`;
+              })
+            }
+            disabled={busy}
+            className="text-red-600 hover:underline"
+          >
+            Delete
+          </button>
+        )}
+        <span className="text-gray-300">|</span>
+        <button onClick={() => run(onCopyLast)} disabled={busy} className="btn-secondary !py-1.5">
+          Copy last period
+        </button>
+        {naming ? (
+          <>
+            <input
+              type="text"
+              autoFocus
+              placeholder="Standard Mon–Fri"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="input-field !w-48"
+            />
+            <button
+              onClick={() =>
+                run(async () => {
+                  await onSave(name.trim());
+                  setNaming(false);
+                  setName("");
+                  return `Saved ${name.trim()}`;
+                })
+              }
+              disabled={!name.trim() || busy}
+              className="btn-secondary !py-1.5"
+            >
+              Save
+            </button>
+            <button onClick={() => setNaming(false)} className="text-gray-500 hover:underline">
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setNaming(true)}
+            disabled={!canSave}
+            className="text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+            title={canSave ? "Save these hours as a template" : "Enter some hours first"}
+          >
+            Save as template
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        Templates and copied periods only fill blank cells; anything already entered is kept.
+      </p>
+      {message && <p className={`text-xs ${message.ok ? "text-emerald-600" : "text-red-600"}`}>{message.text}</p>}
+    </div>
+  );
+}
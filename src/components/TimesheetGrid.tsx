@@ -1,6 +1,20 @@
 "use client";
 
-import { DayEntry } from "@/lib/types";
+import {
+  DayEntry,
+  Job,
+  JobAllocation,
+  RoundingPolicy,
+  RuleViolation,
+  TrackedField,
+  Trip,
+  WorkSegment,
+} from "@/lib/types";
+import { calculatedHours, emptySegment, isOvernight } from "@/lib/hours";
+import { findJob, jobLabel } from "@/lib/jobs";
+import { fieldSeverity } from "@/lib/rules";
+import { editedExtraction } from "@/lib/provenance";
+import { dayKilometers, emptyTrip } from "@/lib/mileage";
 
 const DAY_LABELS: Record<string, string> = {
   MON: "Monday",
@@ -16,20 +30,109 @@ interface TimesheetGridProps {
   days: DayEntry[];
   onChange: (days: DayEntry[]) => void;
   confidences?: Record<string, Record<string, number | null>>; // date -> field -> confidence
+  jobs?: Job[];
+  rounding?: RoundingPolicy;
+  violations?: RuleViolation[];
+  readOnly?: boolean;
 }
 
 export default function TimesheetGrid({
   days,
   onChange,
   confidences,
+  jobs = [],
+  rounding,
+  violations = [],
+  readOnly,
 }: TimesheetGridProps) {
-  function updateDay(index: number, field: keyof DayEntry, value: string) {
+  const activeJobs = jobs.filter((j) => j.active);
+
+  function updateDay(index: number, field: Exclude<keyof DayEntry, "segments">, value: string) {
     const updated = [...days];
     updated[index] = { ...updated[index], [field]: value };
     onChange(updated);
   }
 
-  function getConfidenceColor(date: string, field: string): string {
+  function updateSegments(index: number, segments: WorkSegment[]) {
+    const updated = [...days];
+    updated[index] = { ...updated[index], segments };
+    onChange(updated);
+  }
+
+  function updateSegment(index: number, segIndex: number, field: keyof WorkSegment, value: string) {
+    const segments = [...days[index].segments];
+    segments[segIndex] = { ...segments[segIndex], [field]: value };
+    updateSegments(index, segments);
+  }
+
+  function updateAllocations(index: number, allocations: JobAllocation[]) {
+    const updated = [...days];
+    updated[index] = { ...updated[index], allocations };
+    onChange(updated);
+  }
+
+  function updateAllocation(index: number, allocIndex: number, patch: Partial<JobAllocation>) {
+    const allocations = [...days[index].allocations];
+    allocations[allocIndex] = { ...allocations[allocIndex], ...patch };
+    updateAllocations(index, allocations);
+  }
+
+  function updateTrips(index: number, trips: Trip[]) {
+    const updated = [...days];
+    updated[index] = { ...updated[index], trips };
+    onChange(updated);
+  }
+
+  function updateTrip(index: number, tripIndex: number, field: keyof Trip, value: string) {
+    const trips = [...days[index].trips];
+    trips[tripIndex] = { ...trips[tripIndex], [field]: value };
+    updateTrips(index, trips);
+  }
+
+  // Once trips have distances their sum is the day's km
+  function tripsSetKm(day: DayEntry): boolean {
+    return day.trips.some((t) => parseFloat(t.kilometers) > 0);
+  }
+
+  // Shown in an empty Hours box so the day's total is visible before anyone types one
+  function derivedHours(day: DayEntry): string {
+    const hours = calculatedHours(day, rounding);
+    return hours ? String(Number(hours.toFixed(2))) : "0";
+  }
+
+  // Marks AI values that were changed by hand, with what the AI read on hover,
+  // and values filled from a template or copied period that nobody has changed
+  function sourceMark(day: DayEntry, field: TrackedField) {
+    const edited = editedExtraction(day, field);
+    if (edited?.original) {
+      return (
+        <span className="block mt-0.5 text-[11px] text-violet-600" title={`AI read: ${edited.original.value || "(blank)"}`}>
+          ✎ Edited
+        </span>
+      );
+    }
+    const source = day.provenance[field]?.source;
+    if (source === "import") {
+      return (
+        <span className="block mt-0.5 text-[11px] text-gray-500" title="Read from an emailed timesheet">
+          From email
+        </span>
+      );
+    }
+    if (source !== "template") return null;
+    return (
+      <span className="block mt-0.5 text-[11px] text-gray-500" title="Filled from a template or the last period">
+        From template
+      </span>
+    );
+  }
+
+  // Rule problems take over from the AI confidence colouring
+  function getFieldColor(date: string, field: string, ruleField = field): string {
+    const severity = fieldSeverity(violations, date, ruleField);
+    if (severity === "error") return "ring-2 ring-red-500 bg-red-50";
+    if (severity === "warning") return "ring-2 ring-amber-400 bg-amber-50";
+
     const c = confidences?.[date]?.[field];
     if (c == null) return "";
     if (c >= 0.8) return "ring-2 ring-emerald-300 bg-emerald-50";
@@ -40,12 +143,14 @@ export default function TimesheetGrid({
   return (
     <div className="space-y-3">
       {/* Header row - desktop */}
-      <div className="hidden lg:grid lg:grid-cols-[140px_90px_90px_80px_80px_80px_1fr] gap-2 text-xs font-medium text-gray-500 uppercase tracking-wide px-1">
+      <div className="hidden lg:grid lg:grid-cols-[140px_320px_80px_80px_1fr] gap-2 text-xs font-medium text-gray-500 uppercase tracking-wide px-1">
         <div>Day</div>
-        <div>Start</div>
-        <div>End</div>
+        <div className="grid grid-cols-[100px_100px_80px_1fr] gap-2">
+          <div>Start</div>
+          <div>End</div>
+          <div>Break (min)</div>
+        </div>
         <div>Hours</div>
-        <div>Break (min)</div>
         <div>Km</div>
         <div>Notes</div>
       </div>
@@ -53,7 +158,7 @@ export default function TimesheetGrid({
       {days.map((day, i) => (
         <div
           key={day.date}
-          className="card !p-4 grid gap-3 lg:grid-cols-[140px_90px_90px_80px_80px_80px_1fr] lg:items-center"
+          className="card !p-4 grid gap-3 lg:grid-cols-[140px_320px_80px_80px_1fr] lg:items-start"
         >
           {/* Day label */}
           <div>
@@ -63,26 +168,67 @@ export default function TimesheetGrid({
             <div className="text-xs text-gray-500">{day.date}</div>
           </div>
 
-          {/* Start time */}
-          <div>
-            <label className="lg:hidden text-xs text-gray-500 mb-0.5 block">Start</label>
-            <input
-              type="time"
-              value={day.startTime}
-              onChange={(e) => updateDay(i, "startTime", e.target.value)}
-              className={`input-field text-sm ${getConfidenceColor(day.date, "startTime")}`}
-            />
-          </div>
-
-          {/* End time */}
-          <div>
-            <label className="lg:hidden text-xs text-gray-500 mb-0.5 block">End</label>
-            <input
-              type="time"
-              value={day.endTime}
-              onChange={(e) => updateDay(i, "endTime", e.target.value)}
-              className={`input-field text-sm ${getConfidenceColor(day.date, "endTime")}`}
-            />
+          {/* Segments: start, end and break for each stretch of work */}
+          <div className="space-y-2">
+            {day.segments.map((segment, s) => (
+              <div key={s} className="grid grid-cols-[100px_100px_80px_1fr] gap-2 items-center">
+                <div>
+                  <label className="lg:hidden text-xs text-gray-500 mb-0.5 block">Start</label>
+                  <input
+                    type="time"
+                    value={segment.startTime}
+                    onChange={(e) => updateSegment(i, s, "startTime", e.target.value)}
+                    disabled={readOnly}
+                    className={`input-field text-sm ${getFieldColor(day.date, "segments", `segments.${s}.startTime`)}`}
+                  />
+                </div>
+                <div>
+                  <label className="lg:hidden text-xs text-gray-500 mb-0.5 block">End</label>
+                  <input
+                    type="time"
+                    value={segment.endTime}
+                    onChange={(e) => updateSegment(i, s, "endTime", e.target.value)}
+                    disabled={readOnly}
+                    title={isOvernight(segment) ? "Ends the next day" : undefined}
+                    className={`input-field text-sm ${getFieldColor(day.date, "segments", `segments.${s}.endTime`)}`}
+                  />
+                </div>
+                <div>
+                  <label className="lg:hidden text-xs text-gray-500 mb-0.5 block">Break (min)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="240"
+                    placeholder="0"
+                    value={segment.breakMinutes}
+                    onChange={(e) => updateSegment(i, s, "breakMinutes", e.target.value)}
+                    disabled={readOnly}
+                    className={`input-field text-sm ${getFieldColor(day.date, "segments", `segments.${s}.breakMinutes`)}`}
+                  />
+                </div>
+                <div className="flex items-center gap-2 text-xs self-end lg:self-center">
+                  {isOvernight(segment) && <span className="text-indigo-600">+1 day</span>}
+                  {!readOnly && day.segments.length > 1 && (
+                    <button
+                      onClick={() => updateSegments(i, day.segments.filter((_, j) => j !== s))}
+                      className="text-gray-400 hover:text-red-600"
+                      aria-label="Remove segment"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+            {!readOnly && (
+              <button
+                onClick={() => updateSegments(i, [...day.segments, emptySegment()])}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                + Add segment
+              </button>
+            )}
+            {sourceMark(day, "segments")}
           </div>
 
           {/* Total hours */}
@@ -93,25 +239,14 @@ export default function TimesheetGrid({
               step="0.25"
               min="0"
               max="24"
-              placeholder="0"
+              placeholder={derivedHours(day)}
+              title={day.totalHours ? undefined : "Worked out from the times"}
               value={day.totalHours}
               onChange={(e) => updateDay(i, "totalHours", e.target.value)}
-              className={`input-field text-sm ${getConfidenceColor(day.date, "totalHours")}`}
-            />
-          </div>
-
-          {/* Break */}
-          <div>
-            <label className="lg:hidden text-xs text-gray-500 mb-0.5 block">Break (min)</label>
-            <input
-              type="number"
-              min="0"
-              max="240"
-              placeholder="0"
-              value={day.breakMinutes}
-              onChange={(e) => updateDay(i, "breakMinutes", e.target.value)}
-              className={`input-field text-sm ${getConfidenceColor(day.date, "breakMinutes")}`}
+              disabled={readOnly}
+              className={`input-field text-sm ${getFieldColor(day.date, "totalHours")}`}
             />
+            {sourceMark(day, "totalHours")}
           </div>
 
           {/* Km */}
@@ -122,10 +257,13 @@ export default function TimesheetGrid({
               min="0"
               max="2000"
               placeholder="0"
-              value={day.kilometers}
+              value={tripsSetKm(day) ? String(dayKilometers(day)) : day.kilometers}
               onChange={(e) => updateDay(i, "kilometers", e.target.value)}
-              className={`input-field text-sm ${getConfidenceColor(day.date, "kilometers")}`}
+              disabled={readOnly || tripsSetKm(day)}
+              title={tripsSetKm(day) ? "Added up from the trips" : undefined}
+              className={`input-field text-sm ${getFieldColor(day.date, "kilometers")}`}
             />
+            {sourceMark(day, "kilometers")}
           </div>
 
           {/* Notes */}
@@ -136,9 +274,139 @@ export default function TimesheetGrid({
               placeholder="Optional notes"
               value={day.notes}
               onChange={(e) => updateDay(i, "notes", e.target.value)}
-              className={`input-field text-sm ${getConfidenceColor(day.date, "notes")}`}
+              disabled={readOnly}
+              className={`input-field text-sm ${getFieldColor(day.date, "notes")}`}
             />
+            {sourceMark(day, "notes")}
           </div>
+
+          {/* Rule problems for the day */}
+          {violations.some((v) => v.date === day.date) && (
+            <ul className="lg:col-span-5 space-y-0.5 text-xs">
+              {violations
+                .filter((v) => v.date === day.date)
+                .map((v, n) => (
+                  <li key={n} className={v.severity === "error" ? "text-red-600" : "text-amber-700"}>
+                    {v.severity === "error" ? "Error" : "Warning"}: {v.message}
+                  </li>
+                ))}
+            </ul>
+          )}
+
+          {/* Jobs the day's hours are booked to */}
+          {(jobs.length > 0 || day.allocations.length > 0) && (
+            <div className="lg:col-span-5 flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">Jobs</span>
+              {day.allocations.map((allocation, a) => {
+                const job = findJob(jobs, allocation.jobCode);
+                return (
+                  <div key={a} className="flex items-center gap-1">
+                    <select
+                      value={allocation.jobCode}
+                      onChange={(e) => updateAllocation(i, a, { jobCode: e.target.value })}
+                      disabled={readOnly}
+                      className={`input-field text-sm !w-56 ${getFieldColor(day.date, "allocations")}`}
+                    >
+                      <option value="">Choose a job</option>
+                      {/* Keep a retired or unknown job selectable on the rows that already use it */}
+                      {allocation.jobCode && !job?.active && (
+                        <option value={allocation.jobCode}>{job ? jobLabel(job) : allocation.jobCode}</option>
+                      )}
+                      {activeJobs.map((j) => (
+                        <option key={j.code} value={j.code}>
+                          {jobLabel(j)}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      step="0.25"
+                      min="0"
+                      max="24"
+                      placeholder={day.allocations.length > 1 ? "Rest" : "All"}
+                      value={allocation.hours}
+                      onChange={(e) => updateAllocation(i, a, { hours: e.target.value })}
+                      disabled={readOnly}
+                      className="input-field text-sm !w-20"
+                      aria-label="Hours on this job"
+                    />
+                    {!readOnly && (
+                      <button
+                        onClick={() => updateAllocations(i, day.allocations.filter((_, j) => j !== a))}
+                        className="text-gray-400 hover:text-red-600"
+                        aria-label="Remove job"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+              {!readOnly && activeJobs.length > 0 && (
+                <button
+                  onClick={() => updateAllocations(i, [...day.allocations, { jobCode: "", hours: "" }])}
+                  className="text-xs text-blue-600 hover:underline"
+                >
+                  + Add job
+                </button>
+              )}
+              {sourceMark(day, "allocations")}
+            </div>
+          )}
+
+          {/* Trips driven for the day's km claim */}
+          {(day.trips.length > 0 || !readOnly) && (
+            <div className="lg:col-span-5 space-y-2 text-sm">
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">Trips</span>
+                {sourceMark(day, "trips")}
+              </div>
+              {day.trips.map((trip, t) => (
+                <div key={t} className="grid grid-cols-2 lg:grid-cols-[1fr_1fr_1fr_140px_80px_auto] gap-2 items-center">
+                  {(["from", "to", "purpose", "vehicle"] as const).map((field) => (
+                    <input
+                      key={field}
+                      type="text"
+                      placeholder={{ from: "From", to: "To", purpose: "Purpose", vehicle: "Vehicle" }[field]}
+                      value={trip[field]}
+                      onChange={(e) => updateTrip(i, t, field, e.target.value)}
+                      disabled={readOnly}
+                      aria-label={`Trip ${field}`}
+                      className={`input-field text-sm ${getFieldColor(day.date, "trips", `trips.${t}`)}`}
+                    />
+                  ))}
+                  <input
+                    type="number"
+                    min="0"
+                    max="2000"
+                    placeholder="Km"
+                    value={trip.kilometers}
+                    onChange={(e) => updateTrip(i, t, "kilometers", e.target.value)}
+                    disabled={readOnly}
+                    aria-label="Trip km"
+                    className={`input-field text-sm ${getFieldColor(day.date, "trips", `trips.${t}`)}`}
+                  />
+                  {!readOnly && (
+                    <button
+                      onClick={() => updateTrips(i, day.trips.filter((_, j) => j !== t))}
+                      className="text-gray-400 hover:text-red-600"
+                      aria-label="Remove trip"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              ))}
+              {!readOnly && (
+                <button
+                  onClick={() => updateTrips(i, [...day.trips, emptyTrip()])}
+                  className="text-xs text-blue-600 hover:underline"
+                >
+                  + Add trip
+                </button>
+              )}
+            </div>
+          )}
         </div>
       ))}
     </div>
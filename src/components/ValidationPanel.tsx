@@ -0,0 +1,113 @@
+"use client";
+
+import { AIValidationData } from "@/lib/types";
+import { customText } from "@/lib/signOff";
+
+interface ValidationPanelProps {
+  value: AIValidationData;
+  onChange: (validation: AIValidationData) => void;
+  missing: string[]; // sign-off the organisation requires that isn't filled in
+  readOnly?: boolean;
+}
+
+export default function ValidationPanel({ value, onChange, missing, readOnly }: ValidationPanelProps) {
+  const custom = Object.entries(value.custom);
+
+  function update<K extends "supervisor" | "approver" | "client">(section: K, patch: Partial<AIValidationData[K]>) {
+    onChange({ ...value, [section]: { ...value[section], ...patch } });
+  }
+
+  // Rebuilt from the entries so a renamed key keeps its place
+  function updateCustom(entries: [string, unknown][]) {
+    onChange({ ...value, custom: Object.fromEntries(entries) });
+  }
+
+  function addCustom() {
+    let n = custom.length + 1;
+    while (`Field ${n}` in value.custom) n++;
+    updateCustom([...custom, [`Field ${n}`, ""]]);
+  }
+
+  function field(label: string, text: string | null, onText: (text: string | null) => void, type = "text") {
+    return (
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-0.5">{label}</label>
+        <input
+          type={type}
+          value={text ?? ""}
+          onChange={(e) => onText(e.target.value || null)}
+          disabled={readOnly}
+          className="input-field text-sm"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {missing.length > 0 && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          Sign-off is missing the {missing.join(", ")}. The timesheet can&apos;t be submitted until it&apos;s filled in.
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        {field("Supervisor", value.supervisor.name, (name) => update("supervisor", { name }))}
+        {field("Supervisor signature", value.supervisor.signature, (signature) =>
+          update("supervisor", { signature })
+        )}
+        <div />
+        {field("Approver", value.approver.name, (name) => update("approver", { name }))}
+        {field("Approved on", value.approver.date, (date) => update("approver", { date }), "date")}
+        <div />
+        {field("Client", value.client.name, (name) => update("client", { name }))}
+        {field("Project", value.client.project, (project) => update("client", { project }))}
+      </div>
+
+      {(custom.length > 0 || !readOnly) && (
+        <div>
+          <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">Other details</div>
+          <div className="space-y-2">
+            {custom.map(([key, item], i) => (
+              <div key={i} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={key}
+                  onChange={(e) =>
+                    !(e.target.value in value.custom) &&
+                    updateCustom(custom.map((entry, j) => (j === i ? [e.target.value, entry[1]] : entry)))
+                  }
+                  disabled={readOnly}
+                  className="input-field text-sm !w-48"
+                  aria-label="Detail name"
+                />
+                <input
+                  type="text"
+                  value={customText(item)}
+                  onChange={(e) => updateCustom(custom.map((entry, j) => (j === i ? [key, e.target.value] : entry)))}
+                  disabled={readOnly}
+                  className="input-field text-sm"
+                  aria-label={key}
+                />
+                {!readOnly && (
+                  <button
+                    onClick={() => updateCustom(custom.filter((_, j) => j !== i))}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label="Remove detail"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          {!readOnly && (
+            <button onClick={addCustom} className="mt-2 text-xs text-blue-600 hover:underline">
+              + Add detail
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,19 @@
 "use client";
 
+import { getPeriodEnd, getPeriodStart, shiftPeriod } from "@/lib/dates";
+import { PeriodSettings } from "@/lib/types";
+
 interface WeekPickerProps {
   value: string;
+  period: PeriodSettings;
   onChange: (date: string) => void;
 }
 
-export default function WeekPicker({ value, onChange }: WeekPickerProps) {
+export default function WeekPicker({ value, period, onChange }: WeekPickerProps) {
+  // Any picked date moves to the start of the period it falls in
   function handleChange(e: React.ChangeEvent<HTMLInputElement>) {
-    onChange(e.target.value);
+    if (!e.target.value) return;
+    onChange(getPeriodStart(e.target.value, period));
   }
 
   return (
@@ -15,12 +21,33 @@ export default function WeekPicker({ value, onChange }: WeekPickerProps) {
       <label className="block text-sm font-medium text-gray-700 mb-1">
         Period Starting
       </label>
-      <input
-        type="date"
-        value={value}
-        onChange={handleChange}
-        className="input-field"
-      />
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={() => onChange(shiftPeriod(value, -1, period))}
+          className="btn-secondary !px-2 !py-1.5"
+          aria-label="Previous period"
+        >
+          ‹
+        </button>
+        <input
+          type="date"
+          value={value}
+          onChange={handleChange}
+          className="input-field"
+        />
+        <button
+          type="button"
+          onClick={() => onChange(shiftPeriod(value, 1, period))}
+          className="btn-secondary !px-2 !py-1.5"
+          aria-label="Next period"
+        >
+          ›
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        to {getPeriodEnd(value, period)}
+      </p>
     </div>
   );
 }
@@ -0,0 +1,175 @@
+import {
+  Employee,
+  EmployeeInput,
+  ExtractionEvent,
+  OrgSettings,
+  ScheduleTemplate,
+  TimesheetInput,
+  TimesheetRecord,
+  TimesheetStatus,
+  UsageSummary,
+  WorkflowAction,
+} from "./types";
+
+// Browser-side helpers for the /api routes
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json", ...init.headers } : init?.headers,
+  });
+  // A session that has expired or been ended elsewhere needs a fresh sign-in
+  if (res.status === 401) window.location.assign("/signin");
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed (${res.status})`);
+  }
+  return res.status === 204 ? (undefined as T) : res.json();
+}
+
+export async function findTimesheet(employee: string, weekStartDate: string): Promise<TimesheetRecord | null> {
+  const params = new URLSearchParams({ employee, weekStartDate });
+  const { timesheets } = await request<{ timesheets: TimesheetRecord[] }>(`/api/timesheets?${params}`);
+  return timesheets[0] ?? null;
+}
+
+export function saveTimesheet(id: string | null, input: TimesheetInput): Promise<TimesheetRecord> {
+  return id
+    ? request(`/api/timesheets/${encodeURIComponent(id)}`, { method: "PUT", body: JSON.stringify(input) })
+    : request("/api/timesheets", { method: "POST", body: JSON.stringify(input) });
+}
+
+export function deleteTimesheet(id: string): Promise<void> {
+  return request(`/api/timesheets/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
+
+export async function listTimesheets(status?: TimesheetStatus): Promise<TimesheetRecord[]> {
+  const params = new URLSearchParams(status ? { status } : {});
+  const { timesheets } = await request<{ timesheets: TimesheetRecord[] }>(`/api/timesheets?${params}`);
+  return timesheets;
+}
+
+// Recorded as the signed-in user
+export function transitionTimesheet(id: string, action: WorkflowAction, comment = ""): Promise<TimesheetRecord> {
+  return request(`/api/timesheets/${encodeURIComponent(id)}/status`, {
+    method: "POST",
+    body: JSON.stringify({ action, comment }),
+  });
+}
+
+export function exportUrl(id: string): string {
+  return `/api/timesheets/${encodeURIComponent(id)}/export`;
+}
+
+// Mileage paid as a reimbursement, as its own Xero import
+export function reimbursementUrl(id: string): string {
+  return `/api/timesheets/${encodeURIComponent(id)}/reimbursements`;
+}
+
+export function auditUrl(id: string): string {
+  return `/api/timesheets/${encodeURIComponent(id)}/audit`;
+}
+
+export function reportUrl(id: string): string {
+  return `/api/timesheets/${encodeURIComponent(id)}/report`;
+}
+
+// Every matching timesheet in one PDF; managers only
+export function batchReportUrl(filter: { status?: TimesheetStatus; weekStartDate?: string }): string {
+  const params = new URLSearchParams(Object.entries(filter).filter((e): e is [string, string] => Boolean(e[1])));
+  return `/api/reports?${params}`;
+}
+
+// Posts files to the extract route and yields its progress events as they
+// arrive. Requests rejected up front come back as a single error event.
+export async function* streamExtraction(formData: FormData, signal?: AbortSignal): AsyncGenerator<ExtractionEvent> {
+  formData.set("stream", "true");
+  const res = await fetch("/api/extract", { method: "POST", body: formData, signal });
+  if (!res.ok || !res.body) {
+    const data = await res.json().catch(() => ({}));
+    yield { type: "error", error: data.error || `Extraction failed (${res.status})`, issues: data.issues };
+    return;
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as ExtractionEvent;
+    }
+    if (done) return;
+  }
+}
+
+export async function listTemplates(employee: string): Promise<ScheduleTemplate[]> {
+  const { templates } = await request<{ templates: ScheduleTemplate[] }>(
+    `/api/templates?${new URLSearchParams({ employee })}`
+  );
+  return templates;
+}
+
+export function saveTemplate(
+  employeeEmail: string,
+  name: string,
+  days: ScheduleTemplate["days"]
+): Promise<ScheduleTemplate> {
+  return request("/api/templates", { method: "POST", body: JSON.stringify({ employeeEmail, name, days }) });
+}
+
+export function deleteTemplate(id: string): Promise<void> {
+  return request(`/api/templates/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
+
+// Kilometres already claimed this claim year before the given date
+export async function fetchMileageToDate(employee: string, before: string): Promise<number> {
+  const { kilometers } = await request<{ kilometers: number }>(
+    `/api/mileage?${new URLSearchParams({ employee, before })}`
+  );
+  return kilometers;
+}
+
+export function fetchSettings(): Promise<OrgSettings> {
+  return request("/api/settings");
+}
+
+export function saveSettings(settings: OrgSettings): Promise<OrgSettings> {
+  return request("/api/settings", { method: "PUT", body: JSON.stringify(settings) });
+}
+
+export function fetchUsage(days: number): Promise<UsageSummary> {
+  return request(`/api/usage?days=${days}`);
+}
+
+export async function fetchCurrentUser(): Promise<Employee | null> {
+  const { user } = await request<{ user: Employee | null }>("/api/auth/me");
+  return user;
+}
+
+// previewLink is the emailed link, returned outside production only
+export function requestSignIn(email: string): Promise<{ sent: boolean; previewLink: string | null }> {
+  return request("/api/auth/signin", { method: "POST", body: JSON.stringify({ email }) });
+}
+
+export function signOut(): Promise<void> {
+  return request("/api/auth/signout", { method: "POST" });
+}
+
+export async function listEmployees(): Promise<Employee[]> {
+  const { employees } = await request<{ employees: Employee[] }>("/api/employees");
+  return employees;
+}
+
+export function saveEmployee(id: string | null, input: EmployeeInput): Promise<Employee> {
+  return id
+    ? request(`/api/employees/${encodeURIComponent(id)}`, { method: "PUT", body: JSON.stringify(input) })
+    : request("/api/employees", { method: "POST", body: JSON.stringify(input) });
+}
+
+export function deleteEmployee(id: string): Promise<void> {
+  return request(`/api/employees/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
@@ -0,0 +1,47 @@
+import { TimesheetRecord } from "./types";
+import { REVIEW_FIELD_LABELS } from "./review";
+import { SOURCE_LABELS, TRACKED_FIELDS } from "./provenance";
+import { describeValidation } from "./signOff";
+import { csvCell } from "./csv";
+
+// Every recorded change to a timesheet, oldest first within each day: where
+// each value came from, what it replaced, the sheet's sign-off and the
+// workflow decisions on it
+export function generateAuditCSV(timesheet: TimesheetRecord): string {
+  const name = timesheet.employeeName || timesheet.email;
+  const rows: string[][] = [
+    ["Employee Name", "Date", "Field", "Changed At", "Source", "Confidence", "From", "To", "Original Value"],
+  ];
+
+  const days = [...timesheet.days].sort((a, b) => a.date.localeCompare(b.date));
+  for (const day of days) {
+    for (const field of TRACKED_FIELDS) {
+      const provenance = day.provenance[field];
+      if (!provenance) continue;
+      for (const edit of provenance.history) {
+        rows.push([
+          name,
+          day.date,
+          REVIEW_FIELD_LABELS[field],
+          edit.at,
+          SOURCE_LABELS[edit.source],
+          edit.confidence != null ? edit.confidence.toFixed(2) : "",
+          edit.from,
+          edit.to,
+          provenance.original?.value ?? "",
+        ]);
+      }
+    }
+  }
+
+  for (const [label, value] of describeValidation(timesheet.validation)) {
+    rows.push([name, "", label, "", "", "", "", value, ""]);
+  }
+
+  for (const event of timesheet.history) {
+    const change = event.comment ? `${event.action}: ${event.comment}` : event.action;
+    rows.push([name, "", "Status", event.at, event.by, "", "", change, ""]);
+  }
+
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n");
+}
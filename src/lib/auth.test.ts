@@ -0,0 +1,112 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { actingFor, currentUser, ownsTimesheet, requestSignIn, SESSION_COOKIE, verifySignIn } from "./auth";
+import { createEmployee, updateEmployee } from "./employees";
+import { Employee } from "./types";
+
+const ORIGIN = "https://timesheets.example.com";
+
+let dir: string;
+let alex: Employee;
+let sam: Employee;
+
+// Asks for a link and pulls the token back out of it
+async function signInToken(email: string): Promise<string> {
+  const message = await requestSignIn(email, ORIGIN);
+  return new URL(message?.link ?? "").searchParams.get("token") ?? "";
+}
+
+function requestWith(session: string): NextRequest {
+  return new NextRequest(`${ORIGIN}/api/auth/session`, { headers: { cookie: `${SESSION_COOKIE}=${session}` } });
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "auth-"));
+  process.env.DATA_DIR = dir;
+  alex = await createEmployee({ name: "Alex Turner", email: "Alex@Example.com" });
+  sam = await createEmployee({ name: "Sam Lee", email: "sam@example.com", role: "manager" });
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("sign-in links", () => {
+  it("only goes to people in the directory", async () => {
+    expect(await requestSignIn("stranger@example.com", ORIGIN)).toBeNull();
+    expect((await requestSignIn("alex@example.com", ORIGIN))?.to).toBe("alex@example.com");
+  });
+
+  it("signs in once per link", async () => {
+    const token = await signInToken("alex@example.com");
+    const { token: session } = await verifySignIn(token);
+    expect((await currentUser(requestWith(session)))?.id).toBe(alex.id);
+
+    await expect(verifySignIn(token)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("signs in once when the same link is opened twice at once", async () => {
+    const token = await signInToken("alex@example.com");
+    const results = await Promise.allSettled([verifySignIn(token), verifySignIn(token)]);
+    expect(results.map((r) => r.status).sort()).toEqual(["fulfilled", "rejected"]);
+  });
+
+  it("expires after 15 minutes", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-08-04T09:00:00.000Z"));
+    const token = await signInToken("alex@example.com");
+    vi.setSystemTime(new Date("2025-08-04T09:15:00.000Z"));
+    await expect(verifySignIn(token)).rejects.toThrow("This sign-in link has expired; ask for a new one");
+  });
+});
+
+describe("currentUser", () => {
+  it("rejects sessions and links of someone since deactivated", async () => {
+    const { token: session } = await verifySignIn(await signInToken("alex@example.com"));
+    const token = await signInToken("alex@example.com");
+    await updateEmployee(alex.id, { ...alex, active: false });
+
+    expect(await currentUser(requestWith(session))).toBeNull();
+    await expect(verifySignIn(token)).rejects.toMatchObject({ status: 403 });
+  });
+
+  it("knows nobody without a session cookie, or with one it didn't issue", async () => {
+    expect(await currentUser(new NextRequest(ORIGIN))).toBeNull();
+    expect(await currentUser(requestWith("made-up"))).toBeNull();
+  });
+});
+
+describe("actingFor", () => {
+  it("keeps employees to their own timesheets", async () => {
+    expect(await actingFor(alex, null)).toBe(alex);
+    expect(await actingFor(alex, " ALEX@example.com ")).toBe(alex);
+    await expect(actingFor(alex, "sam@example.com")).rejects.toMatchObject({
+      status: 403,
+      message: "You can only fill in your own timesheet",
+    });
+  });
+
+  it("lets managers act for anyone active in the directory", async () => {
+    expect((await actingFor(sam, "alex@example.com")).id).toBe(alex.id);
+    await expect(actingFor(sam, "stranger@example.com")).rejects.toMatchObject({ status: 400 });
+
+    await updateEmployee(alex.id, { ...alex, active: false });
+    await expect(actingFor(sam, "alex@example.com")).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe("ownsTimesheet", () => {
+  it("matches by email whatever its case", () => {
+    expect(ownsTimesheet(alex, { email: "ALEX@example.com", employeeName: "" })).toBe(true);
+    expect(ownsTimesheet(alex, { email: "sam@example.com", employeeName: "Alex Turner" })).toBe(false);
+  });
+
+  it("falls back to the name for sheets saved without an email", () => {
+    expect(ownsTimesheet(alex, { email: "", employeeName: "alex turner" })).toBe(true);
+    expect(ownsTimesheet(alex, { email: "", employeeName: "Alex" })).toBe(false);
+  });
+});
@@ -0,0 +1,156 @@
+import { createHash, randomBytes } from "crypto";
+import { NextRequest } from "next/server";
+import { createCollection } from "./store";
+import { HttpError } from "./errors";
+import { bootstrapAdmin, findEmployeeByEmail, getEmployee } from "./employees";
+import { sendMail } from "./mail";
+import { Employee, OutboxMessage, Role, TimesheetRecord } from "./types";
+
+// Both kinds of token are stored by hash, so a copy of the data directory
+// can't be used to sign in
+interface SignInLink {
+  id: string; // sha256 of the emailed token
+  employeeId: string;
+  expiresAt: string;
+}
+
+interface Session {
+  id: string; // sha256 of the cookie value
+  employeeId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const links = createCollection<SignInLink>("signInLinks");
+const sessions = createCollection<Session>("sessions");
+
+export const SESSION_COOKIE = "timesheet_session";
+
+const LINK_MINUTES = 15;
+const SESSION_DAYS = 30;
+
+function newToken(): { token: string; id: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, id: hashToken(token) };
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function expired(record: { expiresAt: string }): boolean {
+  return Date.parse(record.expiresAt) <= Date.now();
+}
+
+// Emails a one-time sign-in link to someone in the directory. Returns the
+// message for development previews, or null when the address isn't known so
+// the caller can answer the same either way.
+export async function requestSignIn(email: string, origin: string): Promise<OutboxMessage | null> {
+  const employee = (await findEmployeeByEmail(email)) ?? (await bootstrapAdmin(email));
+  if (!employee || !employee.active) return null;
+
+  const { token, id } = newToken();
+  await links.put({
+    id,
+    employeeId: employee.id,
+    expiresAt: new Date(Date.now() + LINK_MINUTES * 60 * 1000).toISOString(),
+  });
+
+  const link = `${origin}/api/auth/verify?token=${encodeURIComponent(token)}`;
+  return sendMail({
+    to: employee.email,
+    subject: "Sign in to Timesheet Manager",
+    text: `Hi ${employee.name},\n\nOpen this link within ${LINK_MINUTES} minutes to sign in:\n${link}\n`,
+    link,
+  });
+}
+
+// Trades a sign-in link for a new session. The link only works once.
+export async function verifySignIn(token: string): Promise<{ token: string; expires: Date }> {
+  const link = await links.get(hashToken(token));
+  // Only whichever request deletes the link gets to use it
+  if (!link || !(await links.delete(link.id))) {
+    throw new HttpError(400, "This sign-in link has already been used or doesn't exist");
+  }
+  if (expired(link)) throw new HttpError(400, "This sign-in link has expired; ask for a new one");
+
+  const employee = await getEmployee(link.employeeId);
+  if (!employee.active) throw new HttpError(403, "This account has been deactivated");
+
+  const session = newToken();
+  const now = new Date();
+  const expires = new Date(now.getTime() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+  await sessions.put({
+    id: session.id,
+    employeeId: employee.id,
+    createdAt: now.toISOString(),
+    expiresAt: expires.toISOString(),
+  });
+  return { token: session.token, expires };
+}
+
+export async function endSession(request: NextRequest): Promise<void> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token) await sessions.delete(hashToken(token));
+}
+
+export function sessionCookie(token: string, expires: Date) {
+  return {
+    name: SESSION_COOKIE,
+    value: token,
+    expires,
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+  };
+}
+
+// The signed-in person, or null for no, expired or deactivated sessions
+export async function currentUser(request: NextRequest): Promise<Employee | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+  const session = await sessions.get(hashToken(token));
+  if (!session || expired(session)) return null;
+  const employee = await getEmployee(session.employeeId).catch(() => null);
+  return employee?.active ? employee : null;
+}
+
+export async function requireUser(request: NextRequest, roles?: Role[]): Promise<Employee> {
+  const user = await currentUser(request);
+  if (!user) throw new HttpError(401, "Sign in to continue");
+  if (roles && !roles.includes(user.role)) {
+    throw new HttpError(403, "You don't have access to this");
+  }
+  return user;
+}
+
+export function isManager(user: Employee): boolean {
+  return user.role === "manager" || user.role === "admin";
+}
+
+// Timesheets saved before sign-in existed may only have a name
+export function ownsTimesheet(user: Employee, timesheet: Pick<TimesheetRecord, "email" | "employeeName">): boolean {
+  if (timesheet.email) return timesheet.email.toLowerCase() === user.email;
+  return timesheet.employeeName.toLowerCase() === user.name.toLowerCase();
+}
+
+export function canSeeTimesheet(user: Employee, timesheet: TimesheetRecord): boolean {
+  return isManager(user) || ownsTimesheet(user, timesheet);
+}
+
+export function checkTimesheetAccess(user: Employee, timesheet: TimesheetRecord): void {
+  if (!canSeeTimesheet(user, timesheet)) throw new HttpError(403, "This isn't your timesheet");
+}
+
+// Who a timesheet or upload is for. Employees only ever work on their own;
+// managers can pick anyone active in the directory.
+export async function actingFor(user: Employee, email: string | null | undefined): Promise<Employee> {
+  const wanted = email?.trim().toLowerCase();
+  if (!wanted || wanted === user.email) return user;
+  if (!isManager(user)) throw new HttpError(403, "You can only fill in your own timesheet");
+
+  const employee = await findEmployeeByEmail(wanted);
+  if (!employee?.active) throw new HttpError(400, `${wanted} isn't an active employee in the directory`);
+  return employee;
+}
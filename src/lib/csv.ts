@@ -0,0 +1,10 @@
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Quotes a CSV cell, doubling any quotes inside it and prefixing text that a
+// spreadsheet would run as a formula with an apostrophe. Plain numbers, even
+// negative ones, are left as they are.
+export function csvCell(value: string): string {
+  const safe = FORMULA_START.test(value) && isNaN(Number(value)) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  addDays,
+  daysBetween,
+  formatDate,
+  generateWeekDays,
+  getCurrentWeekStart,
+  getDayName,
+  getPeriodEnd,
+  getPeriodStart,
+  isCalendarDate,
+  shiftPeriod,
+} from "./dates";
+import { DEFAULT_PERIOD } from "./settings";
+import { PeriodSettings } from "./types";
+
+function period(overrides: Partial<PeriodSettings>): PeriodSettings {
+  return { ...DEFAULT_PERIOD, ...overrides };
+}
+
+const weekly7 = period({ includeWeekends: true });
+const fortnightly = period({ length: "fortnightly", anchorDate: "2025-01-06", includeWeekends: true });
+const semiMonthly = period({ length: "semi-monthly", includeWeekends: true });
+const monthly = period({ length: "monthly", includeWeekends: true });
+
+describe("calendar arithmetic", () => {
+  it("adds days across month and year ends", () => {
+    expect(addDays("2024-12-31", 1)).toBe("2025-01-01");
+    expect(addDays("2025-01-01", -1)).toBe("2024-12-31");
+    expect(addDays("2024-02-28", 1)).toBe("2024-02-29");
+    expect(addDays("2025-02-28", 1)).toBe("2025-03-01");
+  });
+
+  it("adds whole days across daylight-saving changes", () => {
+    // Sydney and Auckland both leave DST on 6 April 2025 and return in late September/October
+    expect(addDays("2025-04-05", 1)).toBe("2025-04-06");
+    expect(addDays("2025-04-06", 1)).toBe("2025-04-07");
+    expect(addDays("2025-10-04", 2)).toBe("2025-10-06");
+    expect(daysBetween("2025-04-01", "2025-04-10")).toBe(9);
+    expect(daysBetween("2025-09-25", "2025-10-10")).toBe(15);
+  });
+
+  it("names days of the week", () => {
+    expect(getDayName("2025-02-03")).toBe("MON");
+    expect(getDayName("2025-04-06")).toBe("SUN");
+    expect(getDayName("2024-12-31")).toBe("TUE");
+  });
+
+  it("recognises real calendar dates only", () => {
+    expect(isCalendarDate("2024-02-29")).toBe(true);
+    expect(isCalendarDate("2025-02-29")).toBe(false);
+    expect(isCalendarDate("2025-2-3")).toBe(false);
+  });
+});
+
+describe("formatDate", () => {
+  it("uses the organisation's calendar day, not UTC", () => {
+    // 14:30 UTC on Sunday is already Monday in Sydney
+    const instant = new Date("2025-02-02T14:30:00Z");
+    expect(formatDate(instant, "Australia/Sydney")).toBe("2025-02-03");
+    expect(formatDate(instant, "UTC")).toBe("2025-02-02");
+  });
+
+  it("handles instants on either side of a DST change", () => {
+    // Sydney moves from +11 to +10 at 03:00 local on 6 April 2025 (16:00 UTC on the 5th)
+    expect(formatDate(new Date("2025-04-05T13:30:00Z"), "Australia/Sydney")).toBe("2025-04-06");
+    expect(formatDate(new Date("2025-04-06T13:30:00Z"), "Australia/Sydney")).toBe("2025-04-06");
+    expect(formatDate(new Date("2025-04-06T14:30:00Z"), "Australia/Sydney")).toBe("2025-04-07");
+  });
+
+  it("handles the year boundary in New Zealand", () => {
+    expect(formatDate(new Date("2024-12-31T11:30:00Z"), "Pacific/Auckland")).toBe("2025-01-01");
+  });
+});
+
+describe("getCurrentWeekStart", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("picks the week from the organisation's today", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-02-02T14:30:00Z"));
+    expect(getCurrentWeekStart(DEFAULT_PERIOD, "Australia/Sydney")).toBe("2025-02-03");
+    expect(getCurrentWeekStart(DEFAULT_PERIOD, "America/New_York")).toBe("2025-01-27");
+  });
+
+  it("rolls into the new year at local midnight", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-12-31T13:30:00Z"));
+    expect(getCurrentWeekStart(monthly, "Australia/Sydney")).toBe("2025-01-01");
+    expect(getCurrentWeekStart(monthly, "UTC")).toBe("2024-12-01");
+  });
+});
+
+describe("period boundaries", () => {
+  it("snaps weekly periods to the start day", () => {
+    expect(getPeriodStart("2025-02-06", DEFAULT_PERIOD)).toBe("2025-02-03");
+    expect(getPeriodStart("2025-02-06", period({ startDay: "THU" }))).toBe("2025-02-06");
+    expect(getPeriodStart("2025-02-05", period({ startDay: "THU" }))).toBe("2025-01-30");
+  });
+
+  it("keeps weekly periods spanning the new year intact", () => {
+    expect(getPeriodStart("2025-01-01", DEFAULT_PERIOD)).toBe("2024-12-30");
+    expect(getPeriodEnd("2024-12-30", weekly7)).toBe("2025-01-05");
+  });
+
+  it("keeps fortnights in step with the anchor in both directions", () => {
+    expect(getPeriodStart("2025-01-20", fortnightly)).toBe("2025-01-20");
+    expect(getPeriodStart("2025-01-15", fortnightly)).toBe("2025-01-06");
+    expect(getPeriodStart("2024-12-25", fortnightly)).toBe("2024-12-23");
+    expect(getPeriodEnd("2024-12-23", fortnightly)).toBe("2025-01-05");
+  });
+
+  it("splits months on the 16th for semi-monthly periods", () => {
+    expect(getPeriodStart("2025-02-15", semiMonthly)).toBe("2025-02-01");
+    expect(getPeriodStart("2025-02-16", semiMonthly)).toBe("2025-02-16");
+    expect(getPeriodEnd("2024-02-16", semiMonthly)).toBe("2024-02-29");
+    expect(getPeriodEnd("2025-02-16", semiMonthly)).toBe("2025-02-28");
+  });
+
+  it("shifts periods across year boundaries", () => {
+    expect(shiftPeriod("2024-12-30", 1, DEFAULT_PERIOD)).toBe("2025-01-06");
+    expect(shiftPeriod("2025-01-06", -1, fortnightly)).toBe("2024-12-23");
+    expect(shiftPeriod("2025-12-16", 1, semiMonthly)).toBe("2026-01-01");
+    expect(shiftPeriod("2025-01-01", -1, semiMonthly)).toBe("2024-12-16");
+    expect(shiftPeriod("2025-01-20", -1, monthly)).toBe("2024-12-01");
+  });
+});
+
+describe("generateWeekDays", () => {
+  it("defaults to Monday to Friday", () => {
+    const days = generateWeekDays("2025-02-03");
+    expect(days.map((d) => d.dayOfWeek)).toEqual(["MON", "TUE", "WED", "THU", "FRI"]);
+    expect(days.map((d) => d.date)).toEqual([
+      "2025-02-03",
+      "2025-02-04",
+      "2025-02-05",
+      "2025-02-06",
+      "2025-02-07",
+    ]);
+  });
+
+  it("produces seven distinct days across the end of DST", () => {
+    const days = generateWeekDays("2025-03-31", weekly7);
+    expect(days.map((d) => d.date)).toEqual([
+      "2025-03-31",
+      "2025-04-01",
+      "2025-04-02",
+      "2025-04-03",
+      "2025-04-04",
+      "2025-04-05",
+      "2025-04-06",
+    ]);
+    expect(days[6].dayOfWeek).toBe("SUN");
+  });
+
+  it("produces fourteen days across the start of DST", () => {
+    const days = generateWeekDays("2025-09-29", fortnightly);
+    expect(days).toHaveLength(14);
+    expect(days[0].date).toBe("2025-09-29");
+    expect(days[13].date).toBe("2025-10-12");
+    expect(new Set(days.map((d) => d.date)).size).toBe(14);
+  });
+
+  it("runs a fortnight over the new year", () => {
+    const days = generateWeekDays("2024-12-23", fortnightly);
+    expect(days[0].date).toBe("2024-12-23");
+    expect(days[9].date).toBe("2025-01-01");
+    expect(days[9].dayOfWeek).toBe("WED");
+    expect(days[13].date).toBe("2025-01-05");
+  });
+
+  it("covers whole months, leaving out weekends when they're turned off", () => {
+    expect(generateWeekDays("2024-02-01", monthly)).toHaveLength(29);
+    const weekdays = generateWeekDays("2025-03-01", period({ length: "monthly" }));
+    expect(weekdays).toHaveLength(21);
+    expect(weekdays.some((d) => d.dayOfWeek === "SAT" || d.dayOfWeek === "SUN")).toBe(false);
+  });
+
+  it("fills the employee's default break on weekdays only", () => {
+    const days = generateWeekDays("2025-02-03", weekly7, { defaultBreakMinutes: 30 });
+    expect(days.map((d) => d.segments[0].breakMinutes)).toEqual(["30", "30", "30", "30", "30", "", ""]);
+    expect(days.every((d) => !d.segments[0].startTime && !d.totalHours)).toBe(true);
+  });
+});
@@ -1,42 +1,162 @@
-import { DayOfWeek, DayEntry } from "./types";
+import { DayOfWeek, DayEntry, PayrollProfile, PeriodSettings } from "./types";
+import { DEFAULT_PERIOD, DEFAULT_TIME_ZONE } from "./settings";
+import { emptySegment } from "./hours";
+
+// Timesheet dates are calendar dates ("YYYY-MM-DD"), not instants. All the
+// arithmetic here works on whole UTC days so it never sees a daylight-saving
+// change; the only place an instant becomes a date is `formatDate`, which
+// always takes the organisation's time zone.
 
 const ALL_DAY_NAMES: DayOfWeek[] = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface DateParts {
+  year: number;
+  month: number; // 0-11, like Date
+  day: number;
+}
+
+function toParts(date: string): DateParts {
+  const [year, month, day] = date.split("-").map(Number);
+  return { year, month: month - 1, day };
+}
+
+// Out-of-range months and days roll over, so (2025, 12, 1) is 2026-01-01
+function fromParts(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month, day)).toISOString().slice(0, 10);
+}
+
+function toDayNumber(date: string): number {
+  const { year, month, day } = toParts(date);
+  return Date.UTC(year, month, day) / MS_PER_DAY;
+}
+
+export function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const { year, month, day } = toParts(value);
+  return fromParts(year, month, day) === value;
+}
+
+export function addDays(date: string, days: number): string {
+  const { year, month, day } = toParts(date);
+  return fromParts(year, month, day + days);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return toDayNumber(to) - toDayNumber(from);
+}
+
+export function getDayName(date: string): DayOfWeek {
+  const { year, month, day } = toParts(date);
+  return ALL_DAY_NAMES[new Date(Date.UTC(year, month, day)).getUTCDay()];
+}
+
+// The calendar date an instant falls on in the given time zone
+export function formatDate(instant: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return `${get("year")}-${get("month")}-${get("day")}`;
+}
+
+export function today(timeZone: string = DEFAULT_TIME_ZONE): string {
+  return formatDate(new Date(), timeZone);
+}
 
-export function getMonday(date: Date): Date {
-  const d = new Date(date);
-  const day = d.getDay();
-  const diff = d.getDate() - day + (day === 0 ? -6 : 1);
-  d.setDate(diff);
-  d.setHours(0, 0, 0, 0);
-  return d;
+function startOfWeek(date: string, startDay: DayOfWeek): string {
+  const diff = (ALL_DAY_NAMES.indexOf(getDayName(date)) - ALL_DAY_NAMES.indexOf(startDay) + 7) % 7;
+  return addDays(date, -diff);
 }
 
-export function formatDate(date: Date): string {
-  return date.toISOString().split("T")[0];
+// Start of the period containing `date`
+export function getPeriodStart(date: string, period: PeriodSettings = DEFAULT_PERIOD): string {
+  const { year, month, day } = toParts(date);
+  switch (period.length) {
+    case "weekly":
+      return startOfWeek(date, period.startDay);
+    case "fortnightly": {
+      const start = startOfWeek(date, period.startDay);
+      const anchor = startOfWeek(period.anchorDate, period.startDay);
+      const weeks = daysBetween(anchor, start) / 7;
+      return weeks % 2 === 0 ? start : addDays(start, -7);
+    }
+    case "semi-monthly":
+      return fromParts(year, month, day <= 15 ? 1 : 16);
+    case "monthly":
+      return fromParts(year, month, 1);
+  }
 }
 
-export function getDayName(date: Date): DayOfWeek {
-  return ALL_DAY_NAMES[date.getDay()];
+// Last day of the period that starts on `start`
+export function getPeriodEnd(start: string, period: PeriodSettings = DEFAULT_PERIOD): string {
+  const { year, month, day } = toParts(start);
+  switch (period.length) {
+    case "weekly":
+      return addDays(start, 6);
+    case "fortnightly":
+      return addDays(start, 13);
+    case "semi-monthly":
+      return day <= 15 ? fromParts(year, month, 15) : fromParts(year, month + 1, 0);
+    case "monthly":
+      return fromParts(year, month + 1, 0);
+  }
 }
 
-export function generateWeekDays(weekStartDate: string): DayEntry[] {
-  const start = new Date(weekStartDate + "T00:00:00");
-  return Array.from({ length: 5 }, (_, i) => {
-    const d = new Date(start);
-    d.setDate(d.getDate() + i);
-    return {
-      date: formatDate(d),
-      dayOfWeek: getDayName(d),
-      startTime: "",
-      endTime: "",
+// Start of the period `step` periods before or after the one containing `date`
+export function shiftPeriod(date: string, step: number, period: PeriodSettings = DEFAULT_PERIOD): string {
+  const start = getPeriodStart(date, period);
+  const { year, month, day } = toParts(start);
+  switch (period.length) {
+    case "weekly":
+      return addDays(start, 7 * step);
+    case "fortnightly":
+      return addDays(start, 14 * step);
+    case "semi-monthly": {
+      const half = month * 2 + (day > 15 ? 1 : 0) + step;
+      const m = Math.floor(half / 2);
+      return fromParts(year, m, half - m * 2 ? 16 : 1);
+    }
+    case "monthly":
+      return fromParts(year, month + step, 1);
+  }
+}
+
+// Weekdays start with the employee's usual break, if they have one
+export function generateWeekDays(
+  weekStartDate: string,
+  period: PeriodSettings = DEFAULT_PERIOD,
+  employee?: Pick<PayrollProfile, "defaultBreakMinutes">
+): DayEntry[] {
+  const end = getPeriodEnd(weekStartDate, period);
+  const days: DayEntry[] = [];
+  const defaultBreak = employee?.defaultBreakMinutes ? String(employee.defaultBreakMinutes) : "";
+
+  for (let date = weekStartDate; date <= end; date = addDays(date, 1)) {
+    const dayOfWeek = getDayName(date);
+    const weekend = dayOfWeek === "SAT" || dayOfWeek === "SUN";
+    if (!period.includeWeekends && weekend) continue;
+    days.push({
+      date,
+      dayOfWeek,
+      segments: [{ ...emptySegment(), breakMinutes: weekend ? "" : defaultBreak }],
+      allocations: [],
       totalHours: "",
-      breakMinutes: "",
       kilometers: "",
+      trips: [],
       notes: "",
-    };
-  });
+      provenance: {},
+    });
+  }
+  return days;
 }
 
-export function getCurrentWeekStart(): string {
-  return formatDate(getMonday(new Date()));
+export function getCurrentWeekStart(
+  period: PeriodSettings = DEFAULT_PERIOD,
+  timeZone: string = DEFAULT_TIME_ZONE
+): string {
+  return getPeriodStart(today(timeZone), period);
 }
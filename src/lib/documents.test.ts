@@ -0,0 +1,46 @@
+import ExcelJS from "exceljs";
+import { describe, expect, it } from "vitest";
+import { detectFormat, prepareDocument } from "./documents";
+
+const XLSX_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+async function workbook(rows: unknown[][]): Promise<Buffer> {
+  const book = new ExcelJS.Workbook();
+  const sheet = book.addWorksheet("Week 32");
+  rows.forEach((row) => sheet.addRow(row));
+  sheet.addRow([]);
+  return Buffer.from(await book.xlsx.writeBuffer());
+}
+
+describe("prepareDocument", () => {
+  it("turns each sheet into pipe-delimited rows, dates and times as the sheet shows them", async () => {
+    const buffer = await workbook([
+      ["Date", "Start", "Notes"],
+      [new Date("2025-08-04T00:00:00.000Z"), new Date("1899-12-30T07:30:00.000Z"), "Yard | site"],
+      [new Date("2025-08-05T00:00:00.000Z")],
+    ]);
+    const doc = await prepareDocument(buffer, XLSX_TYPE, "week.xlsx");
+    expect(doc).toMatchObject({ kind: "text", fileType: "xlsx", pageOrImageCount: 1 });
+    expect(doc.text).toBe(
+      [
+        "Sheet: Week 32 (3 rows, first row is usually the header)",
+        "| Date | Start | Notes |",
+        "| 2025-08-04 | 07:30 | Yard / site |",
+        "| 2025-08-05 |  |  |",
+      ].join("\n")
+    );
+  });
+
+  it("says what to save an older Word or Excel file as", async () => {
+    await expect(prepareDocument(Buffer.from(""), "application/msword", "week.doc")).rejects.toThrow(
+      "week.doc is an older Word file; save it as .docx and upload that instead"
+    );
+  });
+});
+
+describe("detectFormat", () => {
+  it("goes by the extension when Windows calls a CSV an Excel file", () => {
+    expect(detectFormat("application/vnd.ms-excel", "week.csv")).toBe("csv");
+    expect(detectFormat("application/vnd.ms-excel", "week.xls")).toBeNull();
+  });
+});
@@ -0,0 +1,216 @@
+import ExcelJS from "exceljs";
+import JSZip from "jszip";
+import mammoth from "mammoth";
+import { extractText } from "unpdf";
+
+export type DocumentKind = "image" | "pdf" | "text";
+
+// An upload after pre-processing, ready to hand to a provider
+export interface PreparedDocument {
+  kind: DocumentKind;
+  filename: string;
+  contentType: string;
+  buffer: Buffer; // original bytes, kept for native inputs and hashing
+  text?: string; // what the model reads for text documents
+  pages?: string[]; // per-page text for PDFs
+  fileType: string;
+  pageOrImageCount: number;
+}
+
+export class UnsupportedDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedDocumentError";
+  }
+}
+
+type DocumentFormat = "jpeg" | "png" | "webp" | "pdf" | "txt" | "csv" | "xlsx" | "docx";
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  "image/jpeg": "jpeg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+  "text/plain": "txt",
+  "text/csv": "csv",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  jpg: "jpeg",
+  jpeg: "jpeg",
+  png: "png",
+  webp: "webp",
+  pdf: "pdf",
+  txt: "txt",
+  csv: "csv",
+  xlsx: "xlsx",
+  docx: "docx",
+};
+
+const IMAGE_TYPES: Partial<Record<DocumentFormat, string>> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+// Word and Excel 97–2003 files are a binary format none of the parsers read
+const OLDER_OFFICE: Record<string, string> = { doc: "Word", xls: "Excel" };
+
+function extension(filename: string): string {
+  return filename.split(".").pop()?.toLowerCase() ?? "";
+}
+
+// Browsers are inconsistent about office MIME types (often "" or
+// application/octet-stream, and application/vnd.ms-excel for CSVs on
+// Windows), so fall back to the file extension.
+export function detectFormat(contentType: string, filename: string): DocumentFormat | null {
+  const byMime = MIME_FORMATS[contentType];
+  if (byMime) return byMime;
+  return EXTENSION_FORMATS[extension(filename)] ?? null;
+}
+
+// Tells the uploader what to save an older Office file as, or null for any
+// other file
+export function olderOfficeMessage(filename: string): string | null {
+  const ext = extension(filename);
+  const app = OLDER_OFFICE[ext];
+  return app ? `${filename} is an older ${app} file; save it as .${ext}x and upload that instead` : null;
+}
+
+function escapeCell(value: unknown): string {
+  return String(value ?? "").replace(/\s+/g, " ").replace(/\|/g, "/").trim();
+}
+
+// Dates and times as the sheet shows them rather than as JavaScript prints them
+function cellText(cell: ExcelJS.Cell): string {
+  if (!(cell.value instanceof Date)) return cell.text;
+  const iso = cell.value.toISOString();
+  // Excel keeps a time of day as that time on its epoch, 30 December 1899
+  if (iso.startsWith("1899-12-30")) return iso.slice(11, 16);
+  return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+}
+
+async function spreadsheetToText(buffer: Buffer): Promise<{ text: string; sheetCount: number }> {
+  const workbook = new ExcelJS.Workbook();
+  // exceljs declares its own Buffer type, which Node's no longer matches
+  await workbook.xlsx.load(buffer as unknown as Parameters<typeof workbook.xlsx.load>[0]);
+  const sections: string[] = [];
+
+  for (const sheet of workbook.worksheets) {
+    const rows: string[][] = [];
+    sheet.eachRow((row) => rows.push(Array.from({ length: row.cellCount }, (_, i) => cellText(row.getCell(i + 1)))));
+    if (rows.length === 0) continue;
+
+    const width = Math.max(...rows.map((r) => r.length));
+    const lines = rows.map((row) => {
+      const cells = Array.from({ length: width }, (_, i) => escapeCell(row[i]));
+      return `| ${cells.join(" | ")} |`;
+    });
+    sections.push(`Sheet: ${sheet.name} (${rows.length} rows, first row is usually the header)\n${lines.join("\n")}`);
+  }
+
+  return { text: sections.join("\n\n"), sheetCount: workbook.worksheets.length };
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Flattens mammoth's HTML to plain text, keeping tables as pipe-delimited rows
+function htmlToText(html: string): string {
+  const text = html
+    // Cells hold their own paragraphs; collapse them so each row stays on one line
+    .replace(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/gi, (_, cell: string) => `${cell.replace(/<[^>]+>/g, " ")} | `)
+    .replace(/<tr[^>]*>/gi, "\n| ")
+    .replace(/<\/tr>/gi, "")
+    .replace(/<\/?table[^>]*>/gi, "\n")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|h[1-6]|li)>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Word stores its last-rendered page count in docProps/app.xml
+async function docxPageCount(buffer: Buffer): Promise<number> {
+  try {
+    const zip = await JSZip.loadAsync(buffer);
+    const xml = (await zip.file("docProps/app.xml")?.async("string")) ?? "";
+    const pages = Number(xml.match(/<Pages>(\d+)<\/Pages>/)?.[1]);
+    return pages > 0 ? pages : 1;
+  } catch {
+    return 1;
+  }
+}
+
+async function pdfPages(buffer: Buffer): Promise<{ pages: string[]; totalPages: number }> {
+  const { totalPages, text } = await extractText(new Uint8Array(buffer), { mergePages: false });
+  return { pages: text.map((page) => page.trim()), totalPages };
+}
+
+export async function prepareDocument(
+  buffer: Buffer,
+  contentType: string,
+  filename: string
+): Promise<PreparedDocument> {
+  const format = detectFormat(contentType, filename);
+  if (!format) {
+    throw new UnsupportedDocumentError(
+      olderOfficeMessage(filename) ?? `Unsupported file type: ${contentType || filename}`
+    );
+  }
+
+  const base = { filename, buffer, fileType: format };
+  const imageType = IMAGE_TYPES[format];
+
+  if (imageType) {
+    return { ...base, kind: "image", contentType: imageType, pageOrImageCount: 1 };
+  }
+
+  switch (format) {
+    case "pdf": {
+      const { pages, totalPages } = await pdfPages(buffer);
+      return { ...base, kind: "pdf", contentType: "application/pdf", pages, pageOrImageCount: totalPages };
+    }
+    case "xlsx": {
+      const { text, sheetCount } = await spreadsheetToText(buffer);
+      return { ...base, kind: "text", contentType, text, pageOrImageCount: sheetCount };
+    }
+    case "docx": {
+      const { value: html } = await mammoth.convertToHtml({ buffer });
+      const pageOrImageCount = await docxPageCount(buffer);
+      return { ...base, kind: "text", contentType, text: htmlToText(html), pageOrImageCount };
+    }
+    default:
+      return { ...base, kind: "text", contentType, text: buffer.toString("utf-8"), pageOrImageCount: 1 };
+  }
+}
+
+// Text the model reads when a PDF isn't sent natively
+export function pdfText(doc: PreparedDocument): string {
+  const pages = doc.pages ?? [];
+  if (pages.every((page) => !page)) {
+    throw new UnsupportedDocumentError(
+      `${doc.filename} has no text layer (is it a scan?). Use a provider that reads PDFs natively or upload it as an image.`
+    );
+  }
+  return pages.map((page, i) => `--- Page ${i + 1} of ${pages.length} ---\n${page}`).join("\n\n");
+}
+
+// The text body sent to the model for non-image documents
+export function documentText(doc: PreparedDocument): string {
+  return doc.kind === "pdf" ? pdfText(doc) : doc.text ?? "";
+}
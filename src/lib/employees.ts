@@ -0,0 +1,104 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { createCollection } from "./store";
+import { HttpError } from "./errors";
+import { DEFAULT_PAYROLL, payrollSchema } from "./settings";
+import { Employee, EmployeeInput, PayrollProfile } from "./types";
+
+const employees = createCollection<Employee>("employees");
+
+export const employeeInputSchema: z.ZodType<EmployeeInput, z.ZodTypeDef, unknown> = z
+  .object({
+    name: z.string().trim().min(1, "A name is required"),
+    email: z.string().trim().toLowerCase().email("Expected an email address"),
+    employeeId: z.string().trim().default(""),
+    role: z.enum(["employee", "manager", "admin"]).default("employee"),
+    active: z.boolean().default(true),
+  })
+  .and(payrollSchema);
+
+function parseEmployeeInput(body: unknown): EmployeeInput {
+  const parsed = employeeInputSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new HttpError(400, `Invalid employee: ${parsed.error.issues[0].message}`, {
+      issues: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+    });
+  }
+  return parsed.data;
+}
+
+export async function listEmployees(): Promise<Employee[]> {
+  return (await employees.all()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getEmployee(id: string): Promise<Employee> {
+  const employee = await employees.get(id);
+  if (!employee) throw new HttpError(404, "Employee not found");
+  return employee;
+}
+
+export async function findEmployeeByEmail(email: string): Promise<Employee | null> {
+  const wanted = email.trim().toLowerCase();
+  const employee = (await employees.all()).find((e) => e.email === wanted);
+  return employee ?? null;
+}
+
+async function checkUnique(input: EmployeeInput, id: string | null): Promise<void> {
+  const all = await employees.all();
+  if (all.some((e) => e.id !== id && e.email === input.email)) {
+    throw new HttpError(409, `${input.email} is already in the directory`);
+  }
+  if (input.employeeId && all.some((e) => e.id !== id && e.employeeId === input.employeeId)) {
+    throw new HttpError(409, `Employee ID ${input.employeeId} is already in use`);
+  }
+}
+
+// Someone has to be left who can manage the directory
+async function checkAdminRemains(without: string): Promise<void> {
+  const admins = (await employees.all()).filter((e) => e.id !== without && e.role === "admin" && e.active);
+  if (admins.length === 0) {
+    throw new HttpError(409, "The directory needs at least one active admin");
+  }
+}
+
+export async function createEmployee(body: unknown): Promise<Employee> {
+  const input = parseEmployeeInput(body);
+  await checkUnique(input, null);
+  const now = new Date().toISOString();
+  return employees.put({ ...input, id: randomUUID(), createdAt: now, updatedAt: now });
+}
+
+export async function updateEmployee(id: string, body: unknown): Promise<Employee> {
+  const existing = await getEmployee(id);
+  const input = parseEmployeeInput(body);
+  await checkUnique(input, id);
+  if (existing.role === "admin" && (input.role !== "admin" || !input.active)) {
+    await checkAdminRemains(id);
+  }
+  return employees.put({ ...existing, ...input, updatedAt: new Date().toISOString() });
+}
+
+export async function deleteEmployee(id: string): Promise<void> {
+  const existing = await getEmployee(id);
+  if (existing.role === "admin") await checkAdminRemains(id);
+  await employees.delete(id);
+}
+
+// The address in ADMIN_EMAIL can sign in to set up a directory that has no
+// active admin; nobody else is added by signing in
+export async function bootstrapAdmin(email: string): Promise<Employee | null> {
+  const configured = process.env.ADMIN_EMAIL?.trim().toLowerCase();
+  if (!configured || email.trim().toLowerCase() !== configured) return null;
+  if ((await employees.all()).some((e) => e.role === "admin" && e.active)) return null;
+  return createEmployee({ name: configured.split("@")[0], email: configured, role: "admin" });
+}
+
+// Payroll details for a timesheet's employee; people who aren't in the
+// directory (or were saved before it) get the defaults under their name
+export async function payrollFor(timesheet: {
+  email: string;
+  employeeName: string;
+}): Promise<PayrollProfile & { name: string }> {
+  const employee = timesheet.email ? await findEmployeeByEmail(timesheet.email) : null;
+  return employee ?? { ...DEFAULT_PAYROLL, name: timesheet.employeeName || timesheet.email || "Employee" };
+}
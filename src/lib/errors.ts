@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+// Thrown from lib code that backs API routes; the route turns it into a response
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export function errorResponse(err: unknown, fallback = "Request failed") {
+  if (err instanceof HttpError) {
+    return NextResponse.json({ error: err.message, ...err.details }, { status: err.status });
+  }
+  if (err instanceof SyntaxError) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  console.error(err);
+  const message = err instanceof Error ? err.message : fallback;
+  return NextResponse.json({ error: message }, { status: 500 });
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { createDayScanner, createModelProvider, ExtractionValidationError } from "./extraction";
+import { describeError } from "./pipeline";
+import { PreparedDocument } from "./documents";
+import { CompleteFn, RepairRequest } from "./providers/types";
+
+const doc: PreparedDocument = {
+  kind: "text",
+  filename: "week.txt",
+  contentType: "text/plain",
+  buffer: Buffer.from("Mon 7:30-4"),
+  text: "Mon 7:30-4",
+  fileType: "txt",
+  pageOrImageCount: 1,
+};
+
+const valid = JSON.stringify({
+  employee: { fullName: "Alex Turner" },
+  days: [{ date: "2025-08-04", work: { startTime: "07:30", endTime: "16:00" } }],
+});
+const invalid = JSON.stringify({
+  employee: { fullName: "Alex Turner" },
+  days: [{ date: "2025-08-04", work: { totalHours: 30 } }],
+});
+
+// Answers each call with the next response, remembering what it was asked to repair
+function stub(...responses: string[]) {
+  const repairs: Array<RepairRequest | undefined> = [];
+  const complete: CompleteFn = async (_docs, _prompt, repair) => {
+    repairs.push(repair);
+    return { text: responses[repairs.length - 1], usage: { inputTokens: 100, outputTokens: 50 } };
+  };
+  return { complete, repairs };
+}
+
+describe("createModelProvider", () => {
+  it("asks the model once to fix an answer that doesn't fit the format", async () => {
+    const { complete, repairs } = stub(invalid, `\`\`\`json\n${valid}\n\`\`\``);
+    const usage: number[] = [];
+    const provider = createModelProvider("Stub", "stub-1", complete);
+
+    const result = await provider.extract([doc], "Alex Turner", { onUsage: (u) => usage.push(u.inputTokens) });
+    expect(result.days.map((d) => d.date)).toEqual(["2025-08-04"]);
+    expect(result.source).toEqual({ fileType: "txt", pageOrImageCount: 1 });
+    expect(repairs).toEqual([
+      undefined,
+      { previous: invalid, issues: [{ path: "days.0.work.totalHours", message: "Must be at most 24" }] },
+    ]);
+    expect(usage).toEqual([100, 100]);
+  });
+
+  it("gives up after one repair, which the extract route answers with a 422", async () => {
+    const { complete, repairs } = stub(invalid, "Sorry, I can't read this timesheet.");
+    const provider = createModelProvider("Stub", "stub-1", complete);
+
+    const err = await provider.extract([doc], "Alex Turner").catch((e) => e);
+    expect(err).toBeInstanceOf(ExtractionValidationError);
+    expect(repairs).toHaveLength(2);
+    expect(describeError(err)).toEqual({
+      status: 422,
+      body: {
+        error: "The AI response did not match the timesheet format.",
+        issues: [{ path: "(root)", message: expect.stringMatching(/^Response was not valid JSON/) }],
+      },
+    });
+  });
+});
+
+describe("createDayScanner", () => {
+  // Feeds the text in pieces of `size` characters and collects the days seen
+  function scan(text: string, size: number): unknown[] {
+    const days: unknown[] = [];
+    const feed = createDayScanner((day) => days.push(day));
+    for (let i = 0; i < text.length; i += size) feed(text.slice(i, i + size));
+    return days;
+  }
+
+  const days = [
+    { date: "2025-08-04", notes: 'Site {north} [gate 2], "big" pump', work: { startTime: "07:30" } },
+    { date: "2025-08-05", notes: "Ends with a backslash \\", work: { segments: [{ startTime: "08:00" }] } },
+    { date: "2025-08-06", notes: "}]}" },
+  ];
+  const list = days.map((d) => JSON.stringify(d)).join(", ");
+  const text = `{"employee": {"fullName": "Alex"}, "days" : [${list}], "warnings": []}`;
+
+  it("picks out each day, however the response is split into chunks", () => {
+    for (const size of [1, 2, 3, 7, 64, text.length]) {
+      expect(scan(text, size)).toEqual(days);
+    }
+  });
+
+  it("ignores braces and brackets inside strings, escaped quotes included", () => {
+    expect(scan(text, text.length).map((d) => (d as { notes: string }).notes)).toEqual(days.map((d) => d.notes));
+  });
+
+  it("stops at the end of the days array", () => {
+    const after = `${text.slice(0, -1)}, "extra": [{"date": "not a day"}]}`;
+    expect(scan(after, 5)).toHaveLength(3);
+  });
+
+  it("skips a day that isn't valid JSON on its own and carries on", () => {
+    expect(scan('{"days": [{"date": 2025-08-04}, {"date": "2025-08-05"}]}', 4)).toEqual([{ date: "2025-08-05" }]);
+  });
+});
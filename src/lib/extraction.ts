@@ -0,0 +1,142 @@
+import { AIExtractionResult, ExtractionIssue } from "./types";
+import { ValidateResult, validateDay, validateExtraction } from "./schema";
+import { buildPrompt } from "./prompt";
+import { PreparedDocument } from "./documents";
+import { CompleteFn, ExtractionProvider, RepairRequest } from "./providers/types";
+
+export class ExtractionValidationError extends Error {
+  constructor(public issues: ExtractionIssue[]) {
+    super("The AI response did not match the timesheet format.");
+    this.name = "ExtractionValidationError";
+  }
+}
+
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderConfigError";
+  }
+}
+
+export function extractJSON(raw: string): unknown {
+  // Strip markdown code fences if the AI wrapped the response
+  let cleaned = raw.trim();
+  const fenceMatch = cleaned.match(/^```(?:json)?\s*\n?([\s\S]*?)\n?\s*```$/);
+  if (fenceMatch) {
+    cleaned = fenceMatch[1].trim();
+  }
+  return JSON.parse(cleaned);
+}
+
+export function parseAndValidate(raw: string): ValidateResult {
+  let json: unknown;
+  try {
+    json = extractJSON(raw);
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : "parse error";
+    return { success: false, issues: [{ path: "(root)", message: `Response was not valid JSON: ${detail}` }] };
+  }
+  return validateExtraction(json);
+}
+
+// Picks whole day objects out of a response that is still streaming in, so
+// days can be shown before the model has finished writing the rest
+export function createDayScanner(onDay: (raw: unknown) => void): (chunk: string) => void {
+  let text = "";
+  let pos = -1; // next character to look at inside the days array; -1 until it's found
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let objectStart = 0;
+  let finished = false;
+
+  return (chunk) => {
+    text += chunk;
+    if (finished) return;
+    if (pos === -1) {
+      const match = /"days"\s*:\s*\[/.exec(text);
+      if (!match) return;
+      pos = match.index + match[0].length;
+    }
+
+    for (; pos < text.length; pos++) {
+      const ch = text[pos];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === "\\") escaped = true;
+        else if (ch === '"') inString = false;
+      } else if (ch === '"') {
+        inString = true;
+      } else if (ch === "{") {
+        if (depth++ === 0) objectStart = pos;
+      } else if (ch === "}") {
+        if (--depth === 0) {
+          try {
+            onDay(JSON.parse(text.slice(objectStart, pos + 1)));
+          } catch {
+            // Not valid JSON on its own; the full response is validated at the end anyway
+          }
+        }
+      } else if (ch === "]" && depth === 0) {
+        finished = true;
+        return;
+      }
+    }
+  };
+}
+
+// The server knows what it was given better than the model does
+export function withSource(result: AIExtractionResult, docs: PreparedDocument[]): AIExtractionResult {
+  const fileTypes = Array.from(new Set(docs.map((d) => d.fileType)));
+  return {
+    ...result,
+    source: {
+      fileType: fileTypes.join("+"),
+      pageOrImageCount: docs.reduce((sum, d) => sum + d.pageOrImageCount, 0),
+    },
+  };
+}
+
+// Wraps a raw model call with prompting, schema validation and one repair retry
+export function createModelProvider(name: string, model: string, complete: CompleteFn): ExtractionProvider {
+  return {
+    name,
+    model,
+    async extract(docs, employeeName, context = {}): Promise<AIExtractionResult> {
+      const prompt = buildPrompt(employeeName, docs.length, context.jobs);
+      const names = docs.map((d) => d.filename).join(", ");
+
+      async function call(repair?: RepairRequest): Promise<string> {
+        const { onDay } = context;
+        const onText = onDay
+          ? createDayScanner((raw) => {
+              const day = validateDay(raw);
+              if (day) onDay(day);
+            })
+          : undefined;
+        const completion = await complete(docs, prompt, repair, { signal: context.signal, onText });
+        context.onUsage?.(completion.usage);
+        return completion.text;
+      }
+
+      context.onStage?.("calling", `Reading ${names} with ${name}`);
+      const raw = await call();
+      context.onStage?.("validating", `Checking what ${name} read from ${names}`);
+      let outcome = parseAndValidate(raw);
+
+      // Hand the model its own output and the validation errors
+      if (!outcome.success) {
+        console.warn(`[extract] ${name} response failed validation, requesting repair:`, outcome.issues);
+        context.onStage?.("repairing", `Asking ${name} to fix its answer for ${names}`);
+        const repaired = await call({ previous: raw, issues: outcome.issues });
+        context.onStage?.("validating", `Checking the fixed answer for ${names}`);
+        outcome = parseAndValidate(repaired);
+      }
+
+      if (!outcome.success) {
+        throw new ExtractionValidationError(outcome.issues);
+      }
+      return withSource(outcome.data, docs);
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { calculatedHours, dayHours, workedMinutes } from "./hours";
+import { generateWeekDays } from "./dates";
+import { DEFAULT_ROUNDING } from "./settings";
+import { DayEntry, RoundingPolicy, WorkSegment } from "./types";
+
+function policy(method: RoundingPolicy["method"], scope: RoundingPolicy["scope"]): RoundingPolicy {
+  return { increment: 15, method, scope };
+}
+
+function segment(startTime: string, endTime: string, breakMinutes = "0"): WorkSegment {
+  return { startTime, endTime, breakMinutes };
+}
+
+function day(...segments: WorkSegment[]): DayEntry {
+  const [first] = generateWeekDays("2025-08-04");
+  return { ...first, segments };
+}
+
+// Two segments a few minutes off the quarter hour at each end
+const split = [segment("07:53", "12:07"), segment("12:53", "17:07")];
+
+describe("workedMinutes", () => {
+  it("takes the break off each segment and never goes negative", () => {
+    const segments = [segment("08:00", "16:30", "30"), segment("17:00", "17:10", "20")];
+    expect(workedMinutes(segments, DEFAULT_ROUNDING)).toEqual([480, 0]);
+  });
+
+  it("skips segments without both times", () => {
+    expect(workedMinutes([segment("08:00", ""), segment("09:00", "10:00")], DEFAULT_ROUNDING)).toEqual([60]);
+    expect(workedMinutes([], DEFAULT_ROUNDING)).toEqual([]);
+  });
+
+  it("rounds each segment's worked time to the nearest increment", () => {
+    expect(workedMinutes(split, policy("nearest", "segment"))).toEqual([255, 255]);
+  });
+
+  it("leaves the segments alone when the whole day is rounded to the nearest increment", () => {
+    expect(workedMinutes(split, policy("nearest", "day"))).toEqual([254, 254]);
+  });
+
+  it("rounds every start up and every end down per segment", () => {
+    expect(workedMinutes(split, policy("startUpEndDown", "segment"))).toEqual([240, 240]);
+  });
+
+  it("only rounds the day's first start and last end for a whole-day clock policy", () => {
+    expect(workedMinutes(split, policy("startUpEndDown", "day"))).toEqual([247, 247]);
+  });
+
+  it("runs an overnight segment into the next day before rounding", () => {
+    const night = [segment("21:53", "06:07", "30")];
+    expect(workedMinutes(night, DEFAULT_ROUNDING)).toEqual([464]);
+    expect(workedMinutes(night, policy("startUpEndDown", "segment"))).toEqual([450]);
+    expect(workedMinutes(night, policy("nearest", "segment"))).toEqual([465]);
+  });
+});
+
+describe("calculatedHours", () => {
+  it("adds up the segments unrounded by default", () => {
+    expect(calculatedHours(day(...split))).toBeCloseTo(508 / 60);
+  });
+
+  it("applies each of the rounding policies", () => {
+    // 08:00–12:08 and 13:00–17:08: 248 minutes each, which round differently apart and together
+    const late = day(segment("08:00", "12:08"), segment("13:00", "17:08"));
+    expect(calculatedHours(late, policy("nearest", "segment"))).toBe(8.5);
+    expect(calculatedHours(late, policy("nearest", "day"))).toBe(8.25);
+    expect(calculatedHours(day(...split), policy("startUpEndDown", "segment"))).toBe(8);
+    expect(calculatedHours(day(...split), policy("startUpEndDown", "day"))).toBeCloseTo(494 / 60);
+  });
+
+  it("counts an overnight shift's hours on the day it started", () => {
+    expect(calculatedHours(day(segment("22:00", "06:00", "30")))).toBe(7.5);
+    expect(calculatedHours(day(segment("18:00", "22:00"), segment("23:00", "03:00")))).toBe(8);
+  });
+
+  it("ignores rounding when the increment is off", () => {
+    expect(calculatedHours(day(...split), { ...policy("nearest", "day"), increment: 0 })).toBeCloseTo(508 / 60);
+  });
+});
+
+describe("dayHours", () => {
+  it("takes the stated hours over the times", () => {
+    expect(dayHours({ ...day(...split), totalHours: "7" })).toBe(7);
+    expect(dayHours(day(...split), policy("startUpEndDown", "segment"))).toBe(8);
+  });
+});
@@ -0,0 +1,106 @@
+import { DayEntry, RoundingPolicy, WorkSegment } from "./types";
+import { DEFAULT_ROUNDING } from "./settings";
+
+// Every hours figure in the app (grid, summary, rules, exports, API) comes
+// from here, so they can't disagree about breaks, overnight shifts or rounding.
+
+export function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+export function emptySegment(): WorkSegment {
+  return { startTime: "", endTime: "", breakMinutes: "" };
+}
+
+export function isOvernight(segment: WorkSegment): boolean {
+  return !!segment.startTime && !!segment.endTime && toMinutes(segment.endTime) <= toMinutes(segment.startTime);
+}
+
+// Start and end in minutes from the day's midnight; overnight ends land on the next day
+export function segmentBounds(segment: WorkSegment): { start: number; end: number } | null {
+  if (!segment.startTime || !segment.endTime) return null;
+  const start = toMinutes(segment.startTime);
+  let end = toMinutes(segment.endTime);
+  if (end <= start) end += 24 * 60;
+  return { start, end };
+}
+
+// Elapsed hours from start to end, before the break
+export function segmentSpan(segment: WorkSegment): number {
+  const bounds = segmentBounds(segment);
+  return bounds ? (bounds.end - bounds.start) / 60 : 0;
+}
+
+function breakOf(segment: WorkSegment): number {
+  return Math.max(0, parseFloat(segment.breakMinutes) || 0);
+}
+
+// Unrounded hours worked in one segment, never negative
+export function segmentHours(segment: WorkSegment): number {
+  if (!segmentBounds(segment)) return 0;
+  return Math.max(0, segmentSpan(segment) - breakOf(segment) / 60);
+}
+
+function roundMinutes(minutes: number, increment: number, direction: "nearest" | "up" | "down"): number {
+  if (increment <= 1) return minutes;
+  const round = direction === "up" ? Math.ceil : direction === "down" ? Math.floor : Math.round;
+  return round(minutes / increment) * increment;
+}
+
+// Minutes worked in each timed segment. Clock rounding applies to every
+// segment, or for a whole-day policy only to the day's first start and last end.
+export function workedMinutes(segments: WorkSegment[], policy: RoundingPolicy): number[] {
+  const timed = segments.flatMap((segment) => {
+    const bounds = segmentBounds(segment);
+    return bounds ? [{ ...bounds, breakMinutes: breakOf(segment) }] : [];
+  });
+  const clock = policy.method === "startUpEndDown";
+  const first = Math.min(...timed.map((t) => t.start));
+  const last = Math.max(...timed.map((t) => t.end));
+
+  return timed.map(({ start, end, breakMinutes }) => {
+    if (clock && (policy.scope === "segment" || start === first)) start = roundMinutes(start, policy.increment, "up");
+    if (clock && (policy.scope === "segment" || end === last)) end = roundMinutes(end, policy.increment, "down");
+    const worked = Math.max(0, end - start - breakMinutes);
+    return !clock && policy.scope === "segment" ? roundMinutes(worked, policy.increment, "nearest") : worked;
+  });
+}
+
+// Hours worked according to the times alone, rounded by the policy
+export function calculatedHours(day: DayEntry, policy: RoundingPolicy = DEFAULT_ROUNDING): number {
+  const minutes = workedMinutes(day.segments, policy).reduce((sum, m) => sum + m, 0);
+  const rounded =
+    policy.method === "nearest" && policy.scope === "day"
+      ? roundMinutes(minutes, policy.increment, "nearest")
+      : minutes;
+  return rounded / 60;
+}
+
+// Stated hours win as typed; otherwise the hours come from the times
+export function dayHours(day: DayEntry, policy: RoundingPolicy = DEFAULT_ROUNDING): number {
+  const stated = parseFloat(day.totalHours) || 0;
+  if (stated) return Math.max(0, stated);
+  return calculatedHours(day, policy);
+}
+
+export function periodHours(days: DayEntry[], policy: RoundingPolicy = DEFAULT_ROUNDING): number {
+  return days.reduce((sum, day) => sum + dayHours(day, policy), 0);
+}
+
+// Whether anyone has entered a time; a break on its own (the employee's
+// default) doesn't count
+export function hasTimes(segments: WorkSegment[]): boolean {
+  return segments.some((s) => s.startTime || s.endTime);
+}
+
+export function describeSegments(segments: WorkSegment[]): string {
+  return segments
+    .map((s) => {
+      const times = s.startTime || s.endTime ? `${s.startTime || "?"}–${s.endTime || "?"}` : "";
+      const brk = s.breakMinutes && parseFloat(s.breakMinutes) ? `${s.breakMinutes} min break` : "";
+      return times && brk ? `${times} (${brk})` : times || brk;
+    })
+    .filter(Boolean)
+    .join(", ");
+}
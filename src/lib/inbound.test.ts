@@ -0,0 +1,178 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { InboundReply, receiveTimesheetEmail } from "./inbound";
+import { parseEmail } from "./mime";
+import { createEmployee } from "./employees";
+import { generateWeekDays } from "./dates";
+import { emptyValidation } from "./signOff";
+import { createTimesheet, getTimesheet, transitionTimesheet } from "./timesheets";
+import { TimesheetInput } from "./types";
+
+const ORIGIN = "https://timesheets.example.com";
+const RECEIVED_AT = "2025-02-07T07:00:00.000Z";
+
+async function fixture(name: string) {
+  return parseEmail(await readFile(path.join("fixtures/email", name)));
+}
+
+let dir: string;
+let replies: Array<{ to: string; reply: InboundReply }>;
+const reply = async (to: string, sent: InboundReply) => {
+  replies.push({ to, reply: sent });
+};
+
+// Replays the default recording with whatever the test needs on top
+async function recording(changes: Record<string, unknown> = {}) {
+  const recorded = JSON.parse(await readFile("fixtures/extractions/default.json", "utf-8"));
+  await writeFile(path.join(dir, "replay", "default.json"), JSON.stringify({ ...recorded, ...changes }));
+}
+
+function draft(overrides: Partial<TimesheetInput> = {}): TimesheetInput {
+  return {
+    email: "alex@example.com",
+    employeeName: "Alex Turner",
+    weekStartDate: "2025-02-03",
+    days: generateWeekDays("2025-02-03"),
+    extraction: null,
+    confidences: {},
+    warnings: [],
+    conflicts: [],
+    validation: null,
+    ...overrides,
+  };
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "inbound-"));
+  process.env.DATA_DIR = dir;
+  process.env.AI_PROVIDER = "replay";
+  process.env.AI_REPLAY_DIR = path.join(dir, "replay");
+  await mkdir(process.env.AI_REPLAY_DIR);
+  replies = [];
+  await recording();
+  await createEmployee({ name: "Alex Turner", email: "alex@example.com", defaultBreakMinutes: 30 });
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("parseEmail", () => {
+  it("reads the sender, encoded subject and attachment of the fixture", async () => {
+    const email = await fixture("timesheet.eml");
+    expect(email.from).toEqual({ name: "Alex Turner", address: "alex@example.com" });
+    expect(email.subject).toBe("Timesheet – week of 3 Feb");
+    expect(email.messageId).toBe("fixture-timesheet@example.com");
+    expect(email.text).toContain("this week’s sheet attached");
+    expect(email.attachments).toHaveLength(1);
+    expect(email.attachments[0]).toMatchObject({ filename: "timesheet week 6.png", contentType: "image/png" });
+    expect(email.attachments[0].data.subarray(1, 4).toString()).toBe("PNG");
+  });
+});
+
+describe("receiveTimesheetEmail", () => {
+  it("ignores senders outside the directory without replying", async () => {
+    const result = await receiveTimesheetEmail(await fixture("unknown-sender.eml"), { origin: ORIGIN, reply });
+    expect(result.status).toBe("rejected");
+    expect(replies).toEqual([]);
+  });
+
+  it("reads the attachment into a new draft and replies with a link", async () => {
+    const result = await receiveTimesheetEmail(await fixture("timesheet.eml"), {
+      origin: ORIGIN,
+      reply,
+      receivedAt: RECEIVED_AT,
+    });
+    expect(result.status).toBe("saved");
+
+    const saved = await getTimesheet(result.timesheetId!);
+    expect(saved.status).toBe("draft");
+    expect(saved.days[0].segments[0]).toMatchObject({ startTime: "07:30", endTime: "16:00" });
+    expect(saved.days[0].provenance.segments).toMatchObject({ source: "import" });
+    expect(saved.validation?.supervisor.name).toBe("Dave Wilson");
+    expect(saved.inbound).toMatchObject({ from: "alex@example.com", receivedAt: RECEIVED_AT });
+    expect(saved.inbound?.files).toEqual(["timesheet week 6.png"]);
+
+    expect(replies).toHaveLength(1);
+    expect(replies[0].to).toBe("alex@example.com");
+    expect(replies[0].reply.subject).toBe("Re: Timesheet – week of 3 Feb");
+    expect(replies[0].reply.link).toBe(`${ORIGIN}/`);
+  });
+
+  it("fills the blanks of an existing draft and keeps what's already there", async () => {
+    const days = generateWeekDays("2025-02-03");
+    days[0].segments = [{ startTime: "08:00", endTime: "17:00", breakMinutes: "30" }];
+    const validation = emptyValidation();
+    validation.supervisor.name = "Sam Lee";
+    const earlier = { date: "2025-02-03", field: "kilometers" as const, values: [], chosen: 40 };
+    await createTimesheet(draft({ days, validation, conflicts: [earlier], warnings: ["Typed in by Alex"] }));
+    await recording({
+      validation: { ...emptyValidation(), supervisor: { name: "Dave Wilson", signature: "DW" } },
+      warnings: ["Smudged on Friday"],
+      conflicts: [
+        {
+          date: "2025-02-03",
+          field: "endTime",
+          values: [
+            { source: "a.png", value: "16:00", confidence: 0.5 },
+            { source: "b.png", value: "16:30", confidence: 0.6 },
+          ],
+        },
+        {
+          date: "2025-02-04",
+          field: "endTime",
+          values: [
+            { source: "a.png", value: "15:30", confidence: 0.5 },
+            { source: "b.png", value: "15:00", confidence: 0.6 },
+          ],
+        },
+      ],
+    });
+
+    const result = await receiveTimesheetEmail(await fixture("timesheet.eml"), { origin: ORIGIN, reply });
+    const saved = await getTimesheet(result.timesheetId!);
+    expect(saved.days[0].segments[0]).toMatchObject({ startTime: "08:00", endTime: "17:00" });
+    expect(saved.days[1].segments[0]).toMatchObject({ startTime: "07:00" });
+    expect(saved.validation?.supervisor).toEqual({ name: "Sam Lee", signature: "DW" });
+    // Monday was kept, so only Tuesday's disagreement is about a value on the sheet
+    expect(saved.conflicts.map((c) => [c.date, c.field])).toEqual([
+      ["2025-02-03", "kilometers"],
+      ["2025-02-04", "endTime"],
+    ]);
+    expect(saved.warnings).toEqual(expect.arrayContaining(["Typed in by Alex", "Smudged on Friday"]));
+  });
+
+  it("merges the extraction of an earlier email instead of replacing it", async () => {
+    const first = await receiveTimesheetEmail(await fixture("timesheet.eml"), { origin: ORIGIN, reply });
+    const before = await getTimesheet(first.timesheetId!);
+    await recording({
+      days: [{ date: "2025-02-08", work: { totalHours: 4 }, confidence: { overall: 0.9, fields: {} } }],
+      validation: { ...emptyValidation(), approver: { name: "Pat Ng", date: "2025-02-09" } },
+    });
+
+    // Another photo, so the first reading isn't served from the cache
+    const second = await fixture("timesheet.eml");
+    second.attachments[0].data = Buffer.concat([second.attachments[0].data, Buffer.from([0])]);
+    await receiveTimesheetEmail(second, { origin: ORIGIN, reply });
+    const saved = await getTimesheet(first.timesheetId!);
+    expect(saved.extraction?.days.map((d) => d.date)).toEqual([
+      ...before.extraction!.days.map((d) => d.date),
+      "2025-02-08",
+    ]);
+    expect(saved.extraction?.validation.supervisor.name).toBe("Dave Wilson");
+    expect(saved.validation?.approver).toEqual({ name: "Pat Ng", date: "2025-02-09" });
+  });
+
+  it("replies with the reason when the period has already been submitted", async () => {
+    const created = await createTimesheet(draft());
+    await transitionTimesheet(created.id, "submit", "alex@example.com");
+
+    const result = await receiveTimesheetEmail(await fixture("timesheet.eml"), { origin: ORIGIN, reply });
+    expect(result.status).toBe("rejected");
+    expect(result.message).toContain("already submitted");
+    expect(replies[0].reply.text).toContain(`upload it yourself here: ${ORIGIN}/`);
+    expect(replies[0].reply.link).toBeNull();
+  });
+});
@@ -0,0 +1,276 @@
+import { z } from "zod";
+import { HttpError } from "./errors";
+import { detectFormat, olderOfficeMessage } from "./documents";
+import { findEmployeeByEmail } from "./employees";
+import { sendMail } from "./mail";
+import { MimeParseError, ParsedEmail, parseAddress, parseEmail } from "./mime";
+import {
+  describeError,
+  ExtractRequest,
+  MAX_FILE_BYTES,
+  MAX_FILES,
+  MODEL_TIMEOUT_SECONDS,
+  reserveExtraction,
+  runExtraction,
+} from "./pipeline";
+import { appliedConfidences, applyReview, buildReview, ReviewField, ReviewSelection, selectEmptyOnly } from "./review";
+import { fillValidation } from "./signOff";
+import { getSettings } from "./settingsStore";
+import { generateWeekDays, getPeriodStart } from "./dates";
+import { createTimesheet, getTimesheet, timesheetId, updateTimesheet } from "./timesheets";
+import { isEditable } from "./workflow";
+import { AIExtractionResult, AIWorkField, InboundNote, TimesheetInput, TimesheetRecord } from "./types";
+
+// Mail providers either forward the raw message or post it already parsed
+const webhookSchema = z.union([
+  z.object({ raw: z.string().min(1) }),
+  z.object({
+    from: z.string(),
+    subject: z.string().default(""),
+    messageId: z.string().default(""),
+    text: z.string().default(""),
+    attachments: z
+      .array(
+        z.object({
+          filename: z.string(),
+          contentType: z.string().default("application/octet-stream"),
+          content: z.string(), // base64
+        })
+      )
+      .default([]),
+  }),
+]);
+
+export function parseInboundRequest(contentType: string, body: Buffer): ParsedEmail {
+  try {
+    if (!contentType.includes("json")) return parseEmail(body);
+
+    const parsed = webhookSchema.safeParse(JSON.parse(body.toString("utf8")));
+    if (!parsed.success) {
+      throw new HttpError(400, `Invalid inbound email: ${parsed.error.issues[0].message}`);
+    }
+    const message = parsed.data;
+    if ("raw" in message) return parseEmail(message.raw);
+    return {
+      from: parseAddress(message.from),
+      subject: message.subject,
+      messageId: message.messageId,
+      text: message.text,
+      attachments: message.attachments.map((a) => ({
+        filename: a.filename,
+        contentType: a.contentType.toLowerCase(),
+        data: Buffer.from(a.content, "base64"),
+      })),
+    };
+  } catch (err) {
+    if (err instanceof MimeParseError || err instanceof SyntaxError) {
+      throw new HttpError(400, `Couldn't read the message: ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+export interface InboundReply {
+  subject: string;
+  text: string;
+  link: string | null;
+}
+
+// How the sender hears back; swap it out to reply through the mail provider
+export type ReplyHook = (to: string, reply: InboundReply) => Promise<void>;
+
+export const mailReply: ReplyHook = async (to, reply) => {
+  await sendMail({ to, ...reply });
+};
+
+export interface InboundResult {
+  status: "saved" | "rejected";
+  message: string;
+  timesheetId: string | null;
+}
+
+function replySubject(subject: string): string {
+  return /^re:/i.test(subject) ? subject : `Re: ${subject || "Your timesheet"}`;
+}
+
+// The period most of the extracted days fall in
+function busiestPeriod(result: AIExtractionResult, period: Parameters<typeof getPeriodStart>[1]): string | null {
+  const counts = new Map<string, number>();
+  for (const day of result.days) {
+    const start = getPeriodStart(day.date, period);
+    counts.set(start, (counts.get(start) ?? 0) + 1);
+  }
+  return Array.from(counts).sort((a, b) => b[1] - a[1] || b[0].localeCompare(a[0]))[0]?.[0] ?? null;
+}
+
+// The grid cell each kind of conflict is about
+const CONFLICT_CELLS: Record<AIWorkField, ReviewField> = {
+  startTime: "segments",
+  endTime: "segments",
+  breakMinutes: "segments",
+  totalHours: "totalHours",
+  kilometers: "kilometers",
+};
+
+// Folds an emailed reading into what the draft already holds, the same way as
+// the grid: earlier readings and sign-off details stay, the email only adds
+// days and details that were missing, and its conflicts are kept only for the
+// cells it filled.
+function mergeIntoDraft(
+  existing: TimesheetRecord | null,
+  result: AIExtractionResult,
+  selection: ReviewSelection
+): Pick<TimesheetInput, "extraction" | "conflicts" | "validation"> {
+  const conflicts = (result.conflicts ?? []).filter((c) => selection[c.date]?.[CONFLICT_CELLS[c.field]]);
+  if (!existing) return { extraction: result, conflicts, validation: result.validation };
+
+  const previous = existing.extraction;
+  const extraction: AIExtractionResult = previous
+    ? {
+        ...previous,
+        days: [...previous.days, ...result.days.filter((d) => !previous.days.some((p) => p.date === d.date))].sort(
+          (a, b) => a.date.localeCompare(b.date)
+        ),
+        validation: fillValidation(previous.validation, result.validation)!,
+        warnings: Array.from(new Set([...previous.warnings, ...result.warnings])),
+        conflicts: [...(previous.conflicts ?? []), ...conflicts],
+      }
+    : { ...result, conflicts };
+  return {
+    extraction,
+    conflicts: [...existing.conflicts, ...conflicts],
+    validation: fillValidation(existing.validation, result.validation),
+  };
+}
+
+// Reads the attachments of an emailed timesheet into the sender's draft for
+// that period. Only blank cells are filled, so nothing already entered is
+// overwritten, and the draft waits for the employee to check and submit it.
+// Senders outside the directory are ignored without a reply, since the From
+// address is easy to forge.
+export async function receiveTimesheetEmail(
+  email: ParsedEmail,
+  options: { reply?: ReplyHook; origin: string; receivedAt?: string }
+): Promise<InboundResult> {
+  const reply = options.reply ?? mailReply;
+  const receivedAt = options.receivedAt ?? new Date().toISOString();
+  const subject = replySubject(email.subject);
+
+  const employee = email.from ? await findEmployeeByEmail(email.from.address) : null;
+  if (!employee?.active) {
+    console.log(`[inbound] ignored mail from ${email.from?.address ?? "an unknown sender"}`);
+    return { status: "rejected", message: "The sender isn't an active employee in the directory", timesheetId: null };
+  }
+
+  const rejected = async (message: string): Promise<InboundResult> => {
+    await reply(employee.email, {
+      subject,
+      text: [
+        `Hi ${employee.name},`,
+        "",
+        `We couldn't add your emailed timesheet: ${message}.`,
+        "",
+        `You can upload it yourself here: ${options.origin}/`,
+      ].join("\n"),
+      link: null,
+    });
+    return { status: "rejected", message, timesheetId: null };
+  };
+
+  const skipped: string[] = [];
+  const files = email.attachments
+    .filter((a) => {
+      if (!detectFormat(a.contentType, a.filename)) {
+        const older = olderOfficeMessage(a.filename);
+        if (older) skipped.push(older);
+        return false; // signatures, calendar invites and the like
+      }
+      if (a.data.length > MAX_FILE_BYTES) skipped.push(`${a.filename} is too large (max 20MB)`);
+      return a.data.length <= MAX_FILE_BYTES;
+    })
+    .map((a) => new File([new Uint8Array(a.data)], a.filename, { type: a.contentType }));
+  if (files.length > MAX_FILES) {
+    skipped.push(`Only the first ${MAX_FILES} attachments were read`);
+    files.splice(MAX_FILES);
+  }
+  if (files.length === 0) {
+    return rejected(skipped[0] ?? "there was no photo, PDF or spreadsheet of a timesheet attached");
+  }
+
+  let result: AIExtractionResult;
+  try {
+    const request: ExtractRequest = {
+      files,
+      callerId: employee.id,
+      employeeName: employee.name,
+      mode: "together",
+      force: false,
+      ip: `email:${employee.email}`,
+    };
+    const usageId = await reserveExtraction(request);
+    const signal = AbortSignal.timeout(MODEL_TIMEOUT_SECONDS * 1000);
+    ({ result } = await runExtraction(request, usageId, () => {}, signal));
+  } catch (err) {
+    return rejected(describeError(err).body.error);
+  }
+
+  const settings = await getSettings();
+  const weekStartDate = busiestPeriod(result, settings.period);
+  if (!weekStartDate) return rejected("no days could be read from the attachments");
+
+  const id = timesheetId({ email: employee.email, employeeName: employee.name, weekStartDate });
+  const existing = await getTimesheet(id).catch(() => null);
+  if (existing && !isEditable(existing.status)) {
+    return rejected(`your timesheet for the period starting ${weekStartDate} is already ${existing.status}`);
+  }
+
+  const current = existing?.days ?? generateWeekDays(weekStartDate, settings.period, employee);
+  const review = buildReview(current, result);
+  const selection = selectEmptyOnly(review);
+  const days = applyReview(current, review, selection, receivedAt, "import");
+
+  const confidences = { ...existing?.confidences };
+  for (const [date, fields] of Object.entries(appliedConfidences(review, selection))) {
+    confidences[date] = { ...confidences[date], ...fields };
+  }
+  const filled = review.days.filter((d) => d.changes.some((c) => selection[d.date]?.[c.field])).length;
+  const kept = review.days.reduce((n, d) => n + d.changes.filter((c) => !selection[d.date]?.[c.field]).length, 0);
+  const notes = [
+    ...skipped,
+    ...(review.outsidePeriod.length ? [`${review.outsidePeriod.length} day(s) outside this period were left out`] : []),
+    ...(kept ? [`${kept} value(s) already entered were kept`] : []),
+  ];
+
+  const input: TimesheetInput = {
+    email: employee.email,
+    employeeName: employee.name,
+    weekStartDate,
+    days,
+    confidences,
+    warnings: Array.from(new Set([...(existing?.warnings ?? []), ...(result.warnings ?? []), ...notes])),
+    ...mergeIntoDraft(existing, result, selection),
+  };
+  const note: InboundNote = {
+    from: employee.email,
+    subject: email.subject,
+    receivedAt,
+    files: files.map((f) => f.name),
+  };
+  const saved = existing ? await updateTimesheet(id, input, note) : await createTimesheet(input, note);
+  console.log(`[inbound] ${employee.email}: read ${filled} day(s) into ${saved.id}`);
+
+  const message = `Read ${filled} day(s) into the draft for the period starting ${weekStartDate}`;
+  await reply(employee.email, {
+    subject,
+    text: [
+      `Hi ${employee.name},`,
+      "",
+      `Thanks, we've read ${filled} day(s) from your email into your timesheet for the period starting ${weekStartDate}.`,
+      ...notes.map((n) => `- ${n}`),
+      "",
+      `It's saved as a draft. Check it and submit it here: ${options.origin}/`,
+    ].join("\n"),
+    link: `${options.origin}/`,
+  });
+  return { status: "saved", message, timesheetId: saved.id };
+}
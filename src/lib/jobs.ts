@@ -0,0 +1,104 @@
+import { AIExtractionResult, DayEntry, Job, JobAllocation, RoundingPolicy } from "./types";
+import { dayHours } from "./hours";
+import { DEFAULT_ROUNDING } from "./settings";
+
+export interface JobHours {
+  jobCode: string | null; // null for hours not booked to any job
+  hours: number;
+}
+
+export function findJob(jobs: Job[], code: string): Job | undefined {
+  const key = code.trim().toLowerCase();
+  return jobs.find((j) => j.code.toLowerCase() === key);
+}
+
+export function jobLabel(job: Job): string {
+  const name = [job.client, job.project].filter(Boolean).join(" / ");
+  return name ? `${job.code} — ${name}` : job.code;
+}
+
+export function describeAllocations(allocations: JobAllocation[]): string {
+  return allocations
+    .filter((a) => a.jobCode)
+    .map((a) => (a.hours ? `${a.jobCode} ${a.hours}h` : a.jobCode))
+    .join(", ");
+}
+
+function addHours(lines: JobHours[], jobCode: string | null, hours: number) {
+  if (hours <= 0) return;
+  const existing = lines.find((l) => l.jobCode === jobCode);
+  if (existing) existing.hours += hours;
+  else lines.push({ jobCode, hours });
+}
+
+// Splits a day's hours across its jobs. Lines with hours take them first, lines
+// left blank share what's left, and anything still over is unallocated.
+export function allocateDay(day: DayEntry, rounding: RoundingPolicy = DEFAULT_ROUNDING): JobHours[] {
+  const total = dayHours(day, rounding);
+  const lines: JobHours[] = [];
+  const open: string[] = [];
+  let remaining = total;
+
+  for (const allocation of day.allocations) {
+    if (!allocation.jobCode) continue;
+    const hours = parseFloat(allocation.hours);
+    if (isNaN(hours)) {
+      open.push(allocation.jobCode);
+      continue;
+    }
+    const taken = Math.min(Math.max(0, hours), remaining);
+    addHours(lines, allocation.jobCode, taken);
+    remaining -= taken;
+  }
+
+  if (open.length) {
+    open.forEach((code) => addHours(lines, code, remaining / open.length));
+  } else {
+    addHours(lines, null, remaining);
+  }
+  return lines;
+}
+
+// Period totals per job, for the summary
+export function totalByJob(days: DayEntry[], rounding: RoundingPolicy = DEFAULT_ROUNDING): JobHours[] {
+  const totals: JobHours[] = [];
+  days.forEach((day) => allocateDay(day, rounding).forEach((l) => addHours(totals, l.jobCode, l.hours)));
+  return totals;
+}
+
+function mentions(text: string, value: string): boolean {
+  const escaped = value.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return !!escaped && new RegExp(`(?<!\\w)${escaped}(?!\\w)`, "i").test(text);
+}
+
+// Active jobs whose code, client or project appears in the text
+export function matchJobs(text: string, jobs: Job[]): Job[] {
+  if (!text.trim()) return [];
+  return jobs.filter(
+    (job) => job.active && [job.code, job.client, job.project].some((value) => value && mentions(text, value))
+  );
+}
+
+// Keeps the model's allocations that name a known job (with the code as the
+// job list spells it) and fills days it left unallocated from the notes or
+// the sheet's client and project. Only a single clear match is used; several
+// matches without hours would be a guess.
+export function assignJobs(result: AIExtractionResult, jobs: Job[]): AIExtractionResult {
+  if (jobs.length === 0) return result;
+  const sheet = [result.validation.client.name, result.validation.client.project].filter(Boolean).join(" ");
+
+  return {
+    ...result,
+    days: result.days.map((day) => {
+      const allocations = day.allocations.flatMap((a) => {
+        const job = findJob(jobs, a.jobCode);
+        return job ? [{ jobCode: job.code, hours: a.hours }] : [];
+      });
+      if (allocations.length) return { ...day, allocations };
+
+      const fromNotes = matchJobs(day.notes ?? "", jobs);
+      const matches = fromNotes.length ? fromNotes : matchJobs(sheet, jobs);
+      return { ...day, allocations: matches.length === 1 ? [{ jobCode: matches[0].code, hours: null }] : [] };
+    }),
+  };
+}
@@ -0,0 +1,26 @@
+import { randomUUID } from "crypto";
+import { createCollection } from "./store";
+import { OutboxMessage } from "./types";
+
+const outbox = createCollection<OutboxMessage>("outbox");
+
+// A message's link may sign someone in, so in production it's kept out of the
+// outbox and the log
+function withheld(message: OutboxMessage): OutboxMessage {
+  if (!message.link) return message;
+  return { ...message, text: message.text.split(message.link).join("[link withheld]"), link: null };
+}
+
+// There's no mail provider yet: messages land in a local outbox and the
+// server log instead, which is enough to sign in during development
+export async function sendMail(message: Omit<OutboxMessage, "id" | "sentAt">): Promise<OutboxMessage> {
+  const sent = { ...message, id: randomUUID(), sentAt: new Date().toISOString() };
+  const kept = process.env.NODE_ENV !== "production" ? sent : withheld(sent);
+  await outbox.put(kept);
+  console.log(`[mail] to ${kept.to}: ${kept.subject}${kept.link ? `\n  ${kept.link}` : ""}`);
+  return sent;
+}
+
+export async function listOutbox(limit = 20): Promise<OutboxMessage[]> {
+  return (await outbox.all()).sort((a, b) => b.sentAt.localeCompare(a.sentAt)).slice(0, limit);
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { mergeExtractions } from "./merge";
+import { validateExtraction } from "./schema";
+import { AIExtractionResult } from "./types";
+
+// Builds a result the way the model's JSON comes through validation
+function extraction(raw: Record<string, unknown>): AIExtractionResult {
+  const parsed = validateExtraction({ employee: { fullName: "Alex Turner" }, ...raw });
+  if (!parsed.success) throw new Error(JSON.stringify(parsed.issues));
+  return parsed.data;
+}
+
+function day(date: string, work: Record<string, unknown>, fields: Record<string, number> = {}, notes?: string) {
+  return { date, work, notes, confidence: { overall: 0.9, fields } };
+}
+
+describe("mergeExtractions", () => {
+  it("joins separate files into one row per date", () => {
+    const front = extraction({ days: [day("2025-08-04", { startTime: "08:00", endTime: "16:00" })] });
+    const back = extraction({ days: [day("2025-08-05", { startTime: "09:00", endTime: "17:00" })] });
+    const merged = mergeExtractions([
+      { label: "front.jpg", result: front },
+      { label: "back.jpg", result: back },
+    ]);
+    expect(merged.days.map((d) => d.date)).toEqual(["2025-08-04", "2025-08-05"]);
+    expect(merged.period).toEqual({ weekStartDate: "2025-08-04", weekEndDate: "2025-08-05" });
+    expect(merged.conflicts).toEqual([]);
+  });
+
+  it("collapses a date both files read the same way without a conflict", () => {
+    const work = { startTime: "08:00", totalHours: 7.5 };
+    const a = extraction({ days: [day("2025-08-04", work, { totalHours: 0.6 }, "Site A")] });
+    const b = extraction({ days: [day("2025-08-04", work, { totalHours: 0.9 }, "Site A")] });
+    const merged = mergeExtractions([
+      { label: "a.jpg", result: a },
+      { label: "b.jpg", result: b },
+    ]);
+    expect(merged.days).toHaveLength(1);
+    expect(merged.days[0].confidence.fields.totalHours).toBe(0.9);
+    expect(merged.days[0].notes).toBe("Site A");
+    expect(merged.conflicts).toEqual([]);
+  });
+
+  it("flags fields the files disagree on, keeping the most confident value", () => {
+    const a = extraction({ days: [day("2025-08-04", { startTime: "08:00", endTime: "16:00" }, { endTime: 0.6 })] });
+    const b = extraction({ days: [day("2025-08-04", { startTime: "08:00", endTime: "16:30" }, { endTime: 0.8 })] });
+    const merged = mergeExtractions([
+      { label: "a.jpg", result: a },
+      { label: "b.jpg", result: b },
+    ]);
+    expect(merged.conflicts).toEqual([
+      {
+        date: "2025-08-04",
+        field: "endTime",
+        values: [
+          { source: "a.jpg", value: "16:00", confidence: 0.6 },
+          { source: "b.jpg", value: "16:30", confidence: 0.8 },
+        ],
+        chosen: "16:30",
+      },
+    ]);
+    expect(merged.days[0].work.endTime).toBe("16:30");
+    expect(merged.days[0].confidence.fields.endTime).toBe(0.3);
+    expect(merged.days[0].confidence.overall).toBe(0.3);
+  });
+
+  it("keeps the first file's value when confidence ties", () => {
+    const a = extraction({ days: [day("2025-08-04", { kilometers: 40 })] });
+    const b = extraction({ days: [day("2025-08-04", { kilometers: 45 })] });
+    const merged = mergeExtractions([
+      { label: "a.jpg", result: a },
+      { label: "b.jpg", result: b },
+    ]);
+    expect(merged.days[0].work.kilometers).toBe(40);
+    expect(merged.conflicts?.[0]).toMatchObject({ field: "kilometers", chosen: 40 });
+  });
+
+  it("keeps and caps the conflicts the model reported for files read together", () => {
+    const together = extraction({
+      days: [day("2025-08-04", { startTime: "08:00", endTime: "16:30" }, { endTime: 0.9 })],
+      conflicts: [
+        {
+          date: "2025-08-04",
+          field: "endTime",
+          values: [
+            { source: "front.jpg", value: "16:00", confidence: 0.5 },
+            { source: "back.jpg", value: "16:30", confidence: 0.9 },
+          ],
+        },
+        // Not a real disagreement, so dropped
+        {
+          date: "2025-08-04",
+          field: "startTime",
+          values: [
+            { source: "front.jpg", value: "08:00" },
+            { source: "back.jpg", value: "08:00" },
+          ],
+        },
+      ],
+    });
+    const merged = mergeExtractions([{ label: "front.jpg + back.jpg", result: together }]);
+    expect(merged.conflicts).toHaveLength(1);
+    expect(merged.conflicts?.[0]).toMatchObject({ field: "endTime", chosen: "16:30" });
+    expect(merged.days[0].confidence.fields.endTime).toBe(0.3);
+  });
+
+  it("keeps a split shift's segments when its start time wins", () => {
+    const split = extraction({
+      days: [
+        day("2025-08-04", {
+          segments: [
+            { startTime: "06:00", endTime: "10:00", breakMinutes: 0 },
+            { startTime: "15:00", endTime: "19:00", breakMinutes: 0 },
+          ],
+        }),
+      ],
+    });
+    const single = extraction({ days: [day("2025-08-04", { startTime: "06:00", endTime: "19:00" })] });
+    const merged = mergeExtractions([
+      { label: "a.jpg", result: split },
+      { label: "b.jpg", result: single },
+    ]);
+    expect(merged.days[0].work.segments).toHaveLength(2);
+  });
+
+  it("takes sign-off details from the first file that has them and labels warnings", () => {
+    const a = extraction({ days: [], warnings: ["Blurry"], validation: { supervisor: { name: null } } });
+    const b = extraction({ days: [], warnings: ["Cut off"], validation: { supervisor: { name: "Sam" } } });
+    const merged = mergeExtractions([
+      { label: "a.jpg", result: a },
+      { label: "b.jpg", result: b },
+    ]);
+    expect(merged.validation.supervisor.name).toBe("Sam");
+    expect(merged.warnings).toEqual(["a.jpg: Blurry", "b.jpg: Cut off"]);
+  });
+});
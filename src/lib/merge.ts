@@ -0,0 +1,173 @@
+import {
+  AIExtractionDay,
+  AIExtractionResult,
+  AIValidationData,
+  AIWorkField,
+  AIWorkSegment,
+  ExtractionConflict,
+} from "./types";
+
+export interface LabelledExtraction {
+  label: string; // usually the source file name
+  result: AIExtractionResult;
+}
+
+const WORK_FIELDS: AIWorkField[] = ["startTime", "endTime", "totalHours", "breakMinutes", "kilometers"];
+
+// Conflicting fields are capped here so the grid shows them as "please review"
+const CONFLICT_CONFIDENCE = 0.3;
+
+interface DaySource {
+  label: string;
+  day: AIExtractionDay;
+}
+
+function fieldConfidence(day: AIExtractionDay, field: string): number | null {
+  return day.confidence.fields[field] ?? null;
+}
+
+// A source's own segments are kept when it had several and its start time won;
+// otherwise the day gets one segment built from the merged fields
+function mergeSegments(sources: DaySource[], work: Record<AIWorkField, string | number | null>): AIWorkSegment[] {
+  const split = sources.find((s) => s.day.work.segments.length > 1 && s.day.work.startTime === work.startTime);
+  if (split) return split.day.work.segments;
+  if (!work.startTime && !work.endTime && work.breakMinutes == null) return [];
+  return [
+    {
+      startTime: work.startTime as string | null,
+      endTime: work.endTime as string | null,
+      breakMinutes: work.breakMinutes as number | null,
+    },
+  ];
+}
+
+function mergeDay(date: string, sources: DaySource[], conflicts: ExtractionConflict[]): AIExtractionDay {
+  const [first] = sources;
+  const work = {} as Record<AIWorkField, string | number | null>;
+  const fields: Record<string, number | null> = { ...first.day.confidence.fields };
+  let conflicted = false;
+
+  for (const field of WORK_FIELDS) {
+    const candidates = sources
+      .filter((s) => s.day.work[field] != null)
+      .map((s) => ({ source: s.label, value: s.day.work[field], confidence: fieldConfidence(s.day, field) }));
+
+    if (candidates.length === 0) {
+      work[field] = null;
+      continue;
+    }
+
+    // Highest confidence wins; the first source breaks ties
+    const best = candidates.reduce((a, b) => ((b.confidence ?? 0) > (a.confidence ?? 0) ? b : a));
+    work[field] = best.value;
+
+    const distinct = new Set(candidates.map((c) => c.value));
+    if (distinct.size > 1) {
+      conflicted = true;
+      conflicts.push({ date, field, values: candidates, chosen: best.value });
+      fields[field] = Math.min(best.confidence ?? CONFLICT_CONFIDENCE, CONFLICT_CONFIDENCE);
+    } else {
+      const known = candidates.map((c) => c.confidence).filter((c): c is number => c != null);
+      fields[field] = known.length ? Math.max(...known) : null;
+    }
+  }
+
+  const notes = Array.from(new Set(sources.map((s) => s.day.notes?.trim()).filter(Boolean)));
+  const overall = Math.min(...sources.map((s) => s.day.confidence.overall));
+  return {
+    date,
+    dayOfWeek: first.day.dayOfWeek,
+    allocations: sources.find((s) => s.day.allocations.length)?.day.allocations ?? [],
+    trips: sources.find((s) => s.day.trips.length)?.day.trips ?? [],
+    work: { ...(work as Omit<AIExtractionDay["work"], "segments">), segments: mergeSegments(sources, work) },
+    notes: notes.length ? notes.join("; ") : null,
+    confidence: {
+      overall: conflicted ? Math.min(overall, CONFLICT_CONFIDENCE) : overall,
+      fields,
+    },
+  };
+}
+
+function capReported(day: AIExtractionDay, reported: ExtractionConflict[]): AIExtractionDay {
+  const fields = reported.filter((c) => c.date === day.date).map((c) => c.field);
+  if (!fields.length) return day;
+  const capped = { ...day.confidence.fields };
+  fields.forEach((field) => (capped[field] = Math.min(capped[field] ?? CONFLICT_CONFIDENCE, CONFLICT_CONFIDENCE)));
+  return {
+    ...day,
+    confidence: { overall: Math.min(day.confidence.overall, CONFLICT_CONFIDENCE), fields: capped },
+  };
+}
+
+function firstValue<T>(values: Array<T | null | undefined>): T | null {
+  return values.find((v) => v != null && v !== "") ?? null;
+}
+
+function mergeValidation(all: AIValidationData[]): AIValidationData {
+  return {
+    supervisor: {
+      name: firstValue(all.map((v) => v.supervisor.name)),
+      signature: firstValue(all.map((v) => v.supervisor.signature)),
+    },
+    approver: {
+      name: firstValue(all.map((v) => v.approver.name)),
+      date: firstValue(all.map((v) => v.approver.date)),
+    },
+    client: {
+      name: firstValue(all.map((v) => v.client.name)),
+      project: firstValue(all.map((v) => v.client.project)),
+    },
+    // Earlier sources win on key clashes, matching the fields above
+    custom: all.reduceRight<Record<string, unknown>>((acc, v) => ({ ...acc, ...v.custom }), {}),
+  };
+}
+
+// Combines several extractions into one period with one row per date. Days
+// that appear more than once are merged field by field; disagreements are
+// kept in `conflicts` rather than silently resolved by order.
+export function mergeExtractions(inputs: LabelledExtraction[]): AIExtractionResult {
+  if (inputs.length === 0) {
+    throw new Error("Nothing to merge");
+  }
+
+  const byDate = new Map<string, DaySource[]>();
+  for (const { label, result } of inputs) {
+    for (const day of result.days) {
+      const list = byDate.get(day.date) ?? [];
+      list.push({ label, day });
+      byDate.set(day.date, list);
+    }
+  }
+
+  // Files read in one request come with the conflicts the model reported
+  const reported: ExtractionConflict[] = inputs.flatMap((i) => i.result.conflicts ?? []);
+  const conflicts = [...reported];
+  const days = Array.from(byDate.keys())
+    .sort()
+    .map((date) => mergeDay(date, byDate.get(date)!, conflicts))
+    .map((day) => capReported(day, reported));
+
+  const results = inputs.map((i) => i.result);
+  const multiple = inputs.length > 1;
+
+  return {
+    employee: {
+      fullName: firstValue(results.map((r) => r.employee.fullName)) ?? "",
+      employeeId: firstValue(results.map((r) => r.employee.employeeId)),
+      email: firstValue(results.map((r) => r.employee.email)),
+    },
+    period: days.length
+      ? { weekStartDate: days[0].date, weekEndDate: days[days.length - 1].date }
+      : results[0].period,
+    days,
+    validation: mergeValidation(results.map((r) => r.validation)),
+    warnings: Array.from(
+      new Set(inputs.flatMap((i) => i.result.warnings.map((w) => (multiple ? `${i.label}: ${w}` : w))))
+    ),
+    source: {
+      fileType: Array.from(new Set(results.flatMap((r) => r.source.fileType.split("+")))).join("+"),
+      pageOrImageCount: results.reduce((sum, r) => sum + r.source.pageOrImageCount, 0),
+    },
+    conflicts,
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { claimsTotal, claimYearStart, dayKilometers, mileageClaims } from "./mileage";
+import { generateWeekDays } from "./dates";
+import { DEFAULT_MILEAGE } from "./settings";
+import { DayEntry, MileageSettings, Trip } from "./types";
+
+const capped: MileageSettings = { ...DEFAULT_MILEAGE, tiers: [{ upToKm: 5000, ratePerKm: 0.88 }] };
+const stepped: MileageSettings = {
+  ...DEFAULT_MILEAGE,
+  tiers: [
+    { upToKm: 5000, ratePerKm: 0.88 },
+    { upToKm: null, ratePerKm: 0.5 },
+  ],
+};
+
+function trip(kilometers: string, overrides: Partial<Trip> = {}): Trip {
+  return { from: "Depot", to: "Site", purpose: "Install", vehicle: "Own car", kilometers, ...overrides };
+}
+
+function week(start: string, fill: (days: DayEntry[]) => void): DayEntry[] {
+  const days = generateWeekDays(start);
+  fill(days);
+  return days;
+}
+
+describe("dayKilometers", () => {
+  it("adds up the trips once they have distances", () => {
+    expect(dayKilometers({ kilometers: "5", trips: [trip("12"), trip("8.5")] })).toBe(20.5);
+  });
+
+  it("falls back to the day's own total", () => {
+    expect(dayKilometers({ kilometers: "30", trips: [trip("")] })).toBe(30);
+    expect(dayKilometers({ kilometers: "", trips: [] })).toBe(0);
+  });
+});
+
+describe("claimYearStart", () => {
+  it("starts the year on the configured day", () => {
+    expect(claimYearStart("2025-07-01", "07-01")).toBe("2025-07-01");
+    expect(claimYearStart("2025-06-30", "07-01")).toBe("2024-07-01");
+    expect(claimYearStart("2025-12-31", "01-01")).toBe("2025-01-01");
+  });
+});
+
+describe("mileageClaims", () => {
+  it("pays each trip at the first tier while under the cap", () => {
+    const days = week("2025-08-04", (d) => (d[0].trips = [trip("40"), trip("60")]));
+    const claims = mileageClaims(days, capped);
+    expect(claims.map((c) => c.amount)).toEqual([35.2, 52.8]);
+    expect(claims[0].rate).toBeCloseTo(0.88);
+    expect(claimsTotal(claims)).toBe(88);
+  });
+
+  it("stops paying past the last capped tier", () => {
+    const days = week("2025-08-04", (d) => (d[0].trips = [trip("100")]));
+    const [claim] = mileageClaims(days, capped, 4950);
+    expect(claim.kilometers).toBe(100);
+    expect(claim.amount).toBe(44); // only 50 km were left under the cap
+    expect(mileageClaims(days, capped, 5000)[0].amount).toBe(0);
+  });
+
+  it("splits a trip that crosses a tier and averages its rate", () => {
+    const days = week("2025-08-04", (d) => (d[0].trips = [trip("60")]));
+    const [claim] = mileageClaims(days, stepped, 4990);
+    expect(claim.amount).toBe(33.8); // 10 km at 0.88 and 50 km at 0.50
+    expect(claim.rate).toBeCloseTo(33.8 / 60);
+  });
+
+  it("carries the kilometres claimed before the period into later trips", () => {
+    const days = week("2025-08-04", (d) => {
+      d[0].trips = [trip("30")];
+      d[1].trips = [trip("30")];
+    });
+    const claims = mileageClaims(days, stepped, 4980);
+    expect(claims.map((c) => c.amount)).toEqual([20 * 0.88 + 10 * 0.5, 15]);
+  });
+
+  it("starts the tiers again when the period runs into a new claim year", () => {
+    const days = week("2025-06-30", (d) => {
+      d[0].trips = [trip("40")]; // 30 June, the end of the old year
+      d[1].kilometers = "25"; // 1 July
+    });
+    const claims = mileageClaims(days, stepped, 5000);
+    expect(claims.map((c) => [c.date, c.amount])).toEqual([
+      ["2025-06-30", 20],
+      ["2025-07-01", 22],
+    ]);
+  });
+
+  it("claims a day's plain total as a trip without details", () => {
+    const days = week("2025-08-04", (d) => (d[2].kilometers = "15"));
+    const [claim] = mileageClaims(days, capped);
+    expect(claim.date).toBe("2025-08-06");
+    expect(claim.trip).toMatchObject({ from: "", to: "", kilometers: "15" });
+    expect(claim.amount).toBe(13.2);
+  });
+
+  it("orders claims by date whatever order the days come in", () => {
+    const days = week("2025-08-04", (d) => {
+      d[0].kilometers = "10";
+      d[3].kilometers = "10";
+    }).reverse();
+    expect(mileageClaims(days, capped).map((c) => c.date)).toEqual(["2025-08-04", "2025-08-07"]);
+  });
+});
@@ -0,0 +1,99 @@
+import { DayEntry, MileageClaim, MileageSettings, Trip } from "./types";
+
+export function emptyTrip(): Trip {
+  return { from: "", to: "", purpose: "", vehicle: "", kilometers: "" };
+}
+
+function tripKm(trip: Trip): number {
+  return Math.max(0, parseFloat(trip.kilometers) || 0);
+}
+
+// A day's trip log is the record once it has distances; otherwise the plain total counts
+export function dayKilometers(day: Pick<DayEntry, "kilometers" | "trips">): number {
+  const logged = day.trips.reduce((sum, t) => sum + tripKm(t), 0);
+  return logged || Math.max(0, parseFloat(day.kilometers) || 0);
+}
+
+export function periodKilometers(days: Pick<DayEntry, "kilometers" | "trips">[]): number {
+  return days.reduce((sum, day) => sum + dayKilometers(day), 0);
+}
+
+export function describeTrip(trip: Trip): string {
+  const route = [trip.from, trip.to].filter(Boolean).join(" to ");
+  const details = [trip.purpose, trip.vehicle].filter(Boolean).join(", ");
+  return [route, trip.kilometers && `${trip.kilometers} km`, details && `(${details})`].filter(Boolean).join(" ");
+}
+
+export function describeTrips(trips: Trip[]): string {
+  return trips.map(describeTrip).filter(Boolean).join("; ");
+}
+
+// Claims need to say where, why and in what for every trip with a distance
+export function missingTripDetails(trip: Trip): string[] {
+  if (!tripKm(trip)) return [];
+  const missing: string[] = [];
+  if (!trip.from.trim() || !trip.to.trim()) missing.push("from and to");
+  if (!trip.purpose.trim()) missing.push("purpose");
+  if (!trip.vehicle.trim()) missing.push("vehicle");
+  return missing;
+}
+
+// The first day of the claim year `date` falls in
+export function claimYearStart(date: string, yearStart: string): string {
+  const year = Number(date.slice(0, 4));
+  const start = `${year}-${yearStart}`;
+  return start <= date ? start : `${year - 1}-${yearStart}`;
+}
+
+// Dollars for `km` more kilometres once `claimed` have been claimed this year
+function tieredAmount(claimed: number, km: number, settings: MileageSettings): number {
+  let amount = 0;
+  let floor = 0;
+  for (const tier of settings.tiers) {
+    const cap = tier.upToKm ?? Infinity;
+    const covered = Math.max(0, Math.min(claimed + km, cap) - Math.max(claimed, floor));
+    amount += covered * tier.ratePerKm;
+    floor = cap;
+  }
+  return amount;
+}
+
+// Each trip's reimbursement, oldest first. `claimedBefore` is what the
+// employee already claimed in the claim year the first day falls in; a
+// period that runs into a new claim year starts the tiers again.
+export function mileageClaims(
+  days: DayEntry[],
+  settings: MileageSettings,
+  claimedBefore = 0
+): MileageClaim[] {
+  const claims: MileageClaim[] = [];
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  let year = sorted.length ? claimYearStart(sorted[0].date, settings.yearStart) : "";
+  let claimed = claimedBefore;
+
+  for (const day of sorted) {
+    const dayYear = claimYearStart(day.date, settings.yearStart);
+    if (dayYear !== year) {
+      year = dayYear;
+      claimed = 0;
+    }
+    const logged = day.trips.filter((t) => tripKm(t) > 0);
+    const trips = logged.length
+      ? logged
+      : dayKilometers(day) > 0
+        ? [{ ...emptyTrip(), kilometers: String(dayKilometers(day)) }]
+        : [];
+
+    for (const trip of trips) {
+      const kilometers = tripKm(trip);
+      const amount = Math.round(tieredAmount(claimed, kilometers, settings) * 100) / 100;
+      claims.push({ date: day.date, trip, kilometers, rate: amount / kilometers, amount });
+      claimed += kilometers;
+    }
+  }
+  return claims;
+}
+
+export function claimsTotal(claims: MileageClaim[]): number {
+  return Math.round(claims.reduce((sum, c) => sum + c.amount, 0) * 100) / 100;
+}
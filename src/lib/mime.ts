@@ -0,0 +1,243 @@
+// Just enough of RFC 822/2045-2047/2231 to read an emailed timesheet: who sent
+// it, the subject, the text and the attachments. Mail is handled as latin1
+// strings so every byte survives until a part is decoded.
+
+export interface EmailAddress {
+  name: string;
+  address: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface ParsedEmail {
+  from: EmailAddress | null;
+  subject: string;
+  messageId: string;
+  text: string;
+  attachments: EmailAttachment[];
+}
+
+export class MimeParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MimeParseError";
+  }
+}
+
+interface Part {
+  headers: Map<string, string>;
+  body: string;
+}
+
+interface Found {
+  text: string | null;
+  html: string | null;
+  attachments: EmailAttachment[];
+}
+
+const MAX_DEPTH = 10;
+
+function splitPart(raw: string): Part {
+  // A part may have no headers at all and start with the blank line
+  const match = /^\r?\n|\r?\n\r?\n/.exec(raw);
+  const head = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index + match[0].length) : "";
+
+  const headers = new Map<string, string>();
+  // Continuation lines start with whitespace
+  for (const line of head.replace(/\r?\n(?=[ \t])/g, "").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+function decodeCharset(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset || "utf-8").decode(bytes);
+  } catch {
+    return bytes.toString("utf8");
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const unwrapped = text.replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < unwrapped.length; i++) {
+    const hex = unwrapped.slice(i + 1, i + 3);
+    if (unwrapped[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(unwrapped.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// RFC 2047 encoded-words, e.g. =?UTF-8?B?...?= in a subject or filename.
+// Header values arrive as latin1, so raw UTF-8 is re-read too.
+function decodeHeader(value: string): string {
+  const text = decodeCharset(Buffer.from(value, "latin1"), "utf-8");
+  return text
+    .replace(/(\?=)\s+(?==\?)/g, "$1")
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, encoded: string) => {
+      const bytes =
+        encoding.toUpperCase() === "B"
+          ? Buffer.from(encoded, "base64")
+          : decodeQuotedPrintable(encoded.replace(/_/g, " "));
+      return decodeCharset(bytes, charset.replace(/\*.*$/, ""));
+    });
+}
+
+// "text/plain; charset=utf-8" -> value and lower-cased parameters, joining
+// RFC 2231 continuations (name*0=, name*1*=) and decoding charset'lang'value
+function parseHeaderParams(header: string): { value: string; params: Record<string, string> } {
+  const [value, ...rest] = header.match(/(?:[^;"]|"(?:[^"\\]|\\.)*")+/g) ?? [""];
+  const pieces: Record<string, { index: number; text: string; encoded: boolean }[]> = {};
+
+  for (const param of rest) {
+    const eq = param.indexOf("=");
+    if (eq < 0) continue;
+    const key = param.slice(0, eq).trim().toLowerCase();
+    let text = param.slice(eq + 1).trim();
+    if (text.startsWith('"')) text = text.slice(1, -1).replace(/\\(.)/g, "$1");
+    const [, name, index, star] = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(key) ?? [null, key, undefined, undefined];
+    (pieces[name] ??= []).push({ index: Number(index ?? 0), text, encoded: Boolean(star) });
+  }
+
+  const params: Record<string, string> = {};
+  for (const [name, list] of Object.entries(pieces)) {
+    list.sort((a, b) => a.index - b.index);
+    const first = list[0];
+    const charset = first.encoded ? first.text.split("'")[0] : "";
+    params[name] = list
+      .map((piece, i) => {
+        if (!piece.encoded) return decodeHeader(piece.text);
+        const text = i === 0 ? piece.text.split("'").slice(2).join("'") : piece.text;
+        return decodeCharset(Buffer.from(decodeURIComponentBytes(text)), charset);
+      })
+      .join("");
+  }
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function decodeURIComponentBytes(text: string): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "%" && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return bytes;
+}
+
+function decodeBody(part: Part): Buffer {
+  const encoding = (part.headers.get("content-transfer-encoding") ?? "").trim().toLowerCase();
+  if (encoding === "base64") return Buffer.from(part.body.replace(/\s+/g, ""), "base64");
+  if (encoding === "quoted-printable") return decodeQuotedPrintable(part.body);
+  return Buffer.from(part.body, "latin1");
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const parts: string[] = [];
+  const delimiter = `--${boundary}`;
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `${delimiter}--`) break;
+    if (trimmed === delimiter) {
+      if (current) parts.push(current.join("\r\n"));
+      current = [];
+    } else {
+      current?.push(line); // anything before the first delimiter is preamble
+    }
+  }
+  if (current) parts.push(current.join("\r\n"));
+  return parts;
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(style|script)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>|<\/p>|<\/div>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .trim();
+}
+
+// Walks the part tree, keeping the first plain (or else HTML) text and every
+// attachment, including those of forwarded messages
+function collect(part: Part, found: Found, depth: number): void {
+  if (depth > MAX_DEPTH) throw new MimeParseError("The message is nested too deeply");
+  const type = parseHeaderParams(part.headers.get("content-type") ?? "text/plain");
+  const disposition = parseHeaderParams(part.headers.get("content-disposition") ?? "");
+
+  if (type.value.startsWith("multipart/")) {
+    if (!type.params.boundary) throw new MimeParseError("A multipart section has no boundary");
+    for (const child of splitMultipart(part.body, type.params.boundary)) {
+      collect(splitPart(child), found, depth + 1);
+    }
+    return;
+  }
+  if (type.value === "message/rfc822" && disposition.value !== "attachment") {
+    collect(splitPart(decodeBody(part).toString("latin1")), found, depth + 1);
+    return;
+  }
+
+  const filename = disposition.params.filename ?? type.params.name ?? "";
+  const isText = type.value === "text/plain" || type.value === "text/html";
+  if (disposition.value === "attachment" || filename || !isText) {
+    found.attachments.push({
+      filename: filename || `attachment-${found.attachments.length + 1}`,
+      contentType: type.value,
+      data: decodeBody(part),
+    });
+    return;
+  }
+
+  const text = decodeCharset(decodeBody(part), type.params.charset ?? "utf-8");
+  if (type.value === "text/plain") found.text ??= text;
+  else found.html ??= text;
+}
+
+// "Jane Doe <jane@example.com>", "<jane@example.com>" or "jane@example.com"
+export function parseAddress(value: string): EmailAddress | null {
+  const decoded = decodeHeader(value).trim();
+  const angled = /^(.*?)<([^<>]+)>\s*$/.exec(decoded);
+  const address = (angled ? angled[2] : decoded.replace(/\(.*?\)/g, "")).trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+$/.test(address)) return null;
+  const name = angled ? angled[1].trim().replace(/^"(.*)"$/, "$1") : "";
+  return { name, address };
+}
+
+export function parseEmail(raw: Buffer | string): ParsedEmail {
+  const text = typeof raw === "string" ? Buffer.from(raw, "utf8").toString("latin1") : raw.toString("latin1");
+  const message = splitPart(text);
+  if (message.headers.size === 0) throw new MimeParseError("This doesn't look like an email message");
+
+  const found: Found = { text: null, html: null, attachments: [] };
+  collect(message, found, 0);
+
+  const from = message.headers.get("from") ?? message.headers.get("sender") ?? "";
+  return {
+    from: parseAddress(from),
+    subject: decodeHeader(message.headers.get("subject") ?? ""),
+    messageId: (message.headers.get("message-id") ?? "").replace(/^<|>$/g, ""),
+    text: (found.text ?? (found.html ? stripHtml(found.html) : "")).replace(/\r\n/g, "\n").trim(),
+    attachments: found.attachments,
+  };
+}
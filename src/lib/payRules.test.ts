@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import { limitRates, splitHours, totalByRate } from "./payRules";
+import { generateWeekDays } from "./dates";
+import { DEFAULT_PAY_RULES, DEFAULT_PERIOD } from "./settings";
+import { DayEntry, PayRules, WorkSegment } from "./types";
+
+const ORDINARY = DEFAULT_PAY_RULES.ordinaryRate;
+const tiered: PayRules = {
+  ...DEFAULT_PAY_RULES,
+  dailyOvertime: [
+    { afterHours: 8, rate: "Overtime 1.5x" },
+    { afterHours: 10, rate: "Overtime 2x" },
+  ],
+};
+const weekly: PayRules = { ...DEFAULT_PAY_RULES, weeklyOvertime: { afterHours: 38, rate: "Weekly Overtime" } };
+const night: PayRules = { ...DEFAULT_PAY_RULES, nightLoading: { start: "22:00", end: "06:00", rate: "Night Loading" } };
+
+// Weekdays with the given hours typed in, one per day from the start
+function week(start: string, hours: string[], includeWeekends = false): DayEntry[] {
+  const days = generateWeekDays(start, { ...DEFAULT_PERIOD, startDay: "MON", includeWeekends });
+  hours.forEach((h, i) => (days[i].totalHours = h));
+  return days;
+}
+
+function shift(startTime: string, endTime: string, breakMinutes = "0"): DayEntry {
+  const [day] = generateWeekDays("2025-08-04");
+  const segments: WorkSegment[] = [{ startTime, endTime, breakMinutes }];
+  return { ...day, segments };
+}
+
+function linesOn(days: DayEntry[], rules: PayRules) {
+  return splitHours(days, rules).map((d) => d.lines);
+}
+
+describe("splitHours", () => {
+  it("pays everything as ordinary hours without other rules", () => {
+    expect(linesOn(week("2025-08-04", ["8"]), DEFAULT_PAY_RULES)[0]).toEqual([{ rate: ORDINARY, hours: 8 }]);
+  });
+
+  it("pays the hours past each daily threshold at that tier's rate", () => {
+    const [eleven, nine, seven] = linesOn(week("2025-08-04", ["11", "9", "7"]), tiered);
+    expect(eleven).toEqual([
+      { rate: ORDINARY, hours: 8 },
+      { rate: "Overtime 1.5x", hours: 2 },
+      { rate: "Overtime 2x", hours: 1 },
+    ]);
+    expect(nine).toEqual([
+      { rate: ORDINARY, hours: 8 },
+      { rate: "Overtime 1.5x", hours: 1 },
+    ]);
+    expect(seven).toEqual([{ rate: ORDINARY, hours: 7 }]);
+  });
+
+  it("pays ordinary hours past the weekly threshold as overtime", () => {
+    const lines = linesOn(week("2025-08-04", ["8", "8", "8", "8", "8"]), weekly);
+    expect(lines[3]).toEqual([{ rate: ORDINARY, hours: 8 }]);
+    expect(lines[4]).toEqual([
+      { rate: ORDINARY, hours: 6 },
+      { rate: "Weekly Overtime", hours: 2 },
+    ]);
+  });
+
+  it("only counts ordinary hours towards the week when daily overtime applies too", () => {
+    const rules: PayRules = { ...tiered, weeklyOvertime: weekly.weeklyOvertime };
+    const lines = linesOn(week("2025-08-04", ["9", "9", "9", "9", "9"]), rules);
+    // Four days of 8 ordinary hours leave 6 before the 38 hour threshold
+    expect(lines[3]).toEqual([
+      { rate: ORDINARY, hours: 8 },
+      { rate: "Overtime 1.5x", hours: 1 },
+    ]);
+    expect(lines[4]).toEqual([
+      { rate: ORDINARY, hours: 6 },
+      { rate: "Overtime 1.5x", hours: 1 },
+      { rate: "Weekly Overtime", hours: 2 },
+    ]);
+  });
+
+  it("starts the weekly threshold again each week of a longer period", () => {
+    const days = [...week("2025-08-04", ["8", "8", "8", "8", "8"]), ...week("2025-08-11", ["8", "8", "8", "8", "8"])];
+    const totals = totalByRate(splitHours(days, weekly));
+    expect(totals).toEqual([
+      { rate: ORDINARY, hours: 76 },
+      { rate: "Weekly Overtime", hours: 4 },
+    ]);
+  });
+
+  it("pays weekends at their own rate instead of any other", () => {
+    const rules: PayRules = {
+      ...tiered,
+      weeklyOvertime: weekly.weeklyOvertime,
+      saturdayRate: "Saturday",
+      sundayRate: "Sunday",
+    };
+    const days = week("2025-08-04", ["8", "8", "8", "8", "8", "11", "4"], true);
+    const lines = linesOn(days, rules);
+    expect(lines[5]).toEqual([{ rate: "Saturday", hours: 11 }]);
+    expect(lines[6]).toEqual([{ rate: "Sunday", hours: 4 }]);
+  });
+
+  it("leaves weekend hours out of the weekly threshold", () => {
+    const rules: PayRules = { ...weekly, saturdayRate: "Saturday" };
+    // A Saturday-to-Friday week, so the weekend comes first
+    const days = generateWeekDays("2025-08-02", { ...DEFAULT_PERIOD, startDay: "SAT", includeWeekends: true });
+    days.forEach((d) => (d.totalHours = d.dayOfWeek === "SUN" ? "" : "8"));
+    const totals = totalByRate(splitHours(days, rules));
+    expect(totals).toEqual([
+      { rate: "Saturday", hours: 8 },
+      { rate: ORDINARY, hours: 38 },
+      { rate: "Weekly Overtime", hours: 2 },
+    ]);
+  });
+
+  it("pays time inside a night window that wraps midnight at the loading rate", () => {
+    expect(linesOn([shift("20:00", "04:00")], night)[0]).toEqual([
+      { rate: ORDINARY, hours: 2 },
+      { rate: "Night Loading", hours: 6 },
+    ]);
+    expect(linesOn([shift("04:00", "12:00")], night)[0]).toEqual([
+      { rate: ORDINARY, hours: 6 },
+      { rate: "Night Loading", hours: 2 },
+    ]);
+  });
+
+  it("spreads the break evenly when working out night hours", () => {
+    const [lines] = linesOn([shift("22:00", "06:00", "60")], night);
+    expect(lines).toEqual([{ rate: "Night Loading", hours: 7 }]);
+    const [partly] = linesOn([shift("18:00", "02:00", "60")], night);
+    expect(partly).toEqual([
+      { rate: ORDINARY, hours: 3.5 },
+      { rate: "Night Loading", hours: 3.5 },
+    ]);
+  });
+
+  it("doesn't load hours already paid as overtime", () => {
+    const rules: PayRules = { ...night, dailyOvertime: [{ afterHours: 8, rate: "Overtime 1.5x" }] };
+    const [lines] = linesOn([shift("14:00", "02:00")], rules);
+    expect(lines).toEqual([
+      { rate: ORDINARY, hours: 4 },
+      { rate: "Overtime 1.5x", hours: 4 },
+      { rate: "Night Loading", hours: 4 },
+    ]);
+  });
+});
+
+describe("limitRates", () => {
+  const split = splitHours(week("2025-08-04", ["11"]), tiered);
+
+  it("pays rates the employee isn't eligible for as ordinary hours", () => {
+    expect(limitRates(split, ["Overtime 1.5x"], tiered)[0].lines).toEqual([
+      { rate: ORDINARY, hours: 9 },
+      { rate: "Overtime 1.5x", hours: 2 },
+    ]);
+    expect(limitRates(split, [], tiered)[0].lines).toEqual([{ rate: ORDINARY, hours: 11 }]);
+  });
+
+  it("allows every rate when eligibility isn't set", () => {
+    expect(limitRates(split, null, tiered)).toBe(split);
+  });
+});
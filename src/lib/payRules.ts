@@ -0,0 +1,145 @@
+import { DayEntry, DayRateHours, PayRules, RateHours, RoundingPolicy } from "./types";
+import { dayHours, segmentBounds, toMinutes } from "./hours";
+import { daysBetween } from "./dates";
+import { DEFAULT_ROUNDING } from "./settings";
+
+// Minutes of [start, end) that fall inside the night window, which may wrap midnight
+function nightMinutes(start: number, end: number, window: { start: string; end: string }): number {
+  const ws = toMinutes(window.start);
+  let we = toMinutes(window.end);
+  if (we <= ws) we += 24 * 60;
+
+  let total = 0;
+  // Check the window as it sits on the previous, same and next day
+  for (const offset of [-24 * 60, 0, 24 * 60]) {
+    const overlap = Math.min(end, we + offset) - Math.max(start, ws + offset);
+    if (overlap > 0) total += overlap;
+  }
+  return total;
+}
+
+// Hours of the day's worked time inside the night window. Breaks are spread
+// evenly across the segments since we don't know when they were taken.
+function nightHours(day: DayEntry, worked: number, rules: PayRules): number {
+  if (!rules.nightLoading) return 0;
+
+  let span = 0;
+  let night = 0;
+  for (const segment of day.segments) {
+    const bounds = segmentBounds(segment);
+    if (!bounds) continue;
+    span += bounds.end - bounds.start;
+    night += nightMinutes(bounds.start, bounds.end, rules.nightLoading);
+  }
+
+  if (span <= 0) return 0;
+  return (night / 60) * Math.min(1, worked / (span / 60));
+}
+
+function weekendRate(day: DayEntry, rules: PayRules): string | null {
+  if (day.dayOfWeek === "SAT") return rules.saturdayRate;
+  if (day.dayOfWeek === "SUN") return rules.sundayRate;
+  return null;
+}
+
+function addLine(lines: RateHours[], rate: string, hours: number) {
+  if (hours <= 0) return;
+  const existing = lines.find((l) => l.rate === rate);
+  if (existing) existing.hours += hours;
+  else lines.push({ rate, hours });
+}
+
+// Index of the 7-day window (from the first day) a date falls in, so weekly
+// thresholds reset each week of a fortnightly or monthly period
+function weekIndex(date: string, firstDate: string): number {
+  return Math.floor(daysBetween(firstDate, date) / 7);
+}
+
+// Splits each day's hours across the earnings rates the rules name
+export function splitHours(
+  days: DayEntry[],
+  rules: PayRules,
+  rounding: RoundingPolicy = DEFAULT_ROUNDING
+): DayRateHours[] {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  const firstDate = sorted[0]?.date ?? "";
+  const weeklyOrdinary = new Map<number, number>();
+
+  return sorted.map((day) => {
+    const lines: RateHours[] = [];
+    const worked = dayHours(day, rounding);
+    if (!worked) return { date: day.date, lines };
+
+    // Weekend rates replace everything else and don't count towards the week
+    const weekend = weekendRate(day, rules);
+    if (weekend) {
+      addLine(lines, weekend, worked);
+      return { date: day.date, lines };
+    }
+
+    let ordinary = worked;
+    const tiers = rules.dailyOvertime;
+    if (tiers.length) {
+      ordinary = Math.min(worked, tiers[0].afterHours);
+      tiers.forEach((tier, i) => {
+        const ceiling = tiers[i + 1]?.afterHours ?? Infinity;
+        addLine(lines, tier.rate, Math.min(worked, ceiling) - tier.afterHours);
+      });
+    }
+
+    if (rules.weeklyOvertime) {
+      const week = weekIndex(day.date, firstDate);
+      const soFar = weeklyOrdinary.get(week) ?? 0;
+      const allowance = Math.max(0, rules.weeklyOvertime.afterHours - soFar);
+      const overflow = Math.max(0, ordinary - allowance);
+      addLine(lines, rules.weeklyOvertime.rate, overflow);
+      ordinary -= overflow;
+      weeklyOrdinary.set(week, soFar + ordinary);
+    }
+
+    if (rules.nightLoading) {
+      const night = Math.min(ordinary, nightHours(day, worked, rules));
+      addLine(lines, rules.nightLoading.rate, night);
+      ordinary -= night;
+    }
+
+    // Ordinary first, then loadings and overtime in the order they were added
+    const ordinaryLine = ordinary > 0 ? [{ rate: rules.ordinaryRate, hours: ordinary }] : [];
+    const merged: RateHours[] = [];
+    [...ordinaryLine, ...lines].forEach((l) => addLine(merged, l.rate, l.hours));
+    return { date: day.date, lines: merged };
+  });
+}
+
+// Period totals per rate, for the summary
+export function totalByRate(split: DayRateHours[]): RateHours[] {
+  const totals: RateHours[] = [];
+  split.forEach((day) => day.lines.forEach((l) => addLine(totals, l.rate, l.hours)));
+  return totals;
+}
+
+// Every earnings rate the rules can pay, ordinary first
+export function earningsRates(rules: PayRules): string[] {
+  const rates = [
+    rules.ordinaryRate,
+    ...rules.dailyOvertime.map((t) => t.rate),
+    rules.weeklyOvertime?.rate,
+    rules.saturdayRate,
+    rules.sundayRate,
+    rules.nightLoading?.rate,
+  ];
+  return Array.from(new Set(rates.filter((r): r is string => !!r)));
+}
+
+// Pays hours at rates an employee isn't eligible for as ordinary hours;
+// `eligible` of null allows every rate
+export function limitRates(split: DayRateHours[], eligible: string[] | null, rules: PayRules): DayRateHours[] {
+  if (!eligible) return split;
+  return split.map((day) => {
+    const lines: RateHours[] = [];
+    day.lines.forEach((l) =>
+      addLine(lines, l.rate === rules.ordinaryRate || eligible.includes(l.rate) ? l.rate : rules.ordinaryRate, l.hours)
+    );
+    return { date: day.date, lines };
+  });
+}
@@ -0,0 +1,82 @@
+import { inflateSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { createPdf, textWidth, wrapText } from "./pdf";
+
+// Each page's content stream, decompressed, in page order
+function pageContents(pdf: Buffer): string[] {
+  const text = pdf.toString("latin1");
+  return Array.from(text.matchAll(/<< \/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/g), (match) => {
+    const start = (match.index ?? 0) + match[0].length;
+    return inflateSync(pdf.subarray(start, start + Number(match[1]))).toString("latin1");
+  });
+}
+
+describe("createPdf", () => {
+  it("points the cross-reference table at each object", () => {
+    const pdf = createPdf({ title: "Test" });
+    pdf.addPage();
+    pdf.text(40, 40, "One");
+    pdf.addPage();
+    pdf.text(40, 40, "Two");
+    const buffer = pdf.toBuffer();
+    const text = buffer.toString("latin1");
+
+    const startxref = Number(text.match(/startxref\n(\d+)\n%%EOF\n$/)?.[1]);
+    expect(text.slice(startxref, startxref + 5)).toBe("xref\n");
+
+    const [, size] = text.slice(startxref).match(/^xref\n0 (\d+)\n/) ?? [];
+    const offsets = Array.from(text.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm), (m) => Number(m[1]));
+    expect(offsets).toHaveLength(Number(size) - 1);
+    offsets.forEach((offset, i) => expect(text.slice(offset, offset + 20)).toMatch(new RegExp(`^${i + 1} 0 obj\n`)));
+    expect(text).toContain(`/Size ${size} /Root 1 0 R`);
+  });
+
+  it("counts its pages and keeps each page's drawing on it", () => {
+    const pdf = createPdf({ title: "Test" });
+    pdf.addPage();
+    pdf.addPage();
+    pdf.addPage();
+    pdf.usePage(1);
+    pdf.text(40, 40, "Second");
+    const buffer = pdf.toBuffer();
+
+    expect(pdf.pageCount()).toBe(3);
+    expect(buffer.toString("latin1")).toContain("/Kids [5 0 R 7 0 R 9 0 R] /Count 3");
+    expect(pageContents(buffer).map((page) => page.includes("(Second) Tj"))).toEqual([false, true, false]);
+  });
+
+  it("escapes brackets and backslashes in text", () => {
+    const pdf = createPdf({ title: "Smith (Jr) \\ Co" });
+    pdf.addPage();
+    pdf.text(40, 40, "Site (north) C:\\jobs");
+    const buffer = pdf.toBuffer();
+
+    expect(pageContents(buffer)[0]).toContain("(Site \\(north\\) C:\\\\jobs) Tj");
+    expect(buffer.toString("latin1")).toContain("/Title (Smith \\(Jr\\) \\\\ Co)");
+  });
+
+  it("refuses to draw before there's a page", () => {
+    expect(() => createPdf({ title: "Test" }).text(40, 40, "Nowhere")).toThrow("Add a page before drawing");
+  });
+});
+
+describe("wrapText", () => {
+  it("breaks between words to fit the width", () => {
+    const lines = wrapText("Smith St site with Dave, then the workshop", 100, 10);
+    expect(lines.join(" ")).toBe("Smith St site with Dave, then the workshop");
+    lines.forEach((line) => expect(textWidth(line, 10)).toBeLessThanOrEqual(100));
+    expect(lines.length).toBeGreaterThan(1);
+  });
+
+  it("splits a word too long for a line across several", () => {
+    const word = "https://example.com/a/very/long/link/to/the/job/sheet";
+    const lines = wrapText(`See ${word}`, 60, 10);
+    expect(lines[0]).toBe("See");
+    expect(lines.slice(1).join("")).toBe(word);
+    lines.forEach((line) => expect(textWidth(line, 10)).toBeLessThanOrEqual(60));
+  });
+
+  it("keeps the line breaks already in the text", () => {
+    expect(wrapText("Workshop\nTrips: Yard to Site", 500, 10)).toEqual(["Workshop", "Trips: Yard to Site"]);
+  });
+});
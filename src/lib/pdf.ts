@@ -0,0 +1,207 @@
+import { deflateSync } from "zlib";
+
+// A small PDF writer for printable reports: A4 pages of text, lines and
+// shaded boxes in the built-in Helvetica fonts, so nothing has to be embedded.
+// Coordinates are in points from the top-left corner; text sits on its baseline.
+
+export const PAGE = { width: 595.28, height: 841.89 };
+
+export type PdfFont = "regular" | "bold";
+
+export interface TextOptions {
+  size?: number;
+  font?: PdfFont;
+  align?: "left" | "right" | "center";
+  gray?: number; // 0 is black, 1 is white
+}
+
+export interface PdfWriter {
+  addPage(): void;
+  pageCount(): number;
+  usePage(index: number): void; // go back to a page, e.g. to number it
+  text(x: number, y: number, value: string, options?: TextOptions): void;
+  line(x1: number, y1: number, x2: number, y2: number, options?: { width?: number; gray?: number }): void;
+  fillRect(x: number, y: number, width: number, height: number, gray: number): void;
+  toBuffer(): Buffer;
+}
+
+// Advance widths (per 1000 units of font size) for characters 32-126
+const WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+    556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+    556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+    556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+    500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+    556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722,
+    611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556,
+    611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778,
+    556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+
+// WinAnsi codes for the punctuation people paste in from word processors
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "…": 0x85,
+};
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+function encodeChar(char: string): number {
+  const code = char.charCodeAt(0);
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  return WIN_ANSI[char] ?? 63; // "?"
+}
+
+export function textWidth(value: string, size: number, font: PdfFont = "regular"): number {
+  let units = 0;
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? WIDTHS[font][code - 32] : 556;
+  }
+  return (units * size) / 1000;
+}
+
+// Breaks text into lines that fit the width, splitting long words if need be
+export function wrapText(value: string, width: number, size: number, font: PdfFont = "regular"): string[] {
+  const lines: string[] = [];
+  for (const paragraph of value.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, font) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (textWidth(line, size, font) > width && line.length > 1) {
+        let fit = line.length - 1;
+        while (fit > 1 && textWidth(line.slice(0, fit), size, font) > width) fit--;
+        lines.push(line.slice(0, fit));
+        line = line.slice(fit);
+      }
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+}
+
+function pdfString(value: string): string {
+  let out = "";
+  for (const char of value) {
+    const code = encodeChar(char);
+    const c = String.fromCharCode(code);
+    out += c === "(" || c === ")" || c === "\\" ? `\\${c}` : c;
+  }
+  return `(${out})`;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export function createPdf(info: { title: string }): PdfWriter {
+  const pages: string[][] = [];
+  let current: string[] | null = null;
+
+  function ops(): string[] {
+    if (!current) throw new Error("Add a page before drawing");
+    return current;
+  }
+
+  return {
+    addPage() {
+      current = [];
+      pages.push(current);
+    },
+
+    pageCount() {
+      return pages.length;
+    },
+
+    usePage(index) {
+      current = pages[index];
+    },
+
+    text(x, y, value, options = {}) {
+      const { size = 10, font = "regular", align = "left", gray = 0 } = options;
+      const width = textWidth(value, size, font);
+      const left = align === "right" ? x - width : align === "center" ? x - width / 2 : x;
+      ops().push(
+        `BT ${num(gray)} g /${FONT_NAMES[font]} ${num(size)} Tf ${num(left)} ${num(PAGE.height - y)} Td ${pdfString(value)} Tj ET`
+      );
+    },
+
+    line(x1, y1, x2, y2, options = {}) {
+      const { width = 0.5, gray = 0 } = options;
+      ops().push(
+        `${num(gray)} G ${num(width)} w ${num(x1)} ${num(PAGE.height - y1)} m ${num(x2)} ${num(PAGE.height - y2)} l S`
+      );
+    },
+
+    fillRect(x, y, width, height, gray) {
+      ops().push(`${num(gray)} g ${num(x)} ${num(PAGE.height - y - height)} ${num(width)} ${num(height)} re f`);
+    },
+
+    toBuffer() {
+      // Objects 1-4 are the catalog, page tree and two fonts; each page then
+      // takes a page object and its content stream
+      const objects: Buffer[] = [];
+      const pageRefs = pages.map((_, i) => `${5 + i * 2} 0 R`);
+      const add = (body: string | Buffer) => objects.push(typeof body === "string" ? Buffer.from(body, "latin1") : body);
+
+      add("<< /Type /Catalog /Pages 2 0 R >>");
+      add(`<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pages.length} >>`);
+      add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+      add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+      pages.forEach((page, i) => {
+        add(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE.width)} ${num(PAGE.height)}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`
+        );
+        const content = deflateSync(Buffer.from(page.join("\n"), "latin1"));
+        add(
+          Buffer.concat([
+            Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+            content,
+            Buffer.from("\nendstream", "latin1"),
+          ])
+        );
+      });
+      const infoRef = objects.length + 1;
+      add(`<< /Title ${pdfString(info.title)} /Producer (Timesheet Manager) >>`);
+
+      const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+      let offset = chunks[0].length;
+      const offsets: number[] = [];
+      objects.forEach((body, i) => {
+        const chunk = Buffer.concat([
+          Buffer.from(`${i + 1} 0 obj\n`, "latin1"),
+          body,
+          Buffer.from("\nendobj\n", "latin1"),
+        ]);
+        offsets.push(offset);
+        offset += chunk.length;
+        chunks.push(chunk);
+      });
+
+      const xref = [
+        "xref",
+        `0 ${objects.length + 1}`,
+        "0000000000 65535 f ",
+        ...offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n `),
+        "trailer",
+        `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoRef} 0 R >>`,
+        "startxref",
+        String(offset),
+        "%%EOF",
+      ];
+      chunks.push(Buffer.from(`${xref.join("\n")}\n`, "latin1"));
+      return Buffer.concat(chunks);
+    },
+  };
+}
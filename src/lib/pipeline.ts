@@ -0,0 +1,148 @@
+import {
+  AIExtractionResult,
+  ExtractionCacheInfo,
+  ExtractionEvent,
+  ExtractionIssue,
+  TokenUsage,
+} from "./types";
+import { HttpError } from "./errors";
+import { ExtractionValidationError } from "./extraction";
+import { ExtractionContext, getProvider, withCache } from "./providers";
+import { mergeExtractions } from "./merge";
+import { assignJobs } from "./jobs";
+import { getSettings } from "./settingsStore";
+import { prepareDocument, UnsupportedDocumentError } from "./documents";
+import { finishUsage, reserveUsage } from "./usage";
+import { recordIssued } from "./provenanceStore";
+
+// One extraction, shared by uploads and emailed timesheets
+
+export const MAX_FILES = 10;
+export const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+// Give up on the model a little before the platform would cut the request off
+// (the extract route allows 60 seconds), so the caller hears why
+export const MODEL_TIMEOUT_SECONDS = 55;
+
+export interface ExtractRequest {
+  files: File[];
+  callerId: string; // directory id of whoever asked, for rate limits and usage
+  employeeName: string; // whose timesheet it is
+  mode: "together" | "separate";
+  force: boolean;
+  ip: string; // or where else the request came from, for rate limits and usage
+}
+
+export interface ErrorBody {
+  error: string;
+  issues?: ExtractionIssue[];
+  [detail: string]: unknown;
+}
+
+// The status and body for a failure, shared by the JSON and streamed responses
+export function describeError(err: unknown): { status: number; body: ErrorBody } {
+  if (err instanceof HttpError) {
+    return { status: err.status, body: { error: err.message, ...err.details } };
+  }
+  if (err instanceof ExtractionValidationError) {
+    console.error("[extract] repair failed:", err.issues);
+    return { status: 422, body: { error: err.message, issues: err.issues } };
+  }
+  if (err instanceof UnsupportedDocumentError) {
+    return { status: 400, body: { error: err.message } };
+  }
+  const name = (err as { name?: string } | null)?.name;
+  if (name === "TimeoutError") {
+    return { status: 504, body: { error: `The AI model didn't finish within ${MODEL_TIMEOUT_SECONDS} seconds` } };
+  }
+  if (name === "AbortError") {
+    return { status: 499, body: { error: "Extraction cancelled" } };
+  }
+  return { status: 500, body: { error: err instanceof Error ? err.message : "Extraction failed" } };
+}
+
+// Checks the caller's limits and holds their place before any work starts;
+// the id it returns goes to runExtraction
+export function reserveExtraction(input: ExtractRequest): Promise<string> {
+  const provider = getProvider();
+  return reserveUsage({
+    callerId: input.callerId,
+    employee: input.employeeName,
+    ip: input.ip,
+    provider: provider.name,
+    model: provider.model,
+    files: input.files.length,
+  });
+}
+
+// Runs one extraction, reporting each stage through `emit`, and fills in its
+// reserved usage however it ends
+export async function runExtraction(
+  input: ExtractRequest,
+  usageId: string,
+  emit: (event: ExtractionEvent) => void,
+  signal: AbortSignal
+): Promise<{ result: AIExtractionResult; cache: ExtractionCacheInfo }> {
+  const { files, employeeName, mode, force } = input;
+  const started = Date.now();
+  const calls: TokenUsage[] = [];
+  const provider = withCache(getProvider(), { force });
+  let error: string | null = null;
+
+  try {
+    emit({ type: "stage", stage: "received", message: `Received ${files.length} file(s)` });
+    const jobs = (await getSettings()).jobs.filter((j) => j.active);
+    console.log(
+      "[extract] provider:", provider.name, "model:", provider.model, "files:", files.length, "mode:", mode, "force:", force
+    );
+
+    emit({ type: "stage", stage: "preparing", message: "Preparing documents" });
+    const docs = await Promise.all(
+      files.map(async (file) => prepareDocument(Buffer.from(await file.arrayBuffer()), file.type, file.name))
+    );
+    docs.forEach((doc) =>
+      console.log("[extract] prepared:", doc.filename, doc.fileType, `${doc.pageOrImageCount} page(s)/image(s)`)
+    );
+
+    const context: ExtractionContext = {
+      jobs,
+      signal,
+      onUsage: (usage) => calls.push(usage),
+      onStage: (stage, message) => emit({ type: "stage", stage, message }),
+      onDay: (day) => emit({ type: "day", day }),
+    };
+
+    // "together" sends every file in one request and the model reports where
+    // they disagree; "separate" extracts each file on its own and the merge
+    // collapses duplicate dates. Either way disagreements end up as conflicts.
+    const extractions =
+      mode === "together"
+        ? [{ label: docs.map((d) => d.filename).join(" + "), result: await provider.extract(docs, employeeName, context) }]
+        : await Promise.all(
+            docs.map(async (doc) => ({
+              label: doc.filename,
+              result: await provider.extract([doc], employeeName, context),
+            }))
+          );
+
+    const result: AIExtractionResult = assignJobs(mergeExtractions(extractions), jobs);
+    if (!result.employee.fullName) result.employee.fullName = employeeName;
+    await recordIssued(result);
+
+    emit({ type: "stage", stage: "done", message: `Read ${result.days.length} day(s)` });
+    return { result, cache: provider.stats };
+  } catch (err) {
+    error = describeError(err).body.error;
+    throw err;
+  } finally {
+    await finishUsage(usageId, {
+      modelCalls: calls.length,
+      cacheHits: provider.stats.hits,
+      inputTokens: calls.reduce((sum, u) => sum + u.inputTokens, 0),
+      outputTokens: calls.reduce((sum, u) => sum + u.outputTokens, 0),
+      latencyMs: Date.now() - started,
+      ok: !error,
+      error,
+    }).catch((err) => console.error("[extract] couldn't record usage:", err));
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { KnownValue, trackChange, trackSave } from "./provenance";
+import { generateWeekDays } from "./dates";
+import { DayEntry } from "./types";
+
+const AT = "2025-08-04T09:00:00.000Z";
+const LATER = "2025-08-05T09:00:00.000Z";
+
+function withTimes(day: DayEntry, startTime: string, endTime: string): DayEntry {
+  return { ...day, segments: [{ startTime, endTime, breakMinutes: "30" }] };
+}
+
+// The days as the client sends them: values plus a claim of where they came from
+function claimAi(day: DayEntry, read: DayEntry): DayEntry {
+  return trackChange(day, read, "segments", "ai", 0.9, AT);
+}
+
+describe("trackSave", () => {
+  const [blank] = generateWeekDays("2025-08-04");
+  const aiRead = withTimes(blank, "07:30", "16:00");
+  const known = (): KnownValue[] => [{ source: "ai", day: aiRead, confidence: 0.9 }];
+  const none = (): KnownValue[] => [];
+
+  it("credits the AI with a value it confirms and takes the confidence from the server", () => {
+    const [saved] = trackSave([blank], [claimAi(blank, aiRead)], known, LATER);
+    const provenance = saved.provenance.segments!;
+    expect(provenance.source).toBe("ai");
+    expect(provenance.original).toEqual({ source: "ai", value: "07:30–16:00 (30 min break)", confidence: 0.9 });
+    expect(provenance.history).toHaveLength(1);
+  });
+
+  it("records an unconfirmed AI claim as typed in", () => {
+    const [saved] = trackSave([blank], [claimAi(blank, aiRead)], none, LATER);
+    expect(saved.provenance.segments).toMatchObject({ source: "manual", original: null });
+  });
+
+  it("records the read and then the edit when a read value was changed before saving", () => {
+    const read = claimAi(blank, aiRead);
+    const edited = trackChange(read, withTimes(read, "08:00", "16:00"), "segments", "manual", null, AT);
+    const [saved] = trackSave([blank], [edited], known, LATER);
+    const provenance = saved.provenance.segments!;
+    expect(provenance.source).toBe("manual");
+    expect(provenance.original?.value).toBe("07:30–16:00 (30 min break)");
+    expect(provenance.history.map((h) => [h.source, h.to])).toEqual([
+      ["ai", "07:30–16:00 (30 min break)"],
+      ["manual", "08:00–16:00 (30 min break)"],
+    ]);
+  });
+
+  it("keeps the stored history whatever the client sends", () => {
+    const [stored] = trackSave([blank], [claimAi(blank, aiRead)], known, LATER);
+    const wiped: DayEntry = { ...stored, totalHours: "9", provenance: {} };
+    const [saved] = trackSave([stored], [wiped], known, "2025-08-06T09:00:00.000Z");
+    expect(saved.provenance.segments).toEqual(stored.provenance.segments);
+    expect(saved.provenance.totalHours).toMatchObject({ source: "manual", history: [{ from: "", to: "9" }] });
+  });
+});
@@ -0,0 +1,136 @@
+import { DayEntry, FieldProvenance, TrackedField, ValueSource } from "./types";
+import { describeSegments, emptySegment } from "./hours";
+import { describeAllocations } from "./jobs";
+import { describeTrips } from "./mileage";
+
+export const TRACKED_FIELDS: TrackedField[] = ["segments", "totalHours", "kilometers", "trips", "notes", "allocations"];
+
+export const SOURCE_LABELS: Record<ValueSource, string> = {
+  manual: "Typed in",
+  ai: "AI extraction",
+  template: "Template",
+  import: "Import",
+};
+
+// Keystrokes this close together are one manual edit, not dozens
+const EDIT_WINDOW_MS = 5 * 60 * 1000;
+
+// Every tracked field as the text people see, so edits compare and read the same everywhere
+export function fieldText(day: DayEntry, field: TrackedField): string {
+  if (field === "segments") return describeSegments(day.segments);
+  if (field === "allocations") return describeAllocations(day.allocations);
+  if (field === "trips") return describeTrips(day.trips);
+  return day[field];
+}
+
+// Notes where `after`'s value for a field came from, if it differs from `before`'s.
+// Non-manual values become the field's original; manual edits keep it.
+export function trackChange(
+  before: DayEntry,
+  after: DayEntry,
+  field: TrackedField,
+  source: ValueSource,
+  confidence: number | null = null,
+  at: string = new Date().toISOString()
+): DayEntry {
+  const from = fieldText(before, field);
+  const to = fieldText(after, field);
+  if (from === to) return after;
+
+  const existing = before.provenance[field];
+  const history = existing?.history ?? [];
+  const last = history[history.length - 1];
+  const merge =
+    source === "manual" && last?.source === "manual" && Date.parse(at) - Date.parse(last.at) < EDIT_WINDOW_MS;
+
+  const provenance: FieldProvenance = {
+    source,
+    confidence: source === "manual" ? null : confidence,
+    original: source === "manual" ? existing?.original ?? null : { source, value: to, confidence },
+    history: merge
+      ? [...history.slice(0, -1), { ...last, at, to }]
+      : [...history, { at, source, confidence: source === "manual" ? null : confidence, from, to }],
+  };
+  return { ...after, provenance: { ...after.provenance, [field]: provenance } };
+}
+
+// Tracks every field that changed between two versions of the same days
+export function trackDays(
+  before: DayEntry[],
+  after: DayEntry[],
+  source: ValueSource,
+  at: string = new Date().toISOString()
+): DayEntry[] {
+  const byDate = new Map(before.map((d) => [d.date, d]));
+  return after.map((day) => {
+    const previous = byDate.get(day.date);
+    if (!previous) return day;
+    return TRACKED_FIELDS.reduce((tracked, field) => trackChange(previous, tracked, field, source, null, at), day);
+  });
+}
+
+// A value the server can confirm a field was given by the AI or a template
+export interface KnownValue {
+  source: "ai" | "template";
+  day: DayEntry; // carries the value in the field asked about
+  confidence: number | null;
+}
+
+function blankDay(day: DayEntry): DayEntry {
+  return {
+    ...day,
+    segments: [emptySegment()],
+    allocations: [],
+    totalHours: "",
+    kilometers: "",
+    trips: [],
+    notes: "",
+    provenance: {},
+  };
+}
+
+// Provenance for a save, worked out from the stored days rather than taken
+// from the client. Stored provenance carries over and each changed field is
+// tracked again as typed in, unless the client says it came from the AI or a
+// template and `known` confirms that value; then the read is recorded first,
+// followed by any edit made to it before the save.
+export function trackSave(
+  before: DayEntry[],
+  after: DayEntry[],
+  known: (day: DayEntry, field: TrackedField) => KnownValue[],
+  at: string = new Date().toISOString()
+): DayEntry[] {
+  const byDate = new Map(before.map((d) => [d.date, d]));
+  return after.map((day) => {
+    const stored = byDate.get(day.date) ?? blankDay(day);
+    let tracked: DayEntry = { ...day, provenance: stored.provenance };
+
+    for (const field of TRACKED_FIELDS) {
+      const previous: DayEntry = { ...stored, provenance: tracked.provenance };
+      const claimed = day.provenance[field]?.original;
+      const alreadyStored =
+        claimed &&
+        stored.provenance[field]?.original?.source === claimed.source &&
+        stored.provenance[field]?.original?.value === claimed.value;
+      const read =
+        claimed && !alreadyStored
+          ? known(day, field).find((k) => k.source === claimed.source && fieldText(k.day, field) === claimed.value)
+          : undefined;
+
+      const start = read
+        ? trackChange(previous, { ...previous, [field]: read.day[field] }, field, read.source, read.confidence, at)
+        : previous;
+      const edited = trackChange(start, { ...day, provenance: start.provenance }, field, "manual", null, at);
+      tracked = { ...day, provenance: edited.provenance };
+    }
+    return tracked;
+  });
+}
+
+// An AI value (read from an upload or an emailed sheet) that someone has since changed by hand
+export function editedExtraction(day: DayEntry, field: TrackedField): FieldProvenance | null {
+  const provenance = day.provenance[field];
+  const read = provenance?.original?.source === "ai" || provenance?.original?.source === "import";
+  if (!provenance?.original || provenance.source !== "manual" || !read) return null;
+  return fieldText(day, field) !== provenance.original.value ? provenance : null;
+}
@@ -0,0 +1,56 @@
+import { createHash } from "crypto";
+import { createCollection } from "./store";
+import { validateExtraction } from "./schema";
+import { aiDayToEntry, fieldConfidence } from "./review";
+import { KnownValue, trackSave } from "./provenance";
+import { listTemplates } from "./templateStore";
+import { getSettings } from "./settingsStore";
+import { shiftPeriod } from "./dates";
+import { getTimesheet, timesheetId } from "./timesheets";
+import { AIExtractionResult, DayEntry, TimesheetInput, TrackedField } from "./types";
+
+// Every extraction result handed out, by a hash of its validated form, so a
+// saved timesheet can only credit the AI with values read here
+const issued = createCollection<{ id: string; issuedAt: string }>("issuedExtractions");
+
+function resultHash(result: unknown): string | null {
+  const validated = validateExtraction(result);
+  if (!validated.success) return null;
+  return createHash("sha256").update(JSON.stringify(validated.data)).digest("hex");
+}
+
+export async function recordIssued(result: AIExtractionResult): Promise<void> {
+  const id = resultHash(result);
+  if (id) await issued.put({ id, issuedAt: new Date().toISOString() });
+}
+
+async function wasIssued(result: AIExtractionResult | null): Promise<boolean> {
+  const id = result ? resultHash(result) : null;
+  return !!id && !!(await issued.get(id));
+}
+
+// Works out the provenance of a timesheet sent by a client from the stored
+// record. The client's provenance is only a claim: values it credits to the
+// AI must match an extraction issued here, and values it credits to a
+// template must match one of the employee's templates or their last period.
+export async function trackInput(input: TimesheetInput, stored: DayEntry[] = []): Promise<TimesheetInput> {
+  const extraction = (await wasIssued(input.extraction)) ? input.extraction : null;
+  const { period } = await getSettings();
+  const previousId = timesheetId({ ...input, weekStartDate: shiftPeriod(input.weekStartDate, -1, period) });
+  const previous = (await getTimesheet(previousId).catch(() => null))?.days ?? [];
+  const templates = input.email ? await listTemplates(input.email) : [];
+
+  const known = (day: DayEntry, field: TrackedField): KnownValue[] => {
+    const values: KnownValue[] = [];
+    const aiDay = extraction?.days.find((d) => d.date === day.date);
+    if (aiDay) values.push({ source: "ai", day: aiDayToEntry(aiDay), confidence: fieldConfidence(aiDay, field) });
+    const scheduled = [
+      ...templates.flatMap((t) => t.days).filter((d) => d.dayOfWeek === day.dayOfWeek),
+      ...previous.filter((d) => d.dayOfWeek === day.dayOfWeek),
+    ];
+    scheduled.forEach((d) => values.push({ source: "template", day: { ...day, ...d }, confidence: null }));
+    return values;
+  };
+
+  return { ...input, days: trackSave(stored, input.days, known) };
+}
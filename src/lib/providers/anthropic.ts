@@ -0,0 +1,92 @@
+import { buildRepairPrompt } from "../prompt";
+import { documentText, PreparedDocument } from "../documents";
+import { createModelProvider, ProviderConfigError } from "../extraction";
+import { CompleteFn, ExtractionProvider, ProviderConfig } from "./types";
+import { readEvents } from "./sse";
+
+export function createAnthropicProvider(config: ProviderConfig): ExtractionProvider {
+  const model = config.model || "claude-opus-4-6";
+  const baseUrl = (config.baseUrl || "https://api.anthropic.com").replace(/\/+$/, "");
+  const apiKey = config.apiKey;
+
+  if (!apiKey || apiKey === "your_key_here") {
+    throw new ProviderConfigError(
+      "AI API key not configured. Set AI_API_KEY, ANTHROPIC_API_KEY, or OPENAI_API_KEY as an environment variable."
+    );
+  }
+
+  const nativePdf = config.pdfMode !== "text";
+
+  function documentBlocks(doc: PreparedDocument, index: number): Array<Record<string, unknown>> {
+    const label = { type: "text", text: `File ${index + 1}: ${doc.filename}` };
+    const base64 = doc.buffer.toString("base64");
+
+    if (doc.kind === "image") {
+      return [label, { type: "image", source: { type: "base64", media_type: doc.contentType, data: base64 } }];
+    }
+    if (doc.kind === "pdf" && nativePdf) {
+      return [label, { type: "document", source: { type: "base64", media_type: "application/pdf", data: base64 } }];
+    }
+    return [{ type: "text", text: `File ${index + 1}: ${doc.filename}\nContent:\n${documentText(doc)}` }];
+  }
+
+  const complete: CompleteFn = async (docs, prompt, repair, { signal, onText } = {}) => {
+    const content = [...docs.flatMap(documentBlocks), { type: "text", text: prompt }];
+
+    const url = `${baseUrl}/v1/messages`;
+    console.log("[extract] Anthropic URL:", url);
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "x-api-key": apiKey,
+        "Content-Type": "application/json",
+        "anthropic-version": "2023-06-01",
+      },
+      signal,
+      body: JSON.stringify({
+        model,
+        max_tokens: 4096,
+        stream: true,
+        messages: [
+          { role: "user", content },
+          ...(repair
+            ? [
+                { role: "assistant", content: repair.previous },
+                { role: "user", content: buildRepairPrompt(repair.issues) },
+              ]
+            : []),
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const errText = await response.text();
+      console.error("[extract] Anthropic error response:", response.status, errText);
+      throw new Error(`Anthropic error: ${errText}`);
+    }
+
+    let text = "";
+    const usage = { inputTokens: 0, outputTokens: 0 };
+    for await (const { event, data } of readEvents(response)) {
+      const message = JSON.parse(data);
+      if (event === "message_start") {
+        usage.inputTokens = message.message?.usage?.input_tokens ?? 0;
+      } else if (event === "content_block_delta" && message.delta?.type === "text_delta") {
+        text += message.delta.text;
+        onText?.(message.delta.text);
+      } else if (event === "message_delta") {
+        usage.outputTokens = message.usage?.output_tokens ?? usage.outputTokens;
+      } else if (event === "error") {
+        throw new Error(`Anthropic error: ${message.error?.message ?? data}`);
+      }
+    }
+
+    if (!text) {
+      throw new Error("Anthropic returned an empty response");
+    }
+    return { text, usage };
+  };
+
+  return createModelProvider("Anthropic", model, complete);
+}
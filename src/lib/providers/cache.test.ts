@@ -0,0 +1,107 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { cacheKey, withCache } from "./cache";
+import { ExtractionProvider } from "./types";
+import { PreparedDocument } from "../documents";
+import { validateExtraction } from "../schema";
+import { AIExtractionResult } from "../types";
+
+let dir: string;
+
+function doc(text: string): PreparedDocument {
+  return {
+    kind: "text",
+    filename: "week.txt",
+    contentType: "text/plain",
+    buffer: Buffer.from(text),
+    text,
+    fileType: "txt",
+    pageOrImageCount: 1,
+  };
+}
+
+// A provider that counts its calls and reads the same week every time
+function counting(): ExtractionProvider & { calls: number } {
+  const outcome = validateExtraction({
+    employee: { fullName: "Alex Turner" },
+    days: [{ date: "2025-08-04", work: { startTime: "07:30", endTime: "16:00" } }],
+  });
+  if (!outcome.success) throw new Error("The fixture doesn't validate");
+  const provider = {
+    name: "Stub",
+    model: "stub-1",
+    calls: 0,
+    async extract(): Promise<AIExtractionResult> {
+      provider.calls++;
+      return outcome.data;
+    },
+  };
+  return provider;
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "cache-"));
+  process.env.DATA_DIR = dir;
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("withCache", () => {
+  it("serves a file it has read before from the store", async () => {
+    const provider = counting();
+    const first = withCache(provider);
+    const fresh = await first.extract([doc("Mon 7:30-4")], "Alex Turner");
+
+    const second = withCache(provider);
+    const days: string[] = [];
+    const cached = await second.extract([doc("Mon 7:30-4")], "Alex Turner", { onDay: (d) => days.push(d.date) });
+    expect(cached).toEqual(fresh);
+    expect(provider.calls).toBe(1);
+    expect(first.stats).toEqual({ hits: 0, misses: 1, forced: false });
+    expect(second.stats).toEqual({ hits: 1, misses: 0, forced: false });
+    expect(days).toEqual(["2025-08-04"]);
+  });
+
+  it("reads the file again when forced, storing what it reads", async () => {
+    const provider = counting();
+    await withCache(provider).extract([doc("Mon 7:30-4")], "Alex Turner");
+
+    const forced = withCache(provider, { force: true });
+    await forced.extract([doc("Mon 7:30-4")], "Alex Turner");
+    expect(forced.stats).toEqual({ hits: 0, misses: 1, forced: true });
+    expect(provider.calls).toBe(2);
+
+    await withCache(provider, { force: true }).extract([doc("Tue 8-4:30")], "Alex Turner");
+    await withCache(provider).extract([doc("Tue 8-4:30")], "Alex Turner");
+    expect(provider.calls).toBe(3);
+  });
+
+  it("misses when the employee or the file changes", async () => {
+    const provider = counting();
+    await withCache(provider).extract([doc("Mon 7:30-4")], "Alex Turner");
+    await withCache(provider).extract([doc("Mon 7:30-4")], "Sam Lee");
+    await withCache(provider).extract([doc("Mon 7:30-5")], "Alex Turner");
+    expect(provider.calls).toBe(3);
+  });
+});
+
+describe("cacheKey", () => {
+  const provider = counting();
+  const key = cacheKey(provider, "prompt", [Buffer.from("a"), Buffer.from("b")]);
+
+  it("changes with the prompt, the provider and every file's bytes", () => {
+    expect(cacheKey(provider, "prompt", [Buffer.from("a"), Buffer.from("b")])).toBe(key);
+    expect(cacheKey(provider, "prompt 2", [Buffer.from("a"), Buffer.from("b")])).not.toBe(key);
+    expect(cacheKey({ ...provider, model: "stub-2" }, "prompt", [Buffer.from("a"), Buffer.from("b")])).not.toBe(key);
+    expect(cacheKey(provider, "prompt", [Buffer.from("a"), Buffer.from("c")])).not.toBe(key);
+    expect(cacheKey(provider, "prompt", [Buffer.from("b"), Buffer.from("a")])).not.toBe(key);
+  });
+
+  it("doesn't run the prompt and the files together", () => {
+    expect(cacheKey(provider, "ab", [])).not.toBe(cacheKey(provider, "a", [Buffer.from("b")]));
+  });
+});
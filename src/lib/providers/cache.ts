@@ -0,0 +1,69 @@
+import { createHash } from "crypto";
+import { createCollection } from "../store";
+import { validateExtraction } from "../schema";
+import { buildPrompt } from "../prompt";
+import { AIExtractionResult, ExtractionCacheInfo } from "../types";
+import { ExtractionProvider } from "./types";
+
+interface CachedExtraction {
+  id: string; // the cache key
+  provider: string;
+  model: string;
+  result: AIExtractionResult;
+  createdAt: string;
+}
+
+const extractions = createCollection<CachedExtraction>("extractions");
+
+// The full prompt stands in for a prompt version: it already includes the
+// employee name and job list, and any change to the instructions misses
+export function cacheKey(provider: ExtractionProvider, prompt: string, buffers: Buffer[]): string {
+  const hash = createHash("sha256");
+  [provider.name, provider.model, prompt].forEach((part) => hash.update(part).update("\0"));
+  buffers.forEach((buffer) => hash.update(createHash("sha256").update(buffer).digest()));
+  return hash.digest("hex");
+}
+
+export interface CachedProvider extends ExtractionProvider {
+  stats: ExtractionCacheInfo;
+}
+
+// Serves extractions of files it has seen before from the local store, and
+// stores every fresh one. `force` skips the lookup but still stores the result.
+export function withCache(provider: ExtractionProvider, { force = false } = {}): CachedProvider {
+  const stats: ExtractionCacheInfo = { hits: 0, misses: 0, forced: force };
+
+  return {
+    ...provider,
+    stats,
+    async extract(docs, employeeName, context) {
+      const prompt = buildPrompt(employeeName, docs.length, context?.jobs);
+      const key = cacheKey(provider, prompt, docs.map((d) => d.buffer));
+
+      if (!force) {
+        const cached = await extractions.get(key);
+        // Re-validated so results stored under an older schema still come out current
+        const outcome = cached ? validateExtraction(cached.result) : null;
+        if (outcome?.success) {
+          const names = docs.map((d) => d.filename).join(", ");
+          stats.hits++;
+          console.log(`[extract] cache hit for ${names} (${key.slice(0, 12)})`);
+          context?.onStage?.("validating", `Reusing the earlier extraction of ${names}`);
+          outcome.data.days.forEach((day) => context?.onDay?.(day));
+          return outcome.data;
+        }
+      }
+
+      stats.misses++;
+      const result = await provider.extract(docs, employeeName, context);
+      await extractions.put({
+        id: key,
+        provider: provider.name,
+        model: provider.model,
+        result,
+        createdAt: new Date().toISOString(),
+      });
+      return result;
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { ProviderConfigError } from "../extraction";
+import { createAnthropicProvider } from "./anthropic";
+import { createLocalProvider, createOpenAIProvider } from "./openai";
+import { createReplayProvider, withRecording } from "./replay";
+import { ExtractionProvider, ProviderConfig, ProviderFactory } from "./types";
+
+interface RegisteredProvider {
+  factory: ProviderFactory;
+  // Prefix for per-provider env vars, e.g. OPENAI → OPENAI_MODEL, OPENAI_BASE_URL
+  envPrefix: string;
+}
+
+const registry = new Map<string, RegisteredProvider>();
+
+export function registerProvider(name: string, envPrefix: string, factory: ProviderFactory) {
+  registry.set(name, { factory, envPrefix });
+}
+
+export function listProviders(): string[] {
+  return Array.from(registry.keys());
+}
+
+registerProvider("openai", "OPENAI", createOpenAIProvider);
+registerProvider("anthropic", "ANTHROPIC", createAnthropicProvider);
+registerProvider("local", "LOCAL_AI", createLocalProvider);
+registerProvider("mock", "AI_REPLAY", createReplayProvider);
+registerProvider("replay", "AI_REPLAY", createReplayProvider);
+
+export function resolveProviderName(): string {
+  return process.env.AI_PROVIDER || (process.env.ANTHROPIC_API_KEY ? "anthropic" : "openai");
+}
+
+function resolveConfig(envPrefix: string): ProviderConfig {
+  const env = process.env;
+  return {
+    model: env.AI_MODEL || env[`${envPrefix}_MODEL`],
+    baseUrl: env.AI_BASE_URL || env[`${envPrefix}_BASE_URL`],
+    apiKey: env.AI_API_KEY || env[`${envPrefix}_API_KEY`],
+    replayDir: env.AI_REPLAY_DIR,
+    pdfMode: env.AI_PDF_MODE === "text" ? "text" : "native",
+  };
+}
+
+export function getProvider(name = resolveProviderName()): ExtractionProvider {
+  const registered = registry.get(name);
+  if (!registered) {
+    throw new ProviderConfigError(`Unknown AI provider: ${name}. Available: ${listProviders().join(", ")}`);
+  }
+
+  const provider = registered.factory(resolveConfig(registered.envPrefix));
+  const recordDir = process.env.AI_RECORD_DIR;
+  return recordDir ? withRecording(provider, recordDir) : provider;
+}
+
+export { withCache } from "./cache";
+export type { CachedProvider } from "./cache";
+export type { ExtractionContext, ExtractionProvider, ProviderConfig } from "./types";
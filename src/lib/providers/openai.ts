@@ -0,0 +1,139 @@
+import { buildRepairPrompt } from "../prompt";
+import { documentText, PreparedDocument } from "../documents";
+import { createModelProvider, ProviderConfigError } from "../extraction";
+import { CompleteFn, ExtractionProvider, ProviderConfig } from "./types";
+import { readEvents } from "./sse";
+
+interface OpenAICompatibleOptions {
+  name: string;
+  defaultModel: string;
+  defaultBaseUrl: string;
+  requireApiKey: boolean;
+  // Self-hosted servers often reject OpenAI's json_object response format
+  jsonMode: boolean;
+  nativePdf: boolean;
+  // Token counts in a streamed response have to be asked for, and not every server understands the option
+  streamUsage: boolean;
+}
+
+function createOpenAICompatibleProvider(
+  options: OpenAICompatibleOptions,
+  config: ProviderConfig
+): ExtractionProvider {
+  const model = config.model || options.defaultModel;
+  const baseUrl = (config.baseUrl || options.defaultBaseUrl).replace(/\/+$/, "");
+  const apiKey = config.apiKey;
+
+  if (options.requireApiKey && (!apiKey || apiKey === "your_key_here")) {
+    throw new ProviderConfigError(
+      "AI API key not configured. Set AI_API_KEY, ANTHROPIC_API_KEY, or OPENAI_API_KEY as an environment variable."
+    );
+  }
+
+  const nativePdf = options.nativePdf && config.pdfMode !== "text";
+
+  function documentParts(doc: PreparedDocument, index: number): Array<Record<string, unknown>> {
+    const label = { type: "text", text: `File ${index + 1}: ${doc.filename}` };
+    const base64 = doc.buffer.toString("base64");
+
+    if (doc.kind === "image") {
+      return [label, { type: "image_url", image_url: { url: `data:${doc.contentType};base64,${base64}` } }];
+    }
+    if (doc.kind === "pdf" && nativePdf) {
+      return [
+        label,
+        { type: "file", file: { filename: doc.filename, file_data: `data:application/pdf;base64,${base64}` } },
+      ];
+    }
+    return [{ type: "text", text: `File ${index + 1}: ${doc.filename}\nContent:\n${documentText(doc)}` }];
+  }
+
+  const complete: CompleteFn = async (docs, prompt, repair, { signal, onText } = {}) => {
+    const messages: Array<Record<string, unknown>> = [
+      {
+        role: "user",
+        content: [{ type: "text", text: prompt }, ...docs.flatMap(documentParts)],
+      },
+    ];
+
+    if (repair) {
+      messages.push({ role: "assistant", content: repair.previous });
+      messages.push({ role: "user", content: buildRepairPrompt(repair.issues) });
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      signal,
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: 0,
+        stream: true,
+        ...(options.streamUsage ? { stream_options: { include_usage: true } } : {}),
+        ...(options.jsonMode ? { response_format: { type: "json_object" } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${options.name} error: ${await response.text()}`);
+    }
+
+    let content = "";
+    const usage = { inputTokens: 0, outputTokens: 0 };
+    for await (const { data } of readEvents(response)) {
+      if (data === "[DONE]") break;
+      const chunk = JSON.parse(data);
+      const delta: string | undefined = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onText?.(delta);
+      }
+      if (chunk.usage) {
+        usage.inputTokens = chunk.usage.prompt_tokens ?? 0;
+        usage.outputTokens = chunk.usage.completion_tokens ?? 0;
+      }
+    }
+
+    if (!content) {
+      throw new Error(`${options.name} returned an empty response`);
+    }
+    return { text: content, usage };
+  };
+
+  return createModelProvider(options.name, model, complete);
+}
+
+export function createOpenAIProvider(config: ProviderConfig): ExtractionProvider {
+  return createOpenAICompatibleProvider(
+    {
+      name: "OpenAI",
+      defaultModel: "gpt-4o",
+      defaultBaseUrl: "https://api.openai.com/v1",
+      requireApiKey: true,
+      jsonMode: true,
+      nativePdf: true,
+      streamUsage: true,
+    },
+    config
+  );
+}
+
+// Any server speaking the OpenAI chat completions API (Ollama, vLLM, LM Studio…)
+export function createLocalProvider(config: ProviderConfig): ExtractionProvider {
+  return createOpenAICompatibleProvider(
+    {
+      name: "Local model",
+      defaultModel: "llama3.2-vision",
+      defaultBaseUrl: "http://localhost:11434/v1",
+      requireApiKey: false,
+      jsonMode: false,
+      nativePdf: false,
+      streamUsage: false,
+    },
+    config
+  );
+}
@@ -0,0 +1,70 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { validateExtraction } from "../schema";
+import { ExtractionValidationError, withSource } from "../extraction";
+import { PreparedDocument } from "../documents";
+import { ExtractionProvider, ProviderConfig } from "./types";
+
+const DEFAULT_REPLAY_DIR = "fixtures/extractions";
+
+export function fileHash(docs: PreparedDocument[]): string {
+  const hash = createHash("sha256");
+  docs.forEach((doc) => hash.update(doc.buffer));
+  return hash.digest("hex");
+}
+
+function resolveDir(dir?: string): string {
+  return path.resolve(process.cwd(), dir || DEFAULT_REPLAY_DIR);
+}
+
+async function readRecording(dir: string, name: string): Promise<unknown | null> {
+  try {
+    return JSON.parse(await readFile(path.join(dir, name), "utf-8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+// Serves recorded extractions from disk: <sha256 of the files>.json, falling back
+// to default.json. No network, no API key — for local development and tests.
+export function createReplayProvider(config: ProviderConfig): ExtractionProvider {
+  const dir = resolveDir(config.replayDir);
+
+  return {
+    name: "Replay",
+    model: "replay",
+    async extract(docs, _employeeName, context = {}) {
+      const hash = fileHash(docs);
+      const names = docs.map((d) => d.filename).join(", ");
+      const recorded = (await readRecording(dir, `${hash}.json`)) ?? (await readRecording(dir, "default.json"));
+      if (recorded === null) {
+        throw new Error(`No recorded extraction for ${names} (${hash}.json) and no default.json in ${dir}`);
+      }
+
+      console.log(`[extract] replaying recording for ${names} (${hash.slice(0, 12)})`);
+      const outcome = validateExtraction(recorded);
+      if (!outcome.success) {
+        throw new ExtractionValidationError(outcome.issues);
+      }
+      outcome.data.days.forEach((day) => context.onDay?.(day));
+      return withSource(outcome.data, docs);
+    },
+  };
+}
+
+// Saves every successful extraction under its file hash so it can be replayed later
+export function withRecording(provider: ExtractionProvider, dir: string): ExtractionProvider {
+  const target = resolveDir(dir);
+
+  return {
+    ...provider,
+    async extract(docs, employeeName, context) {
+      const result = await provider.extract(docs, employeeName, context);
+      await mkdir(target, { recursive: true });
+      await writeFile(path.join(target, `${fileHash(docs)}.json`), JSON.stringify(result, null, 2));
+      return result;
+    },
+  };
+}
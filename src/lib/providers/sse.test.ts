@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { readEvents } from "./sse";
+
+// A streamed response that arrives in exactly these chunks
+function response(...chunks: Array<string | Uint8Array>): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk));
+      controller.close();
+    },
+  });
+  return new Response(body);
+}
+
+async function collect(res: Response) {
+  const events = [];
+  for await (const event of readEvents(res)) events.push(event);
+  return events;
+}
+
+describe("readEvents", () => {
+  it("reads named and unnamed events, joining multi-line data", async () => {
+    const events = await collect(
+      response('event: message_start\ndata: {"a":1}\n\ndata: first\ndata: second\n\n: a comment\n\n')
+    );
+    expect(events).toEqual([
+      { event: "message_start", data: '{"a":1}' },
+      { event: null, data: "first\nsecond" },
+    ]);
+  });
+
+  it("puts back together an event split across chunks", async () => {
+    const events = await collect(response("event: del", 'ta\ndata: {"text":', '"hi"}\n', "\n", "data: [DONE]\n\n"));
+    expect(events).toEqual([
+      { event: "delta", data: '{"text":"hi"}' },
+      { event: null, data: "[DONE]" },
+    ]);
+  });
+
+  it("reads CRLF line endings, even with the blank line split across chunks", async () => {
+    const events = await collect(response("event: a\r\ndata: 1\r\n\r", "\ndata: 2\r", "\n\r\n"));
+    expect(events).toEqual([
+      { event: "a", data: "1" },
+      { event: null, data: "2" },
+    ]);
+  });
+
+  it("keeps a character whose bytes are split across chunks", async () => {
+    const bytes = new TextEncoder().encode("data: 7:30–4\n\n");
+    const dash = bytes.indexOf(0xe2);
+    const events = await collect(response(bytes.slice(0, dash + 1), bytes.slice(dash + 1)));
+    expect(events).toEqual([{ event: null, data: "7:30–4" }]);
+  });
+
+  it("drops an event the stream ends in the middle of", async () => {
+    expect(await collect(response("data: 1\n\ndata: 2"))).toEqual([{ event: null, data: "1" }]);
+  });
+});
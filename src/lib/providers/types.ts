@@ -0,0 +1,52 @@
+import { AIExtractionDay, AIExtractionResult, ExtractionIssue, ExtractionStage, Job, TokenUsage } from "../types";
+import { PreparedDocument } from "../documents";
+
+// Organisation data the model can use to map what it reads onto known records
+export interface ExtractionContext {
+  jobs?: Job[];
+  onUsage?: (usage: TokenUsage) => void; // called after every model round trip, repairs included
+  onStage?: (stage: ExtractionStage, message: string) => void;
+  onDay?: (day: AIExtractionDay) => void; // each day as soon as the model has written it
+  signal?: AbortSignal; // cancels the model call
+}
+
+export interface ExtractionProvider {
+  name: string;
+  model: string;
+  extract(docs: PreparedDocument[], employeeName: string, context?: ExtractionContext): Promise<AIExtractionResult>;
+}
+
+export interface ProviderConfig {
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  replayDir?: string;
+  // "native" sends PDFs as document input where the API supports it,
+  // "text" always sends the extracted page text
+  pdfMode?: "native" | "text";
+}
+
+export interface RepairRequest {
+  previous: string;
+  issues: ExtractionIssue[];
+}
+
+export interface Completion {
+  text: string;
+  usage: TokenUsage; // zeros when the server doesn't report it
+}
+
+export interface CompleteOptions {
+  signal?: AbortSignal;
+  onText?: (text: string) => void; // each chunk of the response as it streams in
+}
+
+// A single model round trip: prompt (plus an optional repair turn) → raw text
+export type CompleteFn = (
+  docs: PreparedDocument[],
+  prompt: string,
+  repair?: RepairRequest,
+  options?: CompleteOptions
+) => Promise<Completion>;
+
+export type ProviderFactory = (config: ProviderConfig) => ExtractionProvider;
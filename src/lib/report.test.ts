@@ -0,0 +1,88 @@
+import { inflateSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { generateTimesheetPDF, ReportSheet } from "./report";
+import { generateWeekDays } from "./dates";
+import { DEFAULT_PAYROLL, DEFAULT_PERIOD, DEFAULT_SETTINGS } from "./settings";
+import { DayEntry, OrgSettings } from "./types";
+
+const NOW = new Date("2025-09-01T09:00:00.000Z");
+const monthly: OrgSettings = {
+  ...DEFAULT_SETTINGS,
+  period: { ...DEFAULT_PERIOD, length: "monthly", includeWeekends: true },
+};
+
+function sheet(name: string, weekStartDate: string, days: DayEntry[]): ReportSheet {
+  return {
+    timesheet: {
+      id: `${name}--${weekStartDate}`,
+      email: "",
+      employeeName: name,
+      weekStartDate,
+      days,
+      extraction: null,
+      confidences: {},
+      warnings: [],
+      conflicts: [],
+      validation: null,
+      status: "approved",
+      history: [],
+      decidedBy: null,
+      decidedAt: null,
+      inbound: null,
+      createdAt: NOW.toISOString(),
+      updatedAt: NOW.toISOString(),
+    },
+    employee: { ...DEFAULT_PAYROLL, name, employeeId: "" },
+  };
+}
+
+// Each page's content stream, decompressed, in page order
+function pages(pdf: Buffer): string[] {
+  const text = pdf.toString("latin1");
+  return Array.from(text.matchAll(/<< \/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/g), (match) => {
+    const start = (match.index ?? 0) + match[0].length;
+    return inflateSync(pdf.subarray(start, start + Number(match[1]))).toString("latin1");
+  });
+}
+
+describe("generateTimesheetPDF", () => {
+  it("starts each employee of a batch on a new page, numbering them all", () => {
+    const week = () => generateWeekDays("2025-08-04").map((d) => ({ ...d, totalHours: "8" }));
+    const pdf = generateTimesheetPDF(
+      [sheet("Alex Turner", "2025-08-04", week()), sheet("Sam Lee", "2025-08-04", week())],
+      DEFAULT_SETTINGS,
+      NOW
+    );
+
+    const [first, second] = pages(pdf);
+    expect(pages(pdf)).toHaveLength(2);
+    expect(first).toContain("(Alex Turner) Tj");
+    expect(first).not.toContain("(Sam Lee) Tj");
+    expect(second).toContain("(Sam Lee) Tj");
+    expect(second).toContain("(Page 2 of 2) Tj");
+    expect(pdf.toString("latin1")).toContain("/Title (Timesheets \\(2\\))");
+  });
+
+  it("continues a long period on a new page under the same column headings", () => {
+    const days = generateWeekDays("2025-08-01", monthly.period).map((d) => ({
+      ...d,
+      totalHours: "8",
+      notes: "Harbour Rd job for Acme Builders, pouring the slab on level two, then cleaning up the site",
+    }));
+    const report = pages(generateTimesheetPDF([sheet("Alex Turner", "2025-08-01", days)], monthly, NOW));
+
+    expect(report.length).toBeGreaterThan(1);
+    expect(report[1]).toContain("(Alex Turner, 2025-08-01 to 2025-08-31 \\(continued\\)) Tj");
+    report.slice(0, -1).forEach((page) => {
+      expect(page).toContain("(Date) Tj");
+      expect(page).toContain("(Notes) Tj");
+    });
+    // Every day is on one page or another, once
+    const listed = report.join("\n").match(/\((MON|TUE|WED|THU|FRI|SAT|SUN) 2025-08-\d{2}\) Tj/g);
+    expect(listed).toHaveLength(31);
+  });
+
+  it("still gives an empty batch a page", () => {
+    expect(pages(generateTimesheetPDF([], DEFAULT_SETTINGS, NOW))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,200 @@
+import { DayEntry, OrgSettings, PayrollProfile, TimesheetRecord } from "./types";
+import { createPdf, PAGE, PdfWriter, TextOptions, wrapText } from "./pdf";
+import { dayHours, hasTimes } from "./hours";
+import { limitRates, splitHours, totalByRate } from "./payRules";
+import { describeValidation } from "./signOff";
+import { dayKilometers, describeTrips } from "./mileage";
+import { formatDate, getPeriodEnd } from "./dates";
+import { findEmployeeByEmail, payrollFor } from "./employees";
+import { STATUS_LABELS } from "./workflow";
+
+export interface ReportSheet {
+  timesheet: TimesheetRecord;
+  employee: PayrollProfile & { name: string; employeeId: string };
+}
+
+const MARGIN = 40;
+const BOTTOM = PAGE.height - 50; // leaves room for the footer
+const CONTENT_WIDTH = PAGE.width - MARGIN * 2;
+const LINE = 12;
+
+// Date, start, end, break, hours and km are fixed; notes take what's left
+const COLUMNS = [
+  { label: "Date", width: 95, align: "left" },
+  { label: "Start", width: 48, align: "left" },
+  { label: "End", width: 48, align: "left" },
+  { label: "Break (min)", width: 62, align: "right" },
+  { label: "Hours", width: 50, align: "right" },
+  { label: "Km", width: 45, align: "right" },
+  { label: "Notes", width: 0, align: "left" },
+] as const;
+const NOTES_WIDTH = CONTENT_WIDTH - COLUMNS.reduce((sum, c) => sum + c.width, 0);
+
+// Names, IDs and rates come from the directory, as for the Xero export
+export async function reportSheet(timesheet: TimesheetRecord): Promise<ReportSheet> {
+  const directory = timesheet.email ? await findEmployeeByEmail(timesheet.email) : null;
+  return { timesheet, employee: { ...(await payrollFor(timesheet)), employeeId: directory?.employeeId ?? "" } };
+}
+
+function columnX(index: number): number {
+  return MARGIN + COLUMNS.slice(0, index).reduce((sum, c) => sum + c.width, 0);
+}
+
+function cell(pdf: PdfWriter, index: number, y: number, value: string, options: TextOptions = {}) {
+  const column = COLUMNS[index];
+  const x = column.align === "right" ? columnX(index) + column.width - 8 : columnX(index);
+  pdf.text(x, y, value, { size: 9, align: column.align, ...options });
+}
+
+function tableHeader(pdf: PdfWriter, y: number): number {
+  pdf.fillRect(MARGIN, y, CONTENT_WIDTH, 18, 0.92);
+  COLUMNS.forEach((column, i) => cell(pdf, i, y + 12.5, column.label, { font: "bold" }));
+  return y + 18;
+}
+
+// One line per segment, so split shifts keep their own start, end and break
+function dayLines(day: DayEntry): { start: string; end: string; breakMinutes: string }[] {
+  return day.segments
+    .filter((s) => hasTimes([s]) || parseFloat(s.breakMinutes))
+    .map((s) => ({
+      start: s.startTime,
+      end: s.endTime,
+      breakMinutes: parseFloat(s.breakMinutes) ? s.breakMinutes : "",
+    }));
+}
+
+function labelled(pdf: PdfWriter, x: number, y: number, label: string, value: string) {
+  pdf.text(x, y, label, { size: 8, gray: 0.4 });
+  pdf.text(x, y + 12, value || "—", { size: 10 });
+}
+
+function drawSheet(pdf: PdfWriter, sheet: ReportSheet, settings: OrgSettings) {
+  const { timesheet, employee } = sheet;
+  const { rounding, payRules } = settings;
+  const days = [...timesheet.days].sort((a, b) => a.date.localeCompare(b.date));
+  const periodEnd = getPeriodEnd(timesheet.weekStartDate, settings.period);
+
+  pdf.addPage();
+  let y = MARGIN + 16;
+  pdf.text(MARGIN, y, "Timesheet", { size: 18, font: "bold" });
+  pdf.text(PAGE.width - MARGIN, y, STATUS_LABELS[timesheet.status], { size: 11, font: "bold", align: "right" });
+  y += 26;
+
+  labelled(pdf, MARGIN, y, "Employee", employee.name);
+  labelled(pdf, MARGIN + 190, y, "Employee ID", employee.employeeId);
+  labelled(pdf, MARGIN + 330, y, "Period", `${timesheet.weekStartDate} to ${periodEnd}`);
+  y += 32;
+  labelled(pdf, MARGIN, y, "Email", timesheet.email);
+  if (timesheet.decidedBy) {
+    const decided = `${timesheet.decidedBy}, ${timesheet.decidedAt?.slice(0, 10) ?? ""}`;
+    labelled(pdf, MARGIN + 190, y, `${STATUS_LABELS[timesheet.status]} by`, decided);
+  }
+  y += 36;
+
+  y = tableHeader(pdf, y);
+  let totalBreak = 0;
+  let totalHours = 0;
+  let totalKm = 0;
+
+  for (const day of days) {
+    const lines = dayLines(day);
+    const trips = describeTrips(day.trips);
+    const notes = wrapText([day.notes, trips && `Trips: ${trips}`].filter(Boolean).join("\n"), NOTES_WIDTH, 9);
+    const height = Math.max(lines.length, notes.length, 1) * LINE + 6;
+    if (y + height > BOTTOM) {
+      pdf.addPage();
+      pdf.text(MARGIN, MARGIN + 10, `${employee.name}, ${timesheet.weekStartDate} to ${periodEnd} (continued)`, {
+        size: 9,
+        gray: 0.4,
+      });
+      y = tableHeader(pdf, MARGIN + 20);
+    }
+
+    const hours = dayHours(day, rounding);
+    const km = dayKilometers(day);
+    totalHours += hours;
+    totalKm += km;
+    const top = y + LINE;
+    cell(pdf, 0, top, `${day.dayOfWeek} ${day.date}`);
+    lines.forEach((line, i) => {
+      totalBreak += parseFloat(line.breakMinutes) || 0;
+      cell(pdf, 1, top + i * LINE, line.start);
+      cell(pdf, 2, top + i * LINE, line.end);
+      cell(pdf, 3, top + i * LINE, line.breakMinutes);
+    });
+    cell(pdf, 4, top, hours ? hours.toFixed(2) : "");
+    cell(pdf, 5, top, km ? String(km) : "");
+    notes.forEach((line, i) => cell(pdf, 6, top + i * LINE, line));
+    y += height;
+    pdf.line(MARGIN, y, PAGE.width - MARGIN, y, { gray: 0.8 });
+  }
+
+  y += LINE + 2;
+  cell(pdf, 0, y, "Total", { font: "bold" });
+  cell(pdf, 3, y, totalBreak ? String(totalBreak) : "", { font: "bold" });
+  cell(pdf, 4, y, totalHours.toFixed(2), { font: "bold" });
+  cell(pdf, 5, y, totalKm ? String(totalKm) : "", { font: "bold" });
+
+  const rates = totalByRate(limitRates(splitHours(days, payRules, rounding), employee.eligibleRates, payRules));
+  if (rates.length > 1) {
+    y += LINE + 4;
+    pdf.text(MARGIN, y, rates.map((r) => `${r.rate}: ${r.hours.toFixed(2)}`).join("   "), { size: 9, gray: 0.3 });
+  }
+
+  // What was read off the paper sheet, then lines to sign this copy
+  const signOff = describeValidation(timesheet.validation);
+  const needed = (signOff.length ? Math.ceil(signOff.length / 2) * 32 + 30 : 0) + 110;
+  y += 28;
+  if (y + needed > BOTTOM) {
+    pdf.addPage();
+    y = MARGIN + 10;
+  }
+
+  if (signOff.length) {
+    pdf.text(MARGIN, y, "From the submitted sheet", { size: 11, font: "bold" });
+    y += 16;
+    signOff.forEach(([label, value], i) => {
+      const text = wrapText(value, CONTENT_WIDTH / 2 - 20, 10)[0] ?? "";
+      labelled(pdf, MARGIN + (i % 2) * (CONTENT_WIDTH / 2), y + Math.floor(i / 2) * 32, label, text);
+    });
+    y += Math.ceil(signOff.length / 2) * 32 + 14;
+  }
+
+  const supervisor = timesheet.validation?.supervisor.name || timesheet.validation?.client.name || "";
+  const signers = [
+    { x: MARGIN, label: "Employee signature", name: employee.name },
+    { x: MARGIN + CONTENT_WIDTH / 2 + 10, label: "Supervisor / client signature", name: supervisor },
+  ];
+  y += 40;
+  for (const signer of signers) {
+    const width = CONTENT_WIDTH / 2 - 10;
+    pdf.line(signer.x, y, signer.x + width - 90, y);
+    pdf.line(signer.x + width - 75, y, signer.x + width, y);
+    pdf.text(signer.x, y + 11, signer.label, { size: 8, gray: 0.4 });
+    pdf.text(signer.x + width - 75, y + 11, "Date", { size: 8, gray: 0.4 });
+    if (signer.name) pdf.text(signer.x, y + 23, signer.name, { size: 9 });
+  }
+}
+
+// One or many employees' timesheets, each starting on a new page
+export function generateTimesheetPDF(sheets: ReportSheet[], settings: OrgSettings, now = new Date()): Buffer {
+  const title =
+    sheets.length === 1
+      ? `Timesheet ${sheets[0].employee.name} ${sheets[0].timesheet.weekStartDate}`
+      : `Timesheets (${sheets.length})`;
+  const pdf = createPdf({ title });
+  sheets.forEach((sheet) => drawSheet(pdf, sheet, settings));
+  if (pdf.pageCount() === 0) pdf.addPage();
+
+  const generated = formatDate(now, settings.timeZone);
+  for (let i = 0; i < pdf.pageCount(); i++) {
+    pdf.usePage(i);
+    pdf.text(MARGIN, PAGE.height - 25, `Generated ${generated}`, { size: 8, gray: 0.5 });
+    pdf.text(PAGE.width - MARGIN, PAGE.height - 25, `Page ${i + 1} of ${pdf.pageCount()}`, {
+      size: 8,
+      gray: 0.5,
+      align: "right",
+    });
+  }
+  return pdf.toBuffer();
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { applyReview, buildReview, fieldConfidence, selectEmptyOnly } from "./review";
+import { generateWeekDays } from "./dates";
+import { validateExtraction } from "./schema";
+import { AIExtractionResult } from "./types";
+
+const AT = "2025-08-08T09:00:00.000Z";
+
+function extraction(days: unknown[]): AIExtractionResult {
+  const outcome = validateExtraction({ employee: { fullName: "Alex Turner" }, days });
+  if (!outcome.success) throw new Error(JSON.stringify(outcome.issues));
+  return outcome.data;
+}
+
+// Monday to Friday of the week of 4 August with a 30 minute default break
+function week() {
+  return generateWeekDays("2025-08-04", undefined, { defaultBreakMinutes: 30 });
+}
+
+const monday = {
+  date: "2025-08-04",
+  work: { startTime: "07:30", endTime: "16:00", breakMinutes: 30, totalHours: 8 },
+  notes: "Smith St",
+  confidence: { overall: 0.9, fields: { startTime: 0.95, endTime: 0.8, breakMinutes: 0.6, totalHours: 0.9 } },
+};
+
+describe("buildReview", () => {
+  it("sets aside days the grid has no row for", () => {
+    const review = buildReview(week(), extraction([monday, { date: "2025-08-09", work: { totalHours: 4 } }]));
+    expect(review.days.map((d) => d.date)).toEqual(["2025-08-04"]);
+    expect(review.outsidePeriod.map((d) => [d.date, d.totalHours])).toEqual([["2025-08-09", "4"]]);
+  });
+
+  it("only lists fields the extraction would change", () => {
+    const days = week();
+    days[0].notes = "Smith St";
+    const [day] = buildReview(days, extraction([monday])).days;
+    expect(day.changes.map((c) => c.field)).toEqual(["segments", "totalHours"]);
+  });
+
+  it("counts a day with only the default break as blank", () => {
+    const days = week();
+    days[1].segments = [{ startTime: "08:00", endTime: "", breakMinutes: "30" }];
+    const review = buildReview(days, extraction([monday, { ...monday, date: "2025-08-05" }]));
+
+    const blank = review.days.map((d) => [d.date, d.changes.find((c) => c.field === "segments")?.blank]);
+    expect(blank).toEqual([
+      ["2025-08-04", true],
+      ["2025-08-05", false],
+    ]);
+  });
+});
+
+describe("selectEmptyOnly", () => {
+  it("selects values for blank fields and leaves what's been entered", () => {
+    const days = week();
+    days[0].totalHours = "7.5";
+    const review = buildReview(days, extraction([monday]));
+    expect(selectEmptyOnly(review)).toEqual({ "2025-08-04": { segments: true, totalHours: false, notes: true } });
+  });
+});
+
+describe("applyReview", () => {
+  it("writes only the selected values, noting each as the AI's with its confidence", () => {
+    const days = week();
+    const review = buildReview(days, extraction([monday]));
+    const applied = applyReview(days, review, { "2025-08-04": { segments: true, notes: false } }, AT);
+
+    expect(applied[0].segments).toEqual([{ startTime: "07:30", endTime: "16:00", breakMinutes: "30" }]);
+    expect(applied[0].totalHours).toBe("");
+    expect(applied[0].notes).toBe("");
+    expect(applied[0].provenance.segments).toMatchObject({ source: "ai", confidence: 0.6 });
+    expect(Object.keys(applied[0].provenance)).toEqual(["segments"]);
+    // Days the extraction didn't touch are passed through as they were
+    applied.slice(1).forEach((day, i) => expect(day).toBe(days[i + 1]));
+  });
+
+  it("records emailed values as imported", () => {
+    const days = week();
+    const review = buildReview(days, extraction([monday]));
+    const [applied] = applyReview(days, review, selectEmptyOnly(review), AT, "import");
+    expect(applied.provenance.totalHours).toMatchObject({ source: "import", confidence: 0.9 });
+  });
+});
+
+describe("fieldConfidence", () => {
+  it("rates the times by the least confident of start, end and break", () => {
+    const [day] = extraction([monday]).days;
+    expect(fieldConfidence(day, "segments")).toBe(0.6);
+    expect(fieldConfidence(day, "notes")).toBeNull();
+  });
+});
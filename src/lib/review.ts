@@ -0,0 +1,167 @@
+import { AIExtractionDay, AIExtractionResult, DayEntry, TrackedField, ValueSource } from "./types";
+import { emptySegment, hasTimes } from "./hours";
+import { fieldText, trackChange, TRACKED_FIELDS } from "./provenance";
+
+export type ReviewField = TrackedField;
+
+export const REVIEW_FIELDS: ReviewField[] = TRACKED_FIELDS;
+
+export const REVIEW_FIELD_LABELS: Record<ReviewField, string> = {
+  segments: "Times",
+  totalHours: "Hours",
+  kilometers: "Km",
+  trips: "Trips",
+  notes: "Notes",
+  allocations: "Jobs",
+};
+
+export interface FieldChange {
+  field: ReviewField;
+  current: string;
+  extracted: string;
+  confidence: number | null;
+  blank: boolean; // nothing entered yet; a default break alone still counts
+}
+
+export interface DayReview {
+  date: string;
+  dayOfWeek: DayEntry["dayOfWeek"];
+  changes: FieldChange[];
+  extracted: DayEntry; // applied values are copied from here
+}
+
+export interface ExtractionReview {
+  days: DayReview[]; // days in the current grid that the extraction would change
+  outsidePeriod: DayEntry[]; // extracted days the current grid has no row for
+}
+
+// date -> field -> accepted
+export type ReviewSelection = Record<string, Partial<Record<ReviewField, boolean>>>;
+
+export function aiDayToEntry(aiDay: AIExtractionDay): DayEntry {
+  const segments = aiDay.work.segments.map((s) => ({
+    startTime: s.startTime || "",
+    endTime: s.endTime || "",
+    breakMinutes: s.breakMinutes != null ? String(s.breakMinutes) : "",
+  }));
+  return {
+    date: aiDay.date,
+    dayOfWeek: aiDay.dayOfWeek,
+    segments: segments.length ? segments : [emptySegment()],
+    allocations: aiDay.allocations.map((a) => ({ jobCode: a.jobCode, hours: a.hours != null ? String(a.hours) : "" })),
+    totalHours: aiDay.work.totalHours != null ? String(aiDay.work.totalHours) : "",
+    kilometers: aiDay.work.kilometers != null ? String(aiDay.work.kilometers) : "",
+    trips: aiDay.trips.map((t) => ({
+      from: t.from ?? "",
+      to: t.to ?? "",
+      purpose: t.purpose ?? "",
+      vehicle: t.vehicle ?? "",
+      kilometers: t.kilometers != null ? String(t.kilometers) : "",
+    })),
+    notes: aiDay.notes || "",
+    provenance: {},
+  };
+}
+
+// The model scores start, end and break separately; the segments are only as good as the weakest
+export function fieldConfidence(aiDay: AIExtractionDay, field: ReviewField): number | null {
+  const fields = aiDay.confidence.fields;
+  if (field === "trips") return fields.trips ?? fields.kilometers ?? null;
+  if (field !== "segments") return fields[field] ?? null;
+  const known = [fields.segments, fields.startTime, fields.endTime, fields.breakMinutes].filter(
+    (c): c is number => c != null
+  );
+  return known.length ? Math.min(...known) : null;
+}
+
+export function buildReview(current: DayEntry[], result: AIExtractionResult): ExtractionReview {
+  const byDate = new Map(current.map((d) => [d.date, d]));
+  const review: ExtractionReview = { days: [], outsidePeriod: [] };
+
+  for (const aiDay of result.days) {
+    const extracted = aiDayToEntry(aiDay);
+    const existing = byDate.get(aiDay.date);
+    if (!existing) {
+      review.outsidePeriod.push(extracted);
+      continue;
+    }
+
+    const changes = REVIEW_FIELDS.map((field) => ({
+      field,
+      current: fieldText(existing, field),
+      extracted: fieldText(extracted, field),
+      confidence: fieldConfidence(aiDay, field),
+      blank: field === "segments" ? !hasTimes(existing.segments) : !fieldText(existing, field),
+    })).filter((change) => change.extracted && change.extracted !== change.current);
+
+    if (changes.length) {
+      review.days.push({ date: aiDay.date, dayOfWeek: aiDay.dayOfWeek, changes, extracted });
+    }
+  }
+
+  return review;
+}
+
+function select(review: ExtractionReview, include: (change: FieldChange) => boolean): ReviewSelection {
+  const selection: ReviewSelection = {};
+  for (const day of review.days) {
+    selection[day.date] = {};
+    for (const change of day.changes) {
+      selection[day.date][change.field] = include(change);
+    }
+  }
+  return selection;
+}
+
+export function selectAll(review: ExtractionReview): ReviewSelection {
+  return select(review, () => true);
+}
+
+export function selectEmptyOnly(review: ExtractionReview): ReviewSelection {
+  return select(review, (change) => change.blank);
+}
+
+export function selectNone(review: ExtractionReview): ReviewSelection {
+  return select(review, () => false);
+}
+
+// Writes the selected extracted values into the grid, leaving everything else
+// alone, and records each one as the AI's (or as imported, for emailed sheets)
+export function applyReview(
+  current: DayEntry[],
+  review: ExtractionReview,
+  selection: ReviewSelection,
+  at: string = new Date().toISOString(),
+  source: Extract<ValueSource, "ai" | "import"> = "ai"
+): DayEntry[] {
+  const reviewByDate = new Map(review.days.map((d) => [d.date, d]));
+
+  return current.map((day) => {
+    const dayReview = reviewByDate.get(day.date);
+    if (!dayReview) return day;
+
+    let updated = day;
+    for (const change of dayReview.changes) {
+      if (selection[day.date]?.[change.field]) {
+        const next = { ...updated, [change.field]: dayReview.extracted[change.field] };
+        updated = trackChange(updated, next, change.field, source, change.confidence, at);
+      }
+    }
+    return updated;
+  });
+}
+
+// Confidence colouring only for the values that were actually applied
+export function appliedConfidences(
+  review: ExtractionReview,
+  selection: ReviewSelection
+): Record<string, Record<string, number | null>> {
+  const result: Record<string, Record<string, number | null>> = {};
+  for (const day of review.days) {
+    for (const change of day.changes) {
+      if (!selection[day.date]?.[change.field]) continue;
+      result[day.date] = { ...result[day.date], [change.field]: change.confidence };
+    }
+  }
+  return result;
+}
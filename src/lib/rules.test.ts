@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { checkTimesheet } from "./rules";
+import { generateWeekDays } from "./dates";
+import { DEFAULT_PERIOD, DEFAULT_ROUNDING, DEFAULT_RULES } from "./settings";
+import { DayEntry, RuleId, RuleSetting, TimesheetRules, WorkSegment } from "./types";
+
+// The default rules with everything but `rule` turned off
+function only(rule: RuleId, setting: Partial<RuleSetting> = {}): TimesheetRules {
+  const rules: Record<RuleId, RuleSetting> = { ...DEFAULT_RULES };
+  for (const id of Object.keys(rules) as RuleId[]) rules[id] = { ...rules[id], severity: "off" };
+  rules[rule] = { ...DEFAULT_RULES[rule], ...setting };
+  return { ...rules, breakRequired: { ...DEFAULT_RULES.breakRequired, ...rules.breakRequired } };
+}
+
+function segment(startTime: string, endTime: string, breakMinutes = "0"): WorkSegment {
+  return { startTime, endTime, breakMinutes };
+}
+
+function week(fill: (days: DayEntry[]) => void, includeWeekends = false): DayEntry[] {
+  const days = generateWeekDays("2025-08-04", { ...DEFAULT_PERIOD, includeWeekends });
+  fill(days);
+  return days;
+}
+
+describe("checkTimesheet", () => {
+  describe("overlappingSegments", () => {
+    it("flags a day that starts before the previous night's shift ends", () => {
+      const days = week((d) => {
+        d[0].segments = [segment("22:00", "06:00")];
+        d[1].segments = [segment("05:00", "13:00")];
+      });
+      expect(checkTimesheet(days, only("overlappingSegments"), DEFAULT_ROUNDING)).toEqual([
+        {
+          rule: "overlappingSegments",
+          severity: "error",
+          date: "2025-08-05",
+          field: "segments.0.startTime",
+          message: "Starts before the previous night's shift ends",
+        },
+      ]);
+    });
+
+    it("allows the next shift to start as the night shift ends, or after a day off", () => {
+      const days = week((d) => {
+        d[0].segments = [segment("22:00", "06:00")];
+        d[1].segments = [segment("06:00", "14:00")];
+        d[2].segments = [segment("22:00", "06:00")];
+        d[4].segments = [segment("05:00", "13:00")]; // Thursday was a day off
+      });
+      expect(checkTimesheet(days, only("overlappingSegments"), DEFAULT_ROUNDING)).toEqual([]);
+    });
+
+    it("flags segments that overlap on the same day", () => {
+      const days = week((d) => (d[0].segments = [segment("08:00", "12:00"), segment("11:30", "15:00")]));
+      const violations = checkTimesheet(days, only("overlappingSegments"), DEFAULT_ROUNDING);
+      expect(violations.map((v) => v.field)).toEqual(["segments.1.startTime"]);
+    });
+  });
+
+  describe("consecutiveDays", () => {
+    it("flags each day past the limit in a run of worked days", () => {
+      const days = [
+        ...week((d) => d.forEach((day) => (day.totalHours = "8")), true),
+        ...generateWeekDays("2025-08-11").map((day) => ({ ...day, totalHours: "8" })),
+      ];
+      const violations = checkTimesheet(days, only("consecutiveDays", { limit: 6 }), DEFAULT_ROUNDING);
+      expect(violations.map((v) => v.date)).toEqual([
+        "2025-08-10",
+        "2025-08-11",
+        "2025-08-12",
+        "2025-08-13",
+        "2025-08-14",
+        "2025-08-15",
+      ]);
+      expect(violations[0]).toMatchObject({ field: null, message: "7 days worked in a row, more than the 6 allowed" });
+    });
+
+    it("starts counting again after a day off", () => {
+      const days = week((d) => d.forEach((day, i) => (day.totalHours = i === 3 ? "" : "8")), true);
+      expect(checkTimesheet(days, only("consecutiveDays", { limit: 3 }), DEFAULT_ROUNDING)).toEqual([]);
+    });
+  });
+
+  describe("endBeforeStart", () => {
+    it("reads an end before the start as overnight up to the limit", () => {
+      const days = week((d) => {
+        d[0].segments = [segment("22:00", "06:00")]; // 8h overnight
+        d[1].segments = [segment("17:00", "09:00")]; // 16h, right on the limit
+        d[2].segments = [segment("09:00", "08:00")]; // 23h, more likely a typo
+      });
+      const violations = checkTimesheet(days, only("endBeforeStart", { limit: 16 }), DEFAULT_ROUNDING);
+      expect(violations).toEqual([
+        {
+          rule: "endBeforeStart",
+          severity: "error",
+          date: "2025-08-06",
+          field: "segments.0.endTime",
+          message: "Ends (08:00) before it starts (09:00)",
+        },
+      ]);
+    });
+
+    it("flags every overnight segment when overnight shifts aren't allowed", () => {
+      const days = week((d) => (d[0].segments = [segment("08:00", "12:00"), segment("22:00", "02:00")]));
+      const violations = checkTimesheet(days, only("endBeforeStart", { limit: 0 }), DEFAULT_ROUNDING);
+      expect(violations.map((v) => v.field)).toEqual(["segments.1.endTime"]);
+    });
+  });
+
+  describe("totalMismatch", () => {
+    const days = (totalHours: string) =>
+      week((d) => {
+        d[0].segments = [segment("08:00", "16:30", "30")]; // 8h
+        d[0].totalHours = totalHours;
+      });
+
+    it("flags stated hours further from the times than the tolerance", () => {
+      const [violation] = checkTimesheet(days("8.5"), only("totalMismatch", { limit: 15 }), DEFAULT_ROUNDING);
+      expect(violation).toMatchObject({
+        date: "2025-08-04",
+        field: "totalHours",
+        message: "Hours (8.5h) don't match start/end minus breaks (8h)",
+      });
+    });
+
+    it("allows differences within the tolerance", () => {
+      expect(checkTimesheet(days("8.25"), only("totalMismatch", { limit: 15 }), DEFAULT_ROUNDING)).toEqual([]);
+      expect(checkTimesheet(days("8"), only("totalMismatch", { limit: 0 }), DEFAULT_ROUNDING)).toEqual([]);
+    });
+
+    it("compares against the times as the rounding policy pays them", () => {
+      const early = week((d) => {
+        d[0].segments = [segment("08:07", "16:30", "30")]; // 7h53m
+        d[0].totalHours = "8";
+      });
+      const rules = only("totalMismatch", { limit: 0 });
+      expect(checkTimesheet(early, rules, DEFAULT_ROUNDING)).toHaveLength(1);
+      expect(checkTimesheet(early, rules, { increment: 15, method: "nearest", scope: "day" })).toEqual([]);
+    });
+
+    it("only compares days with both hours and times", () => {
+      expect(checkTimesheet(days(""), only("totalMismatch"), DEFAULT_ROUNDING)).toEqual([]);
+      const hoursOnly = week((d) => (d[0].totalHours = "10"));
+      expect(checkTimesheet(hoursOnly, only("totalMismatch"), DEFAULT_ROUNDING)).toEqual([]);
+    });
+  });
+
+  it("leaves out rules that are turned off and sorts what's left by date", () => {
+    const days = week((d) => {
+      d[2].segments = [segment("09:00", "08:00")];
+      d[0].kilometers = "2000";
+    });
+    const rules = { ...DEFAULT_RULES, tripDetails: { ...DEFAULT_RULES.tripDetails, severity: "off" as const } };
+    expect(checkTimesheet(days, rules, DEFAULT_ROUNDING).map((v) => [v.date, v.rule])).toEqual([
+      ["2025-08-04", "maxKilometers"],
+      ["2025-08-06", "maxDayHours"],
+      ["2025-08-06", "breakRequired"],
+      ["2025-08-06", "endBeforeStart"],
+    ]);
+  });
+});
@@ -0,0 +1,193 @@
+import { DayEntry, RoundingPolicy, RuleId, RuleViolation, TimesheetRules } from "./types";
+import { calculatedHours, dayHours, isOvernight, segmentBounds, segmentSpan } from "./hours";
+import { daysBetween } from "./dates";
+import { dayKilometers, missingTripDetails } from "./mileage";
+
+export interface RuleDefinition {
+  id: RuleId;
+  label: string;
+  limitLabel: string | null; // null when the rule has no limit to set
+}
+
+export const RULE_DEFINITIONS: RuleDefinition[] = [
+  { id: "maxDayHours", label: "Day longer than the maximum", limitLabel: "Maximum hours in a day" },
+  { id: "breakRequired", label: "Long shift without a break", limitLabel: "Shifts longer than (hours)" },
+  { id: "totalMismatch", label: "Hours don't match start/end", limitLabel: "Tolerance (minutes)" },
+  {
+    id: "endBeforeStart",
+    label: "End before start",
+    limitLabel: "Longest believable overnight shift (hours, 0 for none)",
+  },
+  { id: "overlappingSegments", label: "Overlapping segments", limitLabel: null },
+  { id: "maxKilometers", label: "Implausible kilometres", limitLabel: "Maximum km in a day" },
+  { id: "tripDetails", label: "Kilometres without trip details", limitLabel: null },
+  { id: "consecutiveDays", label: "Too many days in a row", limitLabel: "Maximum consecutive days" },
+];
+
+type Check = (
+  day: DayEntry,
+  rules: TimesheetRules,
+  report: (field: string | null, message: string) => void,
+  rounding: RoundingPolicy
+) => void;
+
+function formatHours(hours: number): string {
+  return `${Number(hours.toFixed(2))}h`;
+}
+
+const DAY_CHECKS: Partial<Record<RuleId, Check>> = {
+  maxDayHours(day, rules, report, rounding) {
+    const hours = dayHours(day, rounding);
+    const { limit } = rules.maxDayHours;
+    if (hours > limit) {
+      report("totalHours", `${formatHours(hours)} worked, more than the ${formatHours(limit)} maximum`);
+    }
+  },
+
+  breakRequired(day, rules, report) {
+    const { limit, breakMinutes } = rules.breakRequired;
+    day.segments.forEach((segment, i) => {
+      const taken = parseFloat(segment.breakMinutes) || 0;
+      if (segmentSpan(segment) > limit && taken < breakMinutes) {
+        report(
+          `segments.${i}.breakMinutes`,
+          `Shifts over ${formatHours(limit)} need at least a ${breakMinutes} min break`
+        );
+      }
+    });
+  },
+
+  // Compared with the hours the times are paid as, so rounding alone never trips it
+  totalMismatch(day, rules, report, rounding) {
+    const stated = parseFloat(day.totalHours);
+    if (isNaN(stated) || !day.segments.some((s) => segmentBounds(s))) return;
+
+    const calculated = calculatedHours(day, rounding);
+    if (Math.abs(stated - calculated) * 60 > rules.totalMismatch.limit) {
+      report(
+        "totalHours",
+        `Hours (${formatHours(stated)}) don't match start/end minus breaks (${formatHours(calculated)})`
+      );
+    }
+  },
+
+  // An end at or before the start is read as running past midnight; that's
+  // only believable up to a point, beyond which it's more likely a typo
+  endBeforeStart(day, rules, report) {
+    day.segments.forEach((segment, i) => {
+      if (isOvernight(segment) && segmentSpan(segment) > rules.endBeforeStart.limit) {
+        report(`segments.${i}.endTime`, `Ends (${segment.endTime}) before it starts (${segment.startTime})`);
+      }
+    });
+  },
+
+  overlappingSegments(day, _rules, report) {
+    const bounds = day.segments
+      .map((segment, index) => ({ index, bounds: segmentBounds(segment) }))
+      .filter((s): s is { index: number; bounds: { start: number; end: number } } => s.bounds !== null)
+      .sort((a, b) => a.bounds.start - b.bounds.start);
+
+    for (let i = 1; i < bounds.length; i++) {
+      if (bounds[i].bounds.start < bounds[i - 1].bounds.end) {
+        report(`segments.${bounds[i].index}.startTime`, "Overlaps another segment on the same day");
+      }
+    }
+  },
+
+  maxKilometers(day, rules, report) {
+    const km = dayKilometers(day);
+    if (km > rules.maxKilometers.limit) {
+      report("kilometers", `${km} km is more than the ${rules.maxKilometers.limit} km limit`);
+    }
+  },
+
+  tripDetails(day, _rules, report) {
+    if (!day.trips.length && dayKilometers(day) > 0) {
+      report("kilometers", "Log the trips behind these km so they can be claimed");
+    }
+    day.trips.forEach((trip, i) => {
+      const missing = missingTripDetails(trip);
+      if (missing.length) report(`trips.${i}`, `Trip ${i + 1} needs its ${missing.join(", ")}`);
+    });
+  },
+};
+
+// Checks a period's days against the organisation's rules, counting hours the
+// way its rounding policy pays them. Pure, so the grid can run it on every
+// edit and the server can run it before exporting.
+export function checkTimesheet(days: DayEntry[], rules: TimesheetRules, rounding: RoundingPolicy): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const day of sorted) {
+    for (const [rule, check] of Object.entries(DAY_CHECKS) as [RuleId, Check][]) {
+      const { severity } = rules[rule];
+      if (severity === "off") continue;
+      const report = (field: string | null, message: string) =>
+        violations.push({ rule, severity, date: day.date, field, message });
+      check(day, rules, report, rounding);
+    }
+  }
+
+  // A shift past midnight can run into the next day's first segment
+  const overlap = rules.overlappingSegments.severity;
+  if (overlap !== "off") {
+    sorted.forEach((day, i) => {
+      const next = sorted[i + 1];
+      if (!next || daysBetween(day.date, next.date) !== 1) return;
+      const lastEnd = Math.max(0, ...day.segments.map((s) => segmentBounds(s)?.end ?? 0)) - 24 * 60;
+      next.segments.forEach((segment, index) => {
+        const bounds = segmentBounds(segment);
+        if (bounds && bounds.start < lastEnd) {
+          violations.push({
+            rule: "overlappingSegments",
+            severity: overlap,
+            date: next.date,
+            field: `segments.${index}.startTime`,
+            message: "Starts before the previous night's shift ends",
+          });
+        }
+      });
+    });
+  }
+
+  const streak = rules.consecutiveDays;
+  if (streak.severity !== "off") {
+    let run = 0;
+    let previous: string | null = null;
+    for (const day of sorted) {
+      if (dayHours(day, rounding) <= 0) {
+        run = 0;
+        continue;
+      }
+      run = previous && daysBetween(previous, day.date) === 1 && run > 0 ? run + 1 : 1;
+      previous = day.date;
+      if (run > streak.limit) {
+        violations.push({
+          rule: "consecutiveDays",
+          severity: streak.severity,
+          date: day.date,
+          field: null,
+          message: `${run} days worked in a row, more than the ${streak.limit} allowed`,
+        });
+      }
+    }
+  }
+
+  return violations.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function hasErrors(violations: RuleViolation[]): boolean {
+  return violations.some((v) => v.severity === "error");
+}
+
+// The worst problem on a field, for inline highlighting
+export function fieldSeverity(
+  violations: RuleViolation[],
+  date: string,
+  field: string
+): RuleViolation["severity"] | null {
+  const matching = violations.filter((v) => v.date === date && v.field === field);
+  if (matching.some((v) => v.severity === "error")) return "error";
+  return matching.length ? "warning" : null;
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { normalizeDate, normalizeNumber, normalizeTime, validateDay, validateExtraction } from "./schema";
+
+function result(overrides: Record<string, unknown> = {}) {
+  return {
+    employee: { fullName: "Alex Turner" },
+    days: [
+      { date: "2025-08-04", work: { startTime: "07:30", endTime: "16:00", totalHours: 8 } },
+      { date: "2025-08-05", work: { startTime: "08:00", endTime: "16:30", totalHours: 8 } },
+    ],
+    ...overrides,
+  };
+}
+
+describe("normalizeTime", () => {
+  it("reads 12-hour, compact and seconds forms as HH:MM", () => {
+    expect(normalizeTime("7:30am")).toBe("07:30");
+    expect(normalizeTime("7:30 p.m.")).toBe("19:30");
+    expect(normalizeTime("12:15am")).toBe("00:15");
+    expect(normalizeTime("0730")).toBe("07:30");
+    expect(normalizeTime("7.30")).toBe("07:30");
+    expect(normalizeTime("19:30:00")).toBe("19:30");
+  });
+
+  it("leaves a bare hour and impossible times for validation to report", () => {
+    expect(normalizeTime("7")).toBe("7");
+    expect(normalizeTime("13pm")).toBe("13pm");
+    expect(normalizeTime("25:00")).toBe("25:00");
+  });
+
+  it("reads blanks as no time", () => {
+    expect(normalizeTime("")).toBeNull();
+    expect(normalizeTime("n/a")).toBeNull();
+    expect(normalizeTime("-")).toBeNull();
+  });
+});
+
+describe("normalizeDate", () => {
+  it("reads day-first dates and drops the time from timestamps", () => {
+    expect(normalizeDate("4/8/2025")).toBe("2025-08-04");
+    expect(normalizeDate("04.08.2025")).toBe("2025-08-04");
+    expect(normalizeDate("2025/8/4")).toBe("2025-08-04");
+    expect(normalizeDate("2025-08-04T09:00:00Z")).toBe("2025-08-04");
+  });
+});
+
+describe("normalizeNumber", () => {
+  it("reads decimal commas and units", () => {
+    expect(normalizeNumber("7,5 hrs")).toBe(7.5);
+    expect(normalizeNumber("30 min")).toBe(30);
+    expect(normalizeNumber("about 8")).toBe("about 8");
+  });
+});
+
+describe("validateDay", () => {
+  it("fills the day's start, end and break from its segments", () => {
+    const day = validateDay({
+      date: "2025-08-04",
+      work: {
+        segments: [
+          { startTime: "6:00am", endTime: "10:00am", breakMinutes: 0 },
+          { startTime: "3:00pm", endTime: "6:30pm", breakMinutes: "30 min" },
+        ],
+      },
+    });
+    expect(day?.work).toMatchObject({ startTime: "06:00", endTime: "18:30", breakMinutes: 30 });
+    expect(day?.dayOfWeek).toBe("MON");
+  });
+
+  it("makes a segment from the day's start, end and break when there are none", () => {
+    const day = validateDay({ date: "2025-08-04", work: { startTime: "0730", endTime: "1600", breakMinutes: 30 } });
+    expect(day?.work.segments).toEqual([{ startTime: "07:30", endTime: "16:00", breakMinutes: 30 }]);
+    expect(validateDay({ date: "2025-08-04", work: { totalHours: 8 } })?.work.segments).toEqual([]);
+  });
+
+  it("scores a missing or unreadable confidence as zero", () => {
+    expect(validateDay({ date: "2025-08-04" })?.confidence).toEqual({ overall: 0, fields: {} });
+    expect(validateDay({ date: "2025-08-04", confidence: "high" })?.confidence).toEqual({ overall: 0, fields: {} });
+    expect(validateDay({ date: "2025-08-04", confidence: { overall: "sure" } })?.confidence.overall).toBe(0);
+  });
+
+  it("reads percentage confidences as fractions and drops ones out of range", () => {
+    const day = validateDay({
+      date: "2025-08-04",
+      confidence: { overall: 92, fields: { startTime: "85%", endTime: 0.7, totalHours: 150 } },
+    });
+    expect(day?.confidence).toEqual({ overall: 0.92, fields: { startTime: 0.85, endTime: 0.7, totalHours: null } });
+  });
+});
+
+describe("validateExtraction", () => {
+  it("sorts the days and works out the period when the model leaves it out", () => {
+    const outcome = validateExtraction(result({ days: [...result().days].reverse() }));
+    expect(outcome.success && outcome.data.days.map((d) => d.date)).toEqual(["2025-08-04", "2025-08-05"]);
+    expect(outcome.success && outcome.data.period).toEqual({ weekStartDate: "2025-08-04", weekEndDate: "2025-08-05" });
+  });
+
+  it("keeps only conflicts on days that were read whose values really differ", () => {
+    const values = (a: unknown, b: unknown) => [
+      { source: "photo.jpg", value: a, confidence: 90 },
+      { source: "sheet.xlsx", value: b, confidence: 0.6 },
+    ];
+    const outcome = validateExtraction(
+      result({
+        conflicts: [
+          { date: "2025-08-04", field: "startTime", values: values("07:30", "07:45") },
+          { date: "2025-08-05", field: "endTime", values: values("16:30", "16:30") },
+          { date: "2025-08-09", field: "totalHours", values: values(8, 9) },
+          { date: "2025-08-04", field: "notes", values: values("a", "b") },
+          "not a conflict",
+        ],
+      })
+    );
+    expect(outcome.success && outcome.data.conflicts).toEqual([
+      {
+        date: "2025-08-04",
+        field: "startTime",
+        values: [
+          { source: "photo.jpg", value: "07:30", confidence: 0.9 },
+          { source: "sheet.xlsx", value: "07:45", confidence: 0.6 },
+        ],
+        chosen: "07:30",
+      },
+    ]);
+  });
+
+  it("reports where the response doesn't fit the format", () => {
+    const outcome = validateExtraction(
+      result({ days: [{ date: "2025-02-30", work: { startTime: "7", totalHours: 30 } }] })
+    );
+    expect(outcome.success ? [] : outcome.issues).toEqual([
+      { path: "days.0.date", message: "Not a real calendar date" },
+      { path: "days.0.work.startTime", message: "Expected an HH:MM 24h time" },
+      { path: "days.0.work.totalHours", message: "Must be at most 24" },
+    ]);
+  });
+});
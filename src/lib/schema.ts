@@ -0,0 +1,343 @@
+import { z } from "zod";
+import { AIExtractionDay, AIExtractionResult, DayOfWeek, ExtractionIssue } from "./types";
+
+const DAY_NAMES: Record<string, DayOfWeek> = {
+  MON: "MON",
+  MONDAY: "MON",
+  TUE: "TUE",
+  TUES: "TUE",
+  TUESDAY: "TUE",
+  WED: "WED",
+  WEDNESDAY: "WED",
+  THU: "THU",
+  THUR: "THU",
+  THURS: "THU",
+  THURSDAY: "THU",
+  FRI: "FRI",
+  FRIDAY: "FRI",
+  SAT: "SAT",
+  SATURDAY: "SAT",
+  SUN: "SUN",
+  SUNDAY: "SUN",
+};
+
+const ALL_DAY_NAMES: DayOfWeek[] = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+function isBlank(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && /^\s*(|null|n\/a|none|-)\s*$/i.test(value))
+  );
+}
+
+// "7:30am", "7.30", "0730", "19:30:00" → "HH:MM". Anything unrecognised is
+// returned untouched so validation reports it.
+export function normalizeTime(value: unknown): unknown {
+  if (isBlank(value)) return null;
+  if (typeof value !== "string") return value;
+
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(\d{1,2})(?:[:.h]?(\d{2}))?(?::\d{2})?\s*(a\.?m\.?|p\.?m\.?)?$/);
+  if (!match) return value;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.[0];
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return value;
+    if (meridiem === "p" && hours !== 12) hours += 12;
+    if (meridiem === "a" && hours === 12) hours = 0;
+  } else if (match[2] === undefined) {
+    // A bare "7" is more likely hours worked than a clock time
+    return value;
+  }
+
+  if (hours > 23 || minutes > 59) return value;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+// ISO timestamps, "YYYY/MM/DD" and day-first "DD/MM/YYYY" → "YYYY-MM-DD"
+export function normalizeDate(value: unknown): unknown {
+  if (isBlank(value)) return null;
+  if (typeof value !== "string") return value;
+
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/);
+  if (match) {
+    return `${match[1]}-${match[2].padStart(2, "0")}-${match[3].padStart(2, "0")}`;
+  }
+
+  match = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (match) {
+    return `${match[3]}-${match[2].padStart(2, "0")}-${match[1].padStart(2, "0")}`;
+  }
+
+  return trimmed;
+}
+
+// "7.5", "7,5 hrs", "30 min" → number
+export function normalizeNumber(value: unknown): unknown {
+  if (isBlank(value)) return null;
+  if (typeof value !== "string") return value;
+
+  const match = value.trim().match(/^(-?\d+(?:[.,]\d+)?)\s*[a-z%]*\.?$/i);
+  if (!match) return value;
+  return Number(match[1].replace(",", "."));
+}
+
+export function normalizeDayOfWeek(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  return DAY_NAMES[value.trim().toUpperCase()] ?? value;
+}
+
+function isValidDate(value: string): boolean {
+  const d = new Date(value + "T00:00:00Z");
+  return !isNaN(d.getTime()) && d.toISOString().startsWith(value);
+}
+
+const dateSchema = z.preprocess(
+  normalizeDate,
+  z
+    .string({ required_error: "Date is required", invalid_type_error: "Expected a YYYY-MM-DD date" })
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date")
+    .refine(isValidDate, "Not a real calendar date")
+);
+
+const nullableDate = z.preprocess(
+  normalizeDate,
+  z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date")
+    .refine(isValidDate, "Not a real calendar date")
+    .nullable()
+);
+
+const timeSchema = z.preprocess(
+  normalizeTime,
+  z
+    .string({ invalid_type_error: "Expected an HH:MM time" })
+    .regex(/^\d{2}:\d{2}$/, "Expected an HH:MM 24h time")
+    .nullable()
+);
+
+const numberSchema = (max: number) =>
+  z.preprocess(
+    normalizeNumber,
+    z
+      .number({ invalid_type_error: "Expected a number" })
+      .min(0, "Must not be negative")
+      .max(max, `Must be at most ${max}`)
+      .nullable()
+  );
+
+const confidenceValue = z.preprocess(
+  normalizeNumber,
+  z
+    .number()
+    .transform((n) => (n > 1 && n <= 100 ? n / 100 : n))
+    .pipe(z.number().min(0).max(1))
+    .nullable()
+    .catch(null)
+);
+
+const nullableString = z.preprocess(
+  (v) => (isBlank(v) ? null : typeof v === "number" ? String(v) : v),
+  z.string().nullable()
+);
+
+const segmentSchema = z.object({
+  startTime: timeSchema.default(null),
+  endTime: timeSchema.default(null),
+  breakMinutes: numberSchema(24 * 60).default(null),
+});
+
+// Segments and the single start/end/break fields describe the same day; fill
+// whichever side the model left out so both are always present
+function reconcileSegments(work: AIExtractionDay["work"]): AIExtractionDay["work"] {
+  const segments = work.segments.filter((s) => s.startTime || s.endTime || s.breakMinutes != null);
+
+  if (segments.length === 0) {
+    const single = work.startTime || work.endTime || work.breakMinutes != null;
+    return {
+      ...work,
+      segments: single ? [{ startTime: work.startTime, endTime: work.endTime, breakMinutes: work.breakMinutes }] : [],
+    };
+  }
+
+  const breaks = segments.map((s) => s.breakMinutes).filter((b): b is number => b != null);
+  return {
+    ...work,
+    segments,
+    startTime: work.startTime ?? segments[0].startTime,
+    endTime: work.endTime ?? segments[segments.length - 1].endTime,
+    breakMinutes: work.breakMinutes ?? (breaks.length ? breaks.reduce((a, b) => a + b, 0) : null),
+  };
+}
+
+const tripSchema = z.object({
+  from: nullableString.default(null),
+  to: nullableString.default(null),
+  purpose: nullableString.default(null),
+  vehicle: nullableString.default(null),
+  kilometers: numberSchema(5000).default(null),
+});
+
+const daySchema = z
+  .object({
+    date: dateSchema,
+    dayOfWeek: z.preprocess(
+      normalizeDayOfWeek,
+      z.enum(["MON", "TUE", "WED", "THU", "FRI", "SAT", "SUN"]).optional()
+    ),
+    work: z
+      .object({
+        startTime: timeSchema.default(null),
+        endTime: timeSchema.default(null),
+        totalHours: numberSchema(24).default(null),
+        breakMinutes: numberSchema(24 * 60).default(null),
+        kilometers: numberSchema(5000).default(null),
+        segments: z.array(segmentSchema).default([]),
+      })
+      .default({})
+      .transform(reconcileSegments),
+    notes: nullableString.default(null),
+    allocations: z
+      .array(
+        z.object({
+          jobCode: z.preprocess((v) => (typeof v === "number" ? String(v) : v), z.string().trim().min(1)),
+          hours: numberSchema(24).default(null),
+        })
+      )
+      .default([])
+      .catch([]),
+    trips: z.array(tripSchema).default([]).catch([]),
+    confidence: z
+      .object({
+        overall: confidenceValue.transform((n) => n ?? 0),
+        fields: z.record(confidenceValue).default({}),
+      })
+      .default({ overall: 0, fields: {} })
+      .catch({ overall: 0, fields: {} }),
+  })
+  .transform((day) => {
+    // A trip log without a day total still says how far was driven
+    const tripKm = day.trips.reduce((sum, t) => sum + (t.kilometers ?? 0), 0);
+    return {
+      ...day,
+      work: { ...day.work, kilometers: day.work.kilometers ?? (tripKm || null) },
+      // The date is authoritative once resolved; derive the label if missing
+      dayOfWeek: day.dayOfWeek ?? ALL_DAY_NAMES[new Date(day.date + "T00:00:00Z").getUTCDay()],
+    };
+  });
+
+export const validationSchema = z
+  .object({
+    supervisor: z
+      .object({ name: nullableString.default(null), signature: nullableString.default(null) })
+      .default({}),
+    approver: z
+      .object({ name: nullableString.default(null), date: nullableDate.default(null).catch(null) })
+      .default({}),
+    client: z
+      .object({ name: nullableString.default(null), project: nullableString.default(null) })
+      .default({}),
+    custom: z.record(z.unknown()).default({}),
+  })
+  .default({});
+
+// Disagreements between files read in one request, as the model reports them
+const conflictSchema = z.object({
+  date: dateSchema,
+  field: z.enum(["startTime", "endTime", "totalHours", "breakMinutes", "kilometers"]),
+  values: z
+    .array(
+      z.object({
+        source: z.preprocess((v) => (isBlank(v) ? "" : String(v)), z.string()),
+        value: z.union([z.string(), z.number()]).nullable().default(null),
+        confidence: confidenceValue.default(null),
+      })
+    )
+    .min(2),
+});
+
+export const aiExtractionResultSchema: z.ZodType<AIExtractionResult, z.ZodTypeDef, unknown> = z
+  .object({
+    employee: z
+      .object({
+        fullName: z.preprocess((v) => (isBlank(v) ? "" : v), z.string()),
+        employeeId: nullableString.default(null),
+        email: nullableString.default(null),
+      })
+      .default({ fullName: "" }),
+    period: z
+      .object({
+        weekStartDate: dateSchema,
+        weekEndDate: dateSchema,
+      })
+      .optional(),
+    days: z.array(daySchema, { required_error: "A days array is required" }),
+    validation: validationSchema,
+    warnings: z
+      .preprocess((v) => (typeof v === "string" ? [v] : v), z.array(z.string()))
+      .default([])
+      .catch([]),
+    source: z
+      .object({
+        fileType: z.string().default(""),
+        pageOrImageCount: z.preprocess(normalizeNumber, z.number().int().min(0)).default(1).catch(1),
+      })
+      .default({}),
+    conflicts: z.array(z.unknown()).default([]).catch([]),
+  })
+  .transform((result) => {
+    const days = [...result.days].sort((a, b) => a.date.localeCompare(b.date));
+    const period = result.period ?? {
+      weekStartDate: days[0]?.date ?? "",
+      weekEndDate: days[days.length - 1]?.date ?? "",
+    };
+    // A reported conflict only stands for a day that was read and values that
+    // really differ; the day's own value is the one that was chosen
+    const conflicts = result.conflicts.flatMap((raw) => {
+      const parsed = conflictSchema.safeParse(raw);
+      const day = parsed.success ? days.find((d) => d.date === parsed.data.date) : undefined;
+      if (!parsed.success || !day || new Set(parsed.data.values.map((v) => v.value)).size < 2) return [];
+      return [{ ...parsed.data, chosen: day.work[parsed.data.field] }];
+    });
+    return { ...result, period, days, conflicts };
+  })
+  .superRefine((result, ctx) => {
+    if (result.days.length > 0 && !result.period.weekStartDate) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["period", "weekStartDate"],
+        message: "Could not determine the period start",
+      });
+    }
+  });
+
+export function formatIssues(error: z.ZodError): ExtractionIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join(".") || "(root)",
+    message: issue.message,
+  }));
+}
+
+export type ValidateResult =
+  | { success: true; data: AIExtractionResult }
+  | { success: false; issues: ExtractionIssue[] };
+
+// One day on its own, for showing days while the rest of the response streams in
+export function validateDay(raw: unknown): AIExtractionDay | null {
+  const parsed = daySchema.safeParse(raw);
+  return parsed.success ? parsed.data : null;
+}
+
+export function validateExtraction(raw: unknown): ValidateResult {
+  const parsed = aiExtractionResultSchema.safeParse(raw);
+  if (parsed.success) return { success: true, data: parsed.data };
+  return { success: false, issues: formatIssues(parsed.error) };
+}
@@ -0,0 +1,244 @@
+import { z } from "zod";
+import {
+  Job,
+  JobTracking,
+  MileageSettings,
+  OrgSettings,
+  PayRules,
+  PayrollProfile,
+  PeriodLength,
+  PeriodSettings,
+  RoundingMethod,
+  RoundingPolicy,
+  RuleSetting,
+  SignOffSettings,
+  TimesheetRules,
+} from "./types";
+
+// Until payroll configures its rates everything is ordinary hours, which is
+// what Xero accepts out of the box.
+export const DEFAULT_PAY_RULES: PayRules = {
+  ordinaryRate: "Ordinary Hours",
+  dailyOvertime: [],
+  weeklyOvertime: null,
+  saturdayRate: null,
+  sundayRate: null,
+  nightLoading: null,
+};
+
+// Monday to Friday weeks, which is what the app did before periods were configurable
+export const DEFAULT_PERIOD: PeriodSettings = {
+  length: "weekly",
+  startDay: "MON",
+  anchorDate: "2025-01-06",
+  includeWeekends: false,
+};
+
+export const DEFAULT_RULES: TimesheetRules = {
+  maxDayHours: { severity: "warning", limit: 12 },
+  breakRequired: { severity: "warning", limit: 5, breakMinutes: 30 },
+  totalMismatch: { severity: "warning", limit: 15 },
+  endBeforeStart: { severity: "error", limit: 16 },
+  overlappingSegments: { severity: "error", limit: 0 },
+  maxKilometers: { severity: "warning", limit: 1000 },
+  tripDetails: { severity: "warning", limit: 0 },
+  consecutiveDays: { severity: "warning", limit: 6 },
+};
+
+// Hours are paid exactly as worked until payroll picks a policy
+export const DEFAULT_ROUNDING: RoundingPolicy = {
+  increment: 0,
+  method: "nearest",
+  scope: "day",
+};
+
+export const DEFAULT_SIGN_OFF: SignOffSettings = {
+  supervisor: false,
+  signature: false,
+  approver: false,
+};
+
+export const DEFAULT_TIME_ZONE = "Australia/Sydney";
+
+// Payroll details for new employees and for people outside the directory
+export const DEFAULT_PAYROLL: PayrollProfile = {
+  xeroName: "",
+  defaultBreakMinutes: 0,
+  standardHours: 0,
+  eligibleRates: null,
+  mileageRate: "Kilometers",
+};
+
+export const DEFAULT_TRACKING: JobTracking = {
+  clientCategory: "Client",
+  projectCategory: "Project",
+};
+
+// The ATO's cents-per-km method: one rate, for up to 5,000 km a year. Until
+// payroll switches to reimbursements, km go to Xero as an earnings line.
+export const DEFAULT_MILEAGE: MileageSettings = {
+  tiers: [{ upToKm: 5000, ratePerKm: 0.88 }],
+  yearStart: "07-01",
+  payAs: "earnings",
+  reimbursementType: "Mileage",
+};
+
+export const DEFAULT_SETTINGS: OrgSettings = {
+  payRules: DEFAULT_PAY_RULES,
+  period: DEFAULT_PERIOD,
+  rules: DEFAULT_RULES,
+  rounding: DEFAULT_ROUNDING,
+  signOff: DEFAULT_SIGN_OFF,
+  jobs: [],
+  tracking: DEFAULT_TRACKING,
+  mileage: DEFAULT_MILEAGE,
+  timeZone: DEFAULT_TIME_ZONE,
+};
+
+export const PERIOD_LENGTH_LABELS: Record<PeriodLength, string> = {
+  weekly: "Weekly",
+  fortnightly: "Fortnightly",
+  "semi-monthly": "Twice a month (1st and 16th)",
+  monthly: "Monthly",
+};
+
+export const ROUNDING_METHOD_LABELS: Record<RoundingMethod, string> = {
+  nearest: "To the nearest increment",
+  startUpEndDown: "Start rounded up, end rounded down",
+};
+
+const rateName = z.string().trim().min(1, "Rate name is required");
+const hhmm = z.string().regex(/^\d{2}:\d{2}$/, "Expected an HH:MM time");
+const tier = z.object({ afterHours: z.number().min(0).max(168), rate: rateName });
+
+export const payRulesSchema: z.ZodType<PayRules, z.ZodTypeDef, unknown> = z.object({
+  ordinaryRate: rateName,
+  dailyOvertime: z
+    .array(tier.extend({ afterHours: z.number().min(0).max(24) }))
+    .default([])
+    .transform((tiers) => [...tiers].sort((a, b) => a.afterHours - b.afterHours)),
+  weeklyOvertime: tier.nullable().default(null),
+  saturdayRate: rateName.nullable().default(null),
+  sundayRate: rateName.nullable().default(null),
+  nightLoading: z.object({ start: hhmm, end: hhmm, rate: rateName }).nullable().default(null),
+});
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const periodSchema: z.ZodType<PeriodSettings, z.ZodTypeDef, unknown> = z.object({
+  length: z.enum(["weekly", "fortnightly", "semi-monthly", "monthly"]),
+  startDay: z.enum(["MON", "TUE", "WED", "THU", "FRI", "SAT", "SUN"]).default("MON"),
+  anchorDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date")
+    .default(DEFAULT_PERIOD.anchorDate),
+  includeWeekends: z.boolean().default(false),
+});
+
+const ruleSetting = (defaults: RuleSetting) =>
+  z
+    .object({
+      severity: z.enum(["error", "warning", "off"]),
+      limit: z.number().min(0),
+    })
+    .default(defaults);
+
+export const rulesSchema: z.ZodType<TimesheetRules, z.ZodTypeDef, unknown> = z.object({
+  maxDayHours: ruleSetting(DEFAULT_RULES.maxDayHours),
+  breakRequired: z
+    .object({
+      severity: z.enum(["error", "warning", "off"]),
+      limit: z.number().min(0),
+      breakMinutes: z.number().min(0),
+    })
+    .default(DEFAULT_RULES.breakRequired),
+  totalMismatch: ruleSetting(DEFAULT_RULES.totalMismatch),
+  endBeforeStart: ruleSetting(DEFAULT_RULES.endBeforeStart),
+  overlappingSegments: ruleSetting(DEFAULT_RULES.overlappingSegments),
+  maxKilometers: ruleSetting(DEFAULT_RULES.maxKilometers),
+  tripDetails: ruleSetting(DEFAULT_RULES.tripDetails),
+  consecutiveDays: ruleSetting(DEFAULT_RULES.consecutiveDays),
+});
+
+export const roundingSchema: z.ZodType<RoundingPolicy, z.ZodTypeDef, unknown> = z.object({
+  increment: z.number().int().min(0).max(60),
+  method: z.enum(["nearest", "startUpEndDown"]).default("nearest"),
+  scope: z.enum(["segment", "day"]).default("day"),
+});
+
+export const payrollSchema: z.ZodType<PayrollProfile, z.ZodTypeDef, unknown> = z.object({
+  xeroName: z.string().trim().default(""),
+  defaultBreakMinutes: z.number().int().min(0).max(240).default(0),
+  standardHours: z.number().min(0).max(24).default(0),
+  eligibleRates: z.array(rateName).nullable().default(null),
+  mileageRate: z.string().trim().default(DEFAULT_PAYROLL.mileageRate),
+});
+
+export const mileageSchema: z.ZodType<MileageSettings, z.ZodTypeDef, unknown> = z.object({
+  tiers: z
+    .array(z.object({ upToKm: z.number().positive().nullable(), ratePerKm: z.number().min(0).max(10) }))
+    .default([])
+    .transform((tiers) => [...tiers].sort((a, b) => (a.upToKm ?? Infinity) - (b.upToKm ?? Infinity)))
+    .refine((tiers) => tiers.filter((t) => t.upToKm === null).length <= 1, "Only one tier can be uncapped"),
+  yearStart: z
+    .string()
+    .regex(/^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, "Expected the year's start as MM-DD")
+    .default(DEFAULT_MILEAGE.yearStart),
+  payAs: z.enum(["earnings", "reimbursement"]).default("earnings"),
+  reimbursementType: z.string().trim().default(DEFAULT_MILEAGE.reimbursementType),
+});
+
+export const jobsSchema: z.ZodType<Job[], z.ZodTypeDef, unknown> = z
+  .array(
+    z.object({
+      code: z.string().trim().min(1, "Cost code is required"),
+      client: z.string().trim().default(""),
+      project: z.string().trim().default(""),
+      active: z.boolean().default(true),
+    })
+  )
+  .superRefine((jobs, ctx) => {
+    const seen = new Set<string>();
+    jobs.forEach((job, i) => {
+      const key = job.code.toLowerCase();
+      if (seen.has(key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i, "code"], message: `Cost code ${job.code} is used twice` });
+      }
+      seen.add(key);
+    });
+  });
+
+export const settingsSchema: z.ZodType<OrgSettings, z.ZodTypeDef, unknown> = z.object({
+  payRules: payRulesSchema.default(DEFAULT_PAY_RULES),
+  period: periodSchema.default(DEFAULT_PERIOD),
+  rules: rulesSchema.default(DEFAULT_RULES),
+  rounding: roundingSchema.default(DEFAULT_ROUNDING),
+  signOff: z
+    .object({
+      supervisor: z.boolean().default(false),
+      signature: z.boolean().default(false),
+      approver: z.boolean().default(false),
+    })
+    .default(DEFAULT_SIGN_OFF),
+  jobs: jobsSchema.default([]),
+  tracking: z
+    .object({
+      clientCategory: z.string().trim().default(""),
+      projectCategory: z.string().trim().default(""),
+    })
+    .default(DEFAULT_TRACKING),
+  mileage: mileageSchema.default(DEFAULT_MILEAGE),
+  timeZone: z.string().refine(isTimeZone, "Unknown time zone").default(DEFAULT_TIME_ZONE),
+});
+
+// Fills sections, and rules, added after the settings were saved
+export function withDefaultSettings(stored: Partial<OrgSettings> | null): OrgSettings {
+  return { ...DEFAULT_SETTINGS, ...stored, rules: { ...DEFAULT_SETTINGS.rules, ...stored?.rules } };
+}
@@ -0,0 +1,27 @@
+import { createCollection } from "./store";
+import { HttpError } from "./errors";
+import { settingsSchema, withDefaultSettings } from "./settings";
+import { OrgSettings } from "./types";
+
+const settings = createCollection<OrgSettings & { id: string }>("settings");
+
+const SETTINGS_ID = "organisation";
+
+export async function getSettings(): Promise<OrgSettings> {
+  const stored = await settings.get(SETTINGS_ID);
+  if (!stored) return withDefaultSettings(null);
+  const { id: _id, ...rest } = stored;
+  return withDefaultSettings(rest);
+}
+
+export async function saveSettings(body: unknown): Promise<OrgSettings> {
+  const parsed = settingsSchema.safeParse(body);
+  if (!parsed.success) {
+    // The settings page only shows the message, so lead with the first problem
+    throw new HttpError(400, `Invalid settings: ${parsed.error.issues[0].message}`, {
+      issues: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+    });
+  }
+  await settings.put({ ...parsed.data, id: SETTINGS_ID });
+  return parsed.data;
+}
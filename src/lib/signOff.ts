@@ -0,0 +1,70 @@
+import { AIValidationData, SignOffSettings } from "./types";
+
+export function emptyValidation(): AIValidationData {
+  return {
+    supervisor: { name: null, signature: null },
+    approver: { name: null, date: null },
+    client: { name: null, project: null },
+    custom: {},
+  };
+}
+
+// Custom values are whatever the model found, so they may not be strings
+export function customText(value: unknown): string {
+  if (value == null) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// What the organisation needs on the sheet that this one doesn't have
+export function missingSignOff(validation: AIValidationData | null, required: SignOffSettings): string[] {
+  const v = validation ?? emptyValidation();
+  const missing: string[] = [];
+  if (required.supervisor && !v.supervisor.name?.trim()) missing.push("supervisor's name");
+  if (required.signature && !v.supervisor.signature?.trim()) missing.push("supervisor's signature");
+  if (required.approver && !(v.approver.name?.trim() && v.approver.date)) missing.push("approver's name and date");
+  return missing;
+}
+
+// Label/value pairs for reports, skipping anything blank
+export function describeValidation(validation: AIValidationData | null): [string, string][] {
+  if (!validation) return [];
+  const pairs: [string, string][] = [
+    ["Supervisor", validation.supervisor.name ?? ""],
+    ["Supervisor signature", validation.supervisor.signature ?? ""],
+    ["Approver", validation.approver.name ?? ""],
+    ["Approved on", validation.approver.date ?? ""],
+    ["Client", validation.client.name ?? ""],
+    ["Project", validation.client.project ?? ""],
+    ...Object.entries(validation.custom).map(([key, value]): [string, string] => [key, customText(value)]),
+  ];
+  return pairs.filter(([, value]) => value.trim());
+}
+
+// Fills the blanks in what's already on record from a later reading, keeping
+// anything entered or read before
+export function fillValidation(
+  current: AIValidationData | null,
+  found: AIValidationData | null
+): AIValidationData | null {
+  if (!current || !found) return current ?? found;
+  const pick = (a: string | null, b: string | null) => (a?.trim() ? a : b);
+  const custom = { ...found.custom };
+  for (const [key, value] of Object.entries(current.custom)) {
+    if (customText(value).trim() || !(key in custom)) custom[key] = value;
+  }
+  return {
+    supervisor: {
+      name: pick(current.supervisor.name, found.supervisor.name),
+      signature: pick(current.supervisor.signature, found.supervisor.signature),
+    },
+    approver: {
+      name: pick(current.approver.name, found.approver.name),
+      date: pick(current.approver.date, found.approver.date),
+    },
+    client: {
+      name: pick(current.client.name, found.client.name),
+      project: pick(current.client.project, found.client.project),
+    },
+    custom,
+  };
+}
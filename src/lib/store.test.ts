@@ -0,0 +1,61 @@
+import { mkdtemp, readdir, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createCollection } from "./store";
+
+interface Note {
+  id: string;
+  text: string;
+}
+
+let dir: string;
+const notes = createCollection<Note>("notes");
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "store-"));
+  process.env.DATA_DIR = dir;
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("createCollection", () => {
+  it("reads nothing before the first write", async () => {
+    expect(await notes.all()).toEqual([]);
+    expect(await notes.get("a")).toBeNull();
+    expect(await notes.delete("a")).toBe(false);
+  });
+
+  it("stores, replaces and deletes records by id", async () => {
+    await notes.put({ id: "a", text: "first" });
+    await notes.put({ id: "b", text: "second" });
+    await notes.put({ id: "a", text: "edited" });
+    expect(await notes.get("a")).toEqual({ id: "a", text: "edited" });
+
+    expect(await notes.delete("b")).toBe(true);
+    expect(await notes.all()).toEqual([{ id: "a", text: "edited" }]);
+  });
+
+  it("keeps every write made side by side, leaving no temporary files", async () => {
+    await Promise.all(Array.from({ length: 20 }, (_, i) => notes.put({ id: String(i), text: `note ${i}` })));
+    expect(await notes.all()).toHaveLength(20);
+    expect(await readdir(dir)).toEqual(["notes.json"]);
+    expect(Object.keys(JSON.parse(await readFile(path.join(dir, "notes.json"), "utf-8")))).toHaveLength(20);
+  });
+});
+
+describe("putIfAbsent", () => {
+  it("only stores a record whose id isn't taken", async () => {
+    expect(await notes.putIfAbsent({ id: "a", text: "first" })).toBe(true);
+    expect(await notes.putIfAbsent({ id: "a", text: "second" })).toBe(false);
+    expect(await notes.get("a")).toEqual({ id: "a", text: "first" });
+  });
+
+  it("lets exactly one of several writes at once through", async () => {
+    const results = await Promise.all(["one", "two", "three"].map((text) => notes.putIfAbsent({ id: "a", text })));
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await notes.get("a")).toEqual({ id: "a", text: ["one", "two", "three"][results.indexOf(true)] });
+  });
+});
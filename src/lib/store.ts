@@ -0,0 +1,91 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+// A tiny embedded JSON store: one file per collection under DATA_DIR. Writes
+// are serialised per collection and land via rename so a crash mid-write
+// never leaves a truncated file behind.
+
+export interface Collection<T extends { id: string }> {
+  all(): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  put(record: T): Promise<T>;
+  // Stores the record unless one with its id exists; false when it does
+  putIfAbsent(record: T): Promise<boolean>;
+  delete(id: string): Promise<boolean>;
+}
+
+function dataDir(): string {
+  return path.resolve(process.cwd(), process.env.DATA_DIR || ".data");
+}
+
+const queues = new Map<string, Promise<unknown>>();
+
+// Runs `task` after every earlier task queued for the same file
+function serialise<R>(file: string, task: () => Promise<R>): Promise<R> {
+  const previous = queues.get(file) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  queues.set(file, next);
+  return next;
+}
+
+async function readAll<T>(file: string): Promise<Record<string, T>> {
+  try {
+    return JSON.parse(await readFile(file, "utf-8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw err;
+  }
+}
+
+async function writeAll<T>(file: string, records: Record<string, T>): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(records, null, 2));
+  await rename(tmp, file);
+}
+
+export function createCollection<T extends { id: string }>(name: string): Collection<T> {
+  const file = () => path.join(dataDir(), `${name}.json`);
+
+  return {
+    async all() {
+      return Object.values(await readAll<T>(file()));
+    },
+
+    async get(id) {
+      return (await readAll<T>(file()))[id] ?? null;
+    },
+
+    put(record) {
+      const target = file();
+      return serialise(target, async () => {
+        const records = await readAll<T>(target);
+        records[record.id] = record;
+        await writeAll(target, records);
+        return record;
+      });
+    },
+
+    putIfAbsent(record) {
+      const target = file();
+      return serialise(target, async () => {
+        const records = await readAll<T>(target);
+        if (record.id in records) return false;
+        records[record.id] = record;
+        await writeAll(target, records);
+        return true;
+      });
+    },
+
+    delete(id) {
+      const target = file();
+      return serialise(target, async () => {
+        const records = await readAll<T>(target);
+        if (!(id in records)) return false;
+        delete records[id];
+        await writeAll(target, records);
+        return true;
+      });
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { createCollection } from "./store";
+import { HttpError } from "./errors";
+import { segmentSchema, tripSchema } from "./timesheets";
+import { ScheduleTemplate } from "./types";
+
+const templates = createCollection<ScheduleTemplate>("templates");
+
+const templateInputSchema = z.object({
+  name: z.string().trim().min(1, "A template needs a name").max(80),
+  days: z
+    .array(
+      z.object({
+        dayOfWeek: z.enum(["MON", "TUE", "WED", "THU", "FRI", "SAT", "SUN"]),
+        segments: z.array(segmentSchema).min(1),
+        allocations: z.array(z.object({ jobCode: z.string(), hours: z.string() })).default([]),
+        totalHours: z.string().default(""),
+        kilometers: z.string().default(""),
+        trips: z.array(tripSchema).default([]),
+        notes: z.string().default(""),
+      })
+    )
+    .min(1, "A template needs at least one day with hours"),
+});
+
+export async function listTemplates(employeeEmail: string): Promise<ScheduleTemplate[]> {
+  return (await templates.all())
+    .filter((t) => t.employeeEmail === employeeEmail)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getTemplate(id: string): Promise<ScheduleTemplate> {
+  const template = await templates.get(id);
+  if (!template) throw new HttpError(404, "Template not found");
+  return template;
+}
+
+// Saving under a name the employee already uses replaces that template
+export async function saveTemplate(employeeEmail: string, body: unknown): Promise<ScheduleTemplate> {
+  const parsed = templateInputSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new HttpError(400, `Invalid template: ${parsed.error.issues[0].message}`, {
+      issues: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+    });
+  }
+  const existing = (await listTemplates(employeeEmail)).find(
+    (t) => t.name.toLowerCase() === parsed.data.name.toLowerCase()
+  );
+  return templates.put({
+    ...parsed.data,
+    id: existing?.id ?? randomUUID(),
+    employeeEmail,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+export async function deleteTemplate(id: string): Promise<void> {
+  if (!(await templates.delete(id))) throw new HttpError(404, "Template not found");
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { applyTemplate, copyPeriod, fillEmpty, templateDays } from "./templates";
+import { generateWeekDays } from "./dates";
+import { DayEntry, DayValues, ScheduleTemplate } from "./types";
+
+const AT = "2025-08-04T09:00:00.000Z";
+
+function usual(overrides: Partial<DayValues> = {}): DayValues {
+  return {
+    segments: [{ startTime: "07:00", endTime: "15:30", breakMinutes: "30" }],
+    allocations: [{ jobCode: "J100", hours: "8" }],
+    totalHours: "8",
+    kilometers: "20",
+    trips: [],
+    notes: "Workshop",
+    ...overrides,
+  };
+}
+
+function week(start: string, fill: (days: DayEntry[]) => void = () => {}): DayEntry[] {
+  const days = generateWeekDays(start);
+  fill(days);
+  return days;
+}
+
+describe("fillEmpty", () => {
+  it("fills a blank day and marks every filled cell as from a template", () => {
+    const [day] = fillEmpty(week("2025-08-04").slice(0, 1), () => usual(), AT);
+    expect(day.segments[0]).toMatchObject({ startTime: "07:00", endTime: "15:30" });
+    expect(day.totalHours).toBe("8");
+    expect(day.allocations).toEqual([{ jobCode: "J100", hours: "8" }]);
+    expect(day.provenance.segments).toMatchObject({ source: "template", history: [{ at: AT }] });
+    expect(day.provenance.totalHours?.source).toBe("template");
+  });
+
+  it("leaves the hours and jobs of a day that already has times", () => {
+    const days = week("2025-08-04", (d) => {
+      d[0].segments = [{ startTime: "09:00", endTime: "13:00", breakMinutes: "" }];
+    });
+    const [day] = fillEmpty(days.slice(0, 1), () => usual(), AT);
+    expect(day.segments[0]).toMatchObject({ startTime: "09:00", endTime: "13:00" });
+    expect(day.totalHours).toBe("");
+    expect(day.allocations).toEqual([]);
+    expect(day.notes).toBe("Workshop");
+    expect(day.provenance.totalHours).toBeUndefined();
+  });
+
+  it("leaves the jobs of a day that already has hours", () => {
+    const days = week("2025-08-04", (d) => (d[0].totalHours = "4"));
+    const [day] = fillEmpty(days.slice(0, 1), () => usual(), AT);
+    expect(day.totalHours).toBe("4");
+    expect(day.allocations).toEqual([]);
+    expect(day.kilometers).toBe("20");
+  });
+
+  it("keeps anything already entered and copies rather than shares the template's lists", () => {
+    const template = usual({ trips: [{ from: "Depot", to: "Site", purpose: "", vehicle: "", kilometers: "10" }] });
+    const days = week("2025-08-04", (d) => (d[0].notes = "Off site"));
+    const [day] = fillEmpty(days.slice(0, 1), () => template, AT);
+    expect(day.notes).toBe("Off site");
+    expect(day.provenance.notes).toBeUndefined();
+    day.trips[0].kilometers = "99";
+    expect(template.trips[0].kilometers).toBe("10");
+  });
+
+  it("leaves days the source has nothing for", () => {
+    const days = week("2025-08-04");
+    expect(fillEmpty(days, () => undefined, AT)).toEqual(days);
+  });
+});
+
+describe("templateDays", () => {
+  it("takes the first worked day for each weekday and skips blank days", () => {
+    const days = [
+      ...week("2025-08-11", (d) => (d[0].totalHours = "6")),
+      ...week("2025-08-04", (d) => {
+        d[0].totalHours = "8";
+        d[1].notes = "Training";
+      }),
+    ];
+    const template = templateDays(days);
+    expect(template.map((t) => [t.dayOfWeek, t.totalHours, t.notes])).toEqual([
+      ["MON", "8", ""],
+      ["TUE", "", "Training"],
+    ]);
+    expect(template[0]).not.toHaveProperty("date");
+    expect(template[0]).not.toHaveProperty("provenance");
+  });
+});
+
+describe("applyTemplate", () => {
+  it("fills each day from the template's matching weekday", () => {
+    const template: ScheduleTemplate = {
+      id: "t1",
+      employeeEmail: "alex@example.com",
+      name: "Usual week",
+      days: [{ dayOfWeek: "WED", ...usual() }],
+      createdAt: AT,
+    };
+    const days = applyTemplate(week("2025-08-04"), template, AT);
+    expect(days.filter((d) => d.totalHours).map((d) => d.date)).toEqual(["2025-08-06"]);
+  });
+});
+
+describe("copyPeriod", () => {
+  it("moves the previous period's days onto the same weekdays", () => {
+    const previous = week("2025-07-28", (d) => {
+      d[0].totalHours = "8";
+      d[4].kilometers = "35";
+    });
+    const days = copyPeriod(week("2025-08-04"), previous, AT);
+    expect(days[0]).toMatchObject({ date: "2025-08-04", totalHours: "8" });
+    expect(days[4]).toMatchObject({ date: "2025-08-08", kilometers: "35" });
+    expect(days[0].provenance.totalHours?.source).toBe("template");
+  });
+
+  it("drops days that land outside this period", () => {
+    // A fortnight moves forward two weeks, so its second week lands past a one-week period
+    const previous = [
+      ...week("2025-07-21", (d) => (d[2].notes = "Kept")),
+      ...week("2025-07-28", (d) => (d[2].notes = "Dropped")),
+    ];
+    const days = copyPeriod(week("2025-08-04"), previous, AT);
+    expect(days.filter((d) => d.notes).map((d) => [d.date, d.notes])).toEqual([["2025-08-06", "Kept"]]);
+  });
+
+  it("leaves the days alone when there's nothing to copy", () => {
+    const days = week("2025-08-04");
+    expect(copyPeriod(days, [], AT)).toBe(days);
+  });
+});
@@ -0,0 +1,68 @@
+import { DayEntry, DayOfWeek, DayValues, ScheduleTemplate } from "./types";
+import { addDays, daysBetween } from "./dates";
+import { trackDays } from "./provenance";
+import { hasTimes } from "./hours";
+
+function values(day: DayEntry): DayValues {
+  const { segments, allocations, totalHours, kilometers, trips, notes } = day;
+  return { segments, allocations, totalHours, kilometers, trips, notes };
+}
+
+function hasValues(day: DayValues): boolean {
+  return (
+    hasTimes(day.segments) ||
+    !!(day.totalHours || day.kilometers || day.notes || day.allocations.length || day.trips.length)
+  );
+}
+
+// Fills only the cells that are still blank, from the day `source` gives for
+// each date, and marks what it filled as coming from a template. Hours and
+// their job split are only filled on days with no times or hours of their
+// own, so they can't disagree with what was entered.
+export function fillEmpty(
+  days: DayEntry[],
+  source: (day: DayEntry) => DayValues | undefined,
+  at: string = new Date().toISOString()
+): DayEntry[] {
+  const filled = days.map((day) => {
+    const from = source(day);
+    if (!from) return day;
+    const ownHours = hasTimes(day.segments) || !!day.totalHours;
+    return {
+      ...day,
+      segments: hasTimes(day.segments) || !hasTimes(from.segments) ? day.segments : from.segments.map((s) => ({ ...s })),
+      allocations: ownHours || day.allocations.length ? day.allocations : from.allocations.map((a) => ({ ...a })),
+      totalHours: ownHours ? day.totalHours : from.totalHours,
+      kilometers: day.kilometers || from.kilometers,
+      trips: day.trips.length ? day.trips : from.trips.map((t) => ({ ...t })),
+      notes: day.notes || from.notes,
+    };
+  });
+  return trackDays(days, filled, "template", at);
+}
+
+// The first worked day for each weekday in a period becomes that weekday's schedule
+export function templateDays(days: DayEntry[]): ScheduleTemplate["days"] {
+  const byWeekday = new Map<DayOfWeek, ScheduleTemplate["days"][number]>();
+  [...days]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .filter(hasValues)
+    .forEach((day) => {
+      if (!byWeekday.has(day.dayOfWeek)) byWeekday.set(day.dayOfWeek, { dayOfWeek: day.dayOfWeek, ...values(day) });
+    });
+  return Array.from(byWeekday.values());
+}
+
+export function applyTemplate(days: DayEntry[], template: ScheduleTemplate, at?: string): DayEntry[] {
+  return fillEmpty(days, (day) => template.days.find((t) => t.dayOfWeek === day.dayOfWeek), at);
+}
+
+// Moves the previous period's days forward by whole weeks so each lands on
+// the same weekday; days that fall outside this period are dropped
+export function copyPeriod(days: DayEntry[], previous: DayEntry[], at?: string): DayEntry[] {
+  if (!days.length || !previous.length) return days;
+  const first = (list: DayEntry[]) => list.map((d) => d.date).sort()[0];
+  const weeks = Math.round(daysBetween(first(previous), first(days)) / 7);
+  const shifted = new Map(previous.filter(hasValues).map((d) => [addDays(d.date, weeks * 7), values(d)]));
+  return fillEmpty(days, (day) => shifted.get(day.date), at);
+}
@@ -0,0 +1,176 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  claimedKilometers,
+  createTimesheet,
+  deleteTimesheet,
+  getTimesheet,
+  listTimesheets,
+  parseTimesheetInput,
+  timesheetId,
+  transitionTimesheet,
+  updateTimesheet,
+} from "./timesheets";
+import { generateWeekDays } from "./dates";
+import { TimesheetInput } from "./types";
+
+let dir: string;
+
+function draft(overrides: Partial<TimesheetInput> = {}): TimesheetInput {
+  return {
+    email: "alex@example.com",
+    employeeName: "Alex Turner",
+    weekStartDate: "2025-08-04",
+    days: generateWeekDays("2025-08-04"),
+    extraction: null,
+    confidences: {},
+    warnings: [],
+    conflicts: [],
+    validation: null,
+    ...overrides,
+  };
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "timesheets-"));
+  process.env.DATA_DIR = dir;
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("timesheetId", () => {
+  it("keys a timesheet by employee and period", () => {
+    expect(timesheetId(draft())).toBe("alex@example.com--2025-08-04");
+    expect(timesheetId(draft({ email: "", employeeName: " Alex  Turner " }))).toBe("alex-turner--2025-08-04");
+  });
+});
+
+describe("parseTimesheetInput", () => {
+  it("fills in the optional parts and refuses a sheet without an employee", () => {
+    const { days, weekStartDate } = draft();
+    expect(parseTimesheetInput({ email: "alex@example.com", weekStartDate, days })).toMatchObject({
+      employeeName: "",
+      extraction: null,
+      warnings: [],
+    });
+    expect(() => parseTimesheetInput({ weekStartDate, days })).toThrow("A timesheet needs an employee name or email");
+  });
+
+  it("lists what's wrong with an invalid sheet", () => {
+    const days = generateWeekDays("2025-08-04");
+    days[0].segments[0].startTime = "7.30";
+    expect(() => parseTimesheetInput({ ...draft(), days })).toThrow(
+      expect.objectContaining({
+        status: 400,
+        details: { issues: [{ path: "days.0.segments.0.startTime", message: "Expected an HH:MM time" }] },
+      })
+    );
+  });
+});
+
+describe("createTimesheet", () => {
+  it("starts a draft with no history", async () => {
+    const created = await createTimesheet(draft());
+    expect(created).toMatchObject({ id: "alex@example.com--2025-08-04", status: "draft", history: [] });
+    expect(await getTimesheet(created.id)).toEqual(created);
+  });
+
+  it("refuses a second timesheet for the same employee and period, even when both are saved at once", async () => {
+    const results = await Promise.allSettled([createTimesheet(draft()), createTimesheet(draft())]);
+    expect(results.map((r) => r.status).sort()).toEqual(["fulfilled", "rejected"]);
+    await expect(createTimesheet(draft())).rejects.toMatchObject({ status: 409 });
+  });
+});
+
+describe("updateTimesheet", () => {
+  it("saves edits to a draft", async () => {
+    const { id } = await createTimesheet(draft());
+    const updated = await updateTimesheet(id, draft({ warnings: ["Checked"] }));
+    expect(updated.warnings).toEqual(["Checked"]);
+  });
+
+  it("won't move a sheet to another employee or period", async () => {
+    const { id } = await createTimesheet(draft());
+    await expect(updateTimesheet(id, draft({ weekStartDate: "2025-08-11" }))).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("won't edit a submitted sheet until it's reopened", async () => {
+    const { id } = await createTimesheet(draft());
+    await transitionTimesheet(id, "submit", "Alex Turner");
+    await expect(updateTimesheet(id, draft())).rejects.toMatchObject({ status: 409 });
+    await transitionTimesheet(id, "reopen", "Alex Turner");
+    await expect(updateTimesheet(id, draft())).resolves.toMatchObject({ status: "draft" });
+  });
+});
+
+describe("transitionTimesheet", () => {
+  it("records each step and who decided", async () => {
+    const { id } = await createTimesheet(draft());
+    await transitionTimesheet(id, "submit", "Alex Turner");
+    const approved = await transitionTimesheet(id, "approve", "Sam Lee", " Looks right ");
+    expect(approved).toMatchObject({ status: "approved", decidedBy: "Sam Lee" });
+    expect(approved.history.map((h) => [h.action, h.by, h.comment])).toEqual([
+      ["submit", "Alex Turner", ""],
+      ["approve", "Sam Lee", "Looks right"],
+    ]);
+
+    const reopened = await transitionTimesheet(id, "reopen", "Sam Lee");
+    expect(reopened).toMatchObject({ status: "draft", decidedBy: null, decidedAt: null });
+  });
+
+  it("refuses actions the status doesn't allow and rejections without a comment", async () => {
+    const { id } = await createTimesheet(draft());
+    await expect(transitionTimesheet(id, "approve", "Sam Lee")).rejects.toMatchObject({ status: 409 });
+    await transitionTimesheet(id, "submit", "Alex Turner");
+    await expect(transitionTimesheet(id, "reject", "Sam Lee", " ")).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe("deleteTimesheet", () => {
+  it("deletes drafts but not submitted sheets", async () => {
+    const { id } = await createTimesheet(draft());
+    const other = await createTimesheet(draft({ weekStartDate: "2025-08-11", days: generateWeekDays("2025-08-11") }));
+    await transitionTimesheet(other.id, "submit", "Alex Turner");
+
+    await deleteTimesheet(id);
+    await expect(getTimesheet(id)).rejects.toMatchObject({ status: 404 });
+    await expect(deleteTimesheet(other.id)).rejects.toMatchObject({ status: 409 });
+  });
+});
+
+describe("listTimesheets", () => {
+  it("filters by employee, period and status, newest period first", async () => {
+    await createTimesheet(draft());
+    await createTimesheet(draft({ weekStartDate: "2025-08-11", days: generateWeekDays("2025-08-11") }));
+    await createTimesheet(draft({ email: "sam@example.com", employeeName: "Sam Lee" }));
+
+    expect((await listTimesheets({ employee: "ALEX@example.com" })).map((t) => t.weekStartDate)).toEqual([
+      "2025-08-11",
+      "2025-08-04",
+    ]);
+    expect((await listTimesheets({ weekStartDate: "2025-08-04" })).map((t) => t.employeeName)).toEqual([
+      "Alex Turner",
+      "Sam Lee",
+    ]);
+    expect(await listTimesheets({ status: "approved" })).toEqual([]);
+  });
+});
+
+describe("claimedKilometers", () => {
+  it("adds up approved kilometres from the start of the claim year to before the given day", async () => {
+    const days = generateWeekDays("2025-08-04");
+    days[0].kilometers = "100";
+    days[2].kilometers = "50";
+    const { id } = await createTimesheet(draft({ days }));
+    expect(await claimedKilometers("alex@example.com", "2025-08-06", "07-01")).toBe(0);
+
+    await transitionTimesheet(id, "submit", "Alex Turner");
+    await transitionTimesheet(id, "approve", "Sam Lee");
+    expect(await claimedKilometers("alex@example.com", "2025-08-06", "07-01")).toBe(100);
+    expect(await claimedKilometers("alex@example.com", "2025-08-07", "07-01")).toBe(150);
+  });
+});
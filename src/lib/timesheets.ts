@@ -0,0 +1,235 @@
+import { z } from "zod";
+import { createCollection } from "./store";
+import { HttpError } from "./errors";
+import { aiExtractionResultSchema, validationSchema } from "./schema";
+import { canTransition, getTransition, isEditable, isExportable } from "./workflow";
+import { claimYearStart, dayKilometers } from "./mileage";
+import { InboundNote, TimesheetInput, TimesheetRecord, WorkflowAction } from "./types";
+
+const timesheets = createCollection<TimesheetRecord>("timesheets");
+
+export const segmentSchema = z.object({
+  startTime: z.string().regex(/^(\d{2}:\d{2})?$/, "Expected an HH:MM time"),
+  endTime: z.string().regex(/^(\d{2}:\d{2})?$/, "Expected an HH:MM time"),
+  breakMinutes: z.string(),
+});
+
+export const tripSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  purpose: z.string(),
+  vehicle: z.string(),
+  kilometers: z.string(),
+});
+
+const valueSource = z.enum(["manual", "ai", "template", "import"]);
+
+// Only where the client says a value came from; trackInput checks the claim
+// and rebuilds confidence and history from the stored record
+const provenanceSchema = z
+  .object({
+    source: valueSource,
+    original: z.object({ source: valueSource.exclude(["manual"]), value: z.string() }).nullable(),
+  })
+  .transform(({ source, original }) => ({
+    source,
+    confidence: null,
+    original: original && { ...original, confidence: null },
+    history: [],
+  }));
+
+const dayEntrySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  dayOfWeek: z.enum(["MON", "TUE", "WED", "THU", "FRI", "SAT", "SUN"]),
+  segments: z.array(segmentSchema).min(1, "A day needs at least one segment"),
+  allocations: z.array(z.object({ jobCode: z.string(), hours: z.string() })),
+  totalHours: z.string(),
+  kilometers: z.string(),
+  trips: z.array(tripSchema),
+  notes: z.string(),
+  provenance: z
+    .object({
+      segments: provenanceSchema,
+      totalHours: provenanceSchema,
+      kilometers: provenanceSchema,
+      trips: provenanceSchema,
+      notes: provenanceSchema,
+      allocations: provenanceSchema,
+    })
+    .partial(),
+});
+
+const confidenceMapSchema = z.record(z.record(z.number().nullable()));
+
+export const timesheetInputSchema: z.ZodType<TimesheetInput, z.ZodTypeDef, unknown> = z.object({
+  email: z.string().trim().default(""),
+  employeeName: z.string().trim().default(""),
+  weekStartDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date"),
+  days: z.array(dayEntrySchema),
+  extraction: aiExtractionResultSchema.nullable().default(null),
+  confidences: confidenceMapSchema.default({}),
+  warnings: z.array(z.string()).default([]),
+  conflicts: z
+    .array(
+      z.object({
+        date: z.string(),
+        field: z.enum(["startTime", "endTime", "totalHours", "breakMinutes", "kilometers"]),
+        values: z.array(
+          z.object({
+            source: z.string(),
+            value: z.union([z.string(), z.number()]).nullable(),
+            confidence: z.number().nullable(),
+          })
+        ),
+        chosen: z.union([z.string(), z.number()]).nullable(),
+      })
+    )
+    .default([]),
+  validation: validationSchema.nullable().default(null),
+});
+
+export function parseTimesheetInput(body: unknown): TimesheetInput {
+  const parsed = timesheetInputSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new HttpError(400, "Invalid timesheet", {
+      issues: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+    });
+  }
+  if (!parsed.data.email && !parsed.data.employeeName) {
+    throw new HttpError(400, "A timesheet needs an employee name or email");
+  }
+  return parsed.data;
+}
+
+export function employeeKey(data: { email: string; employeeName: string }): string {
+  return (data.email || data.employeeName).trim().toLowerCase();
+}
+
+// One timesheet per employee per period
+export function timesheetId(data: { email: string; employeeName: string; weekStartDate: string }): string {
+  const slug = employeeKey(data)
+    .replace(/[^a-z0-9@.]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug}--${data.weekStartDate}`;
+}
+
+export interface TimesheetFilter {
+  employee?: string;
+  weekStartDate?: string;
+  status?: TimesheetRecord["status"];
+}
+
+export async function listTimesheets(filter: TimesheetFilter = {}): Promise<TimesheetRecord[]> {
+  const employee = filter.employee?.trim().toLowerCase();
+  return (await timesheets.all())
+    .filter((t) => !filter.status || t.status === filter.status)
+    .filter((t) => !employee || t.email.toLowerCase() === employee || t.employeeName.toLowerCase() === employee)
+    .filter((t) => !filter.weekStartDate || t.weekStartDate === filter.weekStartDate)
+    .sort((a, b) => b.weekStartDate.localeCompare(a.weekStartDate) || a.employeeName.localeCompare(b.employeeName));
+}
+
+// Kilometres on an employee's approved timesheets from the start of the claim
+// year up to the day before `before`, so tiers carry across periods
+export async function claimedKilometers(email: string, before: string, yearStart: string): Promise<number> {
+  const from = claimYearStart(before, yearStart);
+  const approved = (await timesheets.all()).filter(
+    (t) => t.email.toLowerCase() === email.toLowerCase() && isExportable(t.status)
+  );
+  return approved
+    .flatMap((t) => t.days)
+    .filter((d) => d.date >= from && d.date < before)
+    .reduce((sum, d) => sum + dayKilometers(d), 0);
+}
+
+export async function getTimesheet(id: string): Promise<TimesheetRecord> {
+  const record = await timesheets.get(id);
+  if (!record) throw new HttpError(404, "Timesheet not found");
+  return record;
+}
+
+export async function createTimesheet(
+  input: TimesheetInput,
+  inbound: InboundNote | null = null
+): Promise<TimesheetRecord> {
+  const id = timesheetId(input);
+  const now = new Date().toISOString();
+  const record: TimesheetRecord = {
+    ...input,
+    id,
+    status: "draft",
+    history: [],
+    decidedBy: null,
+    decidedAt: null,
+    inbound,
+    createdAt: now,
+    updatedAt: now,
+  };
+  // Checked and stored in one step, so two saves at once can't both create it
+  if (!(await timesheets.putIfAbsent(record))) {
+    throw new HttpError(409, "A timesheet already exists for this employee and period", { id });
+  }
+  return record;
+}
+
+// Edits keep the note of an emailed timesheet; another email replaces it
+export async function updateTimesheet(
+  id: string,
+  input: TimesheetInput,
+  inbound?: InboundNote
+): Promise<TimesheetRecord> {
+  const existing = await getTimesheet(id);
+  if (!isEditable(existing.status)) {
+    throw new HttpError(409, `A ${existing.status} timesheet can't be edited; reopen it first`);
+  }
+  if (timesheetId(input) !== id) {
+    throw new HttpError(400, "Employee and period can't change; create a new timesheet instead");
+  }
+  return timesheets.put({
+    ...existing,
+    ...input,
+    id,
+    inbound: inbound ?? existing.inbound,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export async function transitionTimesheet(
+  id: string,
+  action: WorkflowAction,
+  by: string,
+  comment = ""
+): Promise<TimesheetRecord> {
+  const existing = await getTimesheet(id);
+  const transition = getTransition(action);
+
+  if (!canTransition(existing.status, action)) {
+    throw new HttpError(409, `Can't ${action} a timesheet that is ${existing.status}`);
+  }
+  if (!by.trim()) {
+    throw new HttpError(400, "Who is making this change is required");
+  }
+  if (transition.requiresComment && !comment.trim()) {
+    throw new HttpError(400, `A comment is required to ${action}`);
+  }
+
+  const now = new Date().toISOString();
+  const decided = action === "approve" || action === "reject";
+  return timesheets.put({
+    ...existing,
+    status: transition.to ?? existing.status,
+    history: [...existing.history, { action, by: by.trim(), at: now, comment: comment.trim() }],
+    decidedBy: decided ? by.trim() : transition.to ? null : existing.decidedBy,
+    decidedAt: decided ? now : transition.to ? null : existing.decidedAt,
+    updatedAt: now,
+  });
+}
+
+export async function deleteTimesheet(id: string): Promise<void> {
+  const existing = await getTimesheet(id);
+  if (!isEditable(existing.status)) {
+    throw new HttpError(409, `A ${existing.status} timesheet can't be deleted`);
+  }
+  if (!(await timesheets.delete(id))) {
+    throw new HttpError(404, "Timesheet not found");
+  }
+}
@@ -1,16 +1,75 @@
 export type DayOfWeek = "MON" | "TUE" | "WED" | "THU" | "FRI" | "SAT" | "SUN";
 
-export interface DayEntry {
-  date: string;
-  dayOfWeek: DayOfWeek;
+// One stretch of work; an end at or before the start runs past midnight
+export interface WorkSegment {
   startTime: string;
   endTime: string;
-  totalHours: string;
   breakMinutes: string;
+}
+
+// Hours booked to a job; blank hours means whatever is left of the day
+export interface JobAllocation {
+  jobCode: string;
+  hours: string;
+}
+
+// One drive for work, with what a mileage claim needs to record
+export interface Trip {
+  from: string;
+  to: string;
+  purpose: string;
+  vehicle: string;
   kilometers: string;
+}
+
+export interface DayEntry {
+  date: string; // the day the first segment started
+  dayOfWeek: DayOfWeek;
+  segments: WorkSegment[];
+  allocations: JobAllocation[];
+  totalHours: string;
+  kilometers: string; // a day without trips can still claim a plain total
+  trips: Trip[];
   notes: string;
+  provenance: DayProvenance;
 }
 
+// A day's values without its date, as templates and copied periods carry them
+export type DayValues = Pick<DayEntry, "segments" | "allocations" | "totalHours" | "kilometers" | "trips" | "notes">;
+
+// An employee's usual week, applied by weekday
+export interface ScheduleTemplate {
+  id: string;
+  employeeEmail: string;
+  name: string;
+  days: Array<DayValues & { dayOfWeek: DayOfWeek }>;
+  createdAt: string;
+}
+
+// The day fields whose origin and edits are tracked
+export type TrackedField = "segments" | "totalHours" | "kilometers" | "trips" | "notes" | "allocations";
+
+export type ValueSource = "manual" | "ai" | "template" | "import";
+
+// Values are kept as the text shown in the review and audit report
+export interface FieldEdit {
+  at: string; // ISO timestamp
+  source: ValueSource;
+  confidence: number | null; // AI values only
+  from: string;
+  to: string;
+}
+
+export interface FieldProvenance {
+  source: ValueSource; // where the current value came from
+  confidence: number | null; // the model's confidence while its value stands
+  original: { source: Exclude<ValueSource, "manual">; value: string; confidence: number | null } | null;
+  history: FieldEdit[];
+}
+
+// Fields with no entry were typed in by hand and never changed
+export type DayProvenance = Partial<Record<TrackedField, FieldProvenance>>;
+
 export interface TimesheetData {
   email: string;
   employeeName: string;
@@ -18,17 +77,78 @@ export interface TimesheetData {
   days: DayEntry[];
 }
 
+export type ConfidenceMap = Record<string, Record<string, number | null>>; // date -> field -> confidence
+
+export type TimesheetStatus = "draft" | "submitted" | "approved" | "rejected";
+
+export type WorkflowAction = "submit" | "approve" | "reject" | "reopen" | "comment";
+
+export interface TimesheetEvent {
+  action: WorkflowAction;
+  by: string;
+  at: string;
+  comment: string;
+}
+
+// A saved timesheet: the edited values plus the extraction they came from
+// Where an emailed timesheet came from, so whoever reviews it knows to check it
+export interface InboundNote {
+  from: string;
+  subject: string;
+  receivedAt: string;
+  files: string[];
+}
+
+export interface TimesheetRecord extends TimesheetData {
+  id: string;
+  extraction: AIExtractionResult | null;
+  confidences: ConfidenceMap;
+  warnings: string[];
+  conflicts: ExtractionConflict[];
+  validation: AIValidationData | null;
+  status: TimesheetStatus;
+  history: TimesheetEvent[];
+  decidedBy: string | null;
+  decidedAt: string | null;
+  inbound: InboundNote | null; // set when the timesheet arrived by email
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What the editor sends; workflow fields only change through transitions
+export type TimesheetInput = Omit<
+  TimesheetRecord,
+  "id" | "createdAt" | "updatedAt" | "status" | "history" | "decidedBy" | "decidedAt" | "inbound"
+>;
+
+export interface AIWorkSegment {
+  startTime: string | null;
+  endTime: string | null;
+  breakMinutes: number | null;
+}
+
+export interface AITrip {
+  from: string | null;
+  to: string | null;
+  purpose: string | null;
+  vehicle: string | null;
+  kilometers: number | null;
+}
+
 export interface AIExtractionDay {
   date: string;
   dayOfWeek: DayOfWeek;
   work: {
-    startTime: string | null;
-    endTime: string | null;
+    startTime: string | null; // first segment's start
+    endTime: string | null; // last segment's end
     totalHours: number | null;
-    breakMinutes: number | null;
+    breakMinutes: number | null; // across all segments
     kilometers: number | null;
+    segments: AIWorkSegment[];
   };
   notes: string | null;
+  allocations: Array<{ jobCode: string; hours: number | null }>;
+  trips: AITrip[];
   confidence: {
     overall: number;
     fields: Record<string, number | null>;
@@ -59,4 +179,246 @@ export interface AIExtractionResult {
     fileType: string;
     pageOrImageCount: number;
   };
+  conflicts?: ExtractionConflict[];
+}
+
+export type AIWorkField = Exclude<keyof AIExtractionDay["work"], "segments">;
+
+// Two or more sources gave different values for the same day and field
+export interface ExtractionConflict {
+  date: string;
+  field: AIWorkField;
+  values: Array<{
+    source: string;
+    value: string | number | null;
+    confidence: number | null;
+  }>;
+  chosen: string | number | null;
+}
+
+export interface ExtractionIssue {
+  path: string;
+  message: string;
+}
+
+export type Role = "employee" | "manager" | "admin";
+
+// How an employee is paid, kept with their directory entry
+export interface PayrollProfile {
+  xeroName: string; // exactly as in Xero; blank uses their name
+  defaultBreakMinutes: number; // filled into new periods' weekdays; 0 for none
+  standardHours: number; // hours in a normal weekday; 0 when not set
+  eligibleRates: string[] | null; // earnings rates beyond ordinary they can be paid; null for all
+  mileageRate: string; // Xero earnings rate for kilometres; blank when they can't claim them
+}
+
+// Someone in the organisation's directory, who can sign in
+export interface Employee extends PayrollProfile {
+  id: string;
+  name: string;
+  email: string;
+  employeeId: string; // payroll number; may be blank
+  role: Role;
+  active: boolean; // inactive people can't sign in
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type EmployeeInput = Pick<Employee, "name" | "email" | "employeeId" | "role" | "active"> & PayrollProfile;
+
+// A message the app would have emailed, kept locally in development
+export interface OutboxMessage {
+  id: string;
+  to: string;
+  subject: string;
+  text: string;
+  link: string | null;
+  sentAt: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// One extract request, as metered
+export interface UsageEvent {
+  id: string;
+  at: string; // ISO timestamp
+  callerId: string; // directory id of whoever asked; rate limits count against them
+  employee: string; // whose timesheet was read
+  ip: string;
+  provider: string;
+  model: string;
+  files: number;
+  modelCalls: number; // repairs count; cache hits don't
+  cacheHits: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null; // null when the model's price isn't known
+  latencyMs: number;
+  pending: boolean; // reserved before the extraction and filled in when it ends
+  ok: boolean;
+  error: string | null;
+}
+
+export interface UsageTotals {
+  requests: number;
+  failures: number;
+  cacheHits: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  averageLatencyMs: number;
+}
+
+export interface UsageSummary {
+  since: string; // first day covered
+  totals: UsageTotals;
+  byEmployee: Array<UsageTotals & { employee: string }>;
+  byDay: Array<UsageTotals & { date: string }>;
+}
+
+export type ExtractionStage = "received" | "preparing" | "calling" | "repairing" | "validating" | "done";
+
+// What the extract route streams, one JSON object per line
+export type ExtractionEvent =
+  | { type: "stage"; stage: ExtractionStage; message: string }
+  | { type: "day"; day: AIExtractionDay }
+  | { type: "result"; result: AIExtractionResult; cache: ExtractionCacheInfo }
+  | { type: "error"; error: string; issues?: ExtractionIssue[] };
+
+// How many model calls an extract request answered from the cache
+export interface ExtractionCacheInfo {
+  hits: number;
+  misses: number;
+  forced: boolean; // the cache was skipped on request
+}
+
+export interface OvertimeTier {
+  afterHours: number;
+  rate: string;
+}
+
+// Names are Xero earnings rate names and must match Xero exactly
+export interface PayRules {
+  ordinaryRate: string;
+  dailyOvertime: OvertimeTier[]; // hours past each threshold in a day
+  weeklyOvertime: OvertimeTier | null; // ordinary hours past the threshold in a week
+  saturdayRate: string | null;
+  sundayRate: string | null;
+  nightLoading: { start: string; end: string; rate: string } | null; // HH:MM window
+}
+
+export interface RateHours {
+  rate: string;
+  hours: number;
+}
+
+export interface DayRateHours {
+  date: string;
+  lines: RateHours[];
+}
+
+export type PeriodLength = "weekly" | "fortnightly" | "semi-monthly" | "monthly";
+
+export interface PeriodSettings {
+  length: PeriodLength;
+  startDay: DayOfWeek; // weekly and fortnightly periods
+  anchorDate: string; // any date in the first week of a fortnightly period
+  includeWeekends: boolean;
+}
+
+// How worked time is rounded before it's paid. "nearest" rounds the worked
+// hours; "startUpEndDown" rounds clock-in later and clock-out earlier.
+export type RoundingMethod = "nearest" | "startUpEndDown";
+
+export interface RoundingPolicy {
+  increment: number; // minutes; 0 for no rounding
+  method: RoundingMethod;
+  scope: "segment" | "day"; // round each segment, or the day as a whole
+}
+
+// A client/project that time can be billed to
+export interface Job {
+  code: string; // cost code, unique
+  client: string;
+  project: string;
+  active: boolean;
+}
+
+// Xero tracking category names the job's client and project are exported under; blank leaves one out
+export interface JobTracking {
+  clientCategory: string;
+  projectCategory: string;
+}
+
+export type RuleId =
+  | "maxDayHours"
+  | "breakRequired"
+  | "totalMismatch"
+  | "endBeforeStart"
+  | "overlappingSegments"
+  | "maxKilometers"
+  | "tripDetails"
+  | "consecutiveDays";
+
+export type RuleSeverity = "error" | "warning" | "off";
+
+export interface RuleSetting {
+  severity: RuleSeverity;
+  limit: number; // meaning depends on the rule, see RULE_DEFINITIONS
+}
+
+export type TimesheetRules = Record<RuleId, RuleSetting> & {
+  breakRequired: RuleSetting & { breakMinutes: number };
+};
+
+export interface RuleViolation {
+  rule: RuleId;
+  severity: Exclude<RuleSeverity, "off">;
+  date: string;
+  field: string | null; // "totalHours", "kilometers", "segments.0.endTime"; null for the whole day
+  message: string;
+}
+
+// Which parts of the sheet's sign-off a timesheet can't be submitted without
+export interface SignOffSettings {
+  supervisor: boolean; // supervisor's name
+  signature: boolean; // supervisor's signature
+  approver: boolean; // approver's name and date
+}
+
+// Reimbursement per km drops as the claim year's kilometres pass each tier's cap
+export interface MileageTier {
+  upToKm: number | null; // km claimed so far this year; null for no cap
+  ratePerKm: number; // dollars
+}
+
+export interface MileageSettings {
+  tiers: MileageTier[]; // by cap; km past the last capped tier aren't reimbursed
+  yearStart: string; // MM-DD the claim year starts, e.g. 07-01
+  payAs: "earnings" | "reimbursement"; // a Kilometers line in the timesheet export, or a separate reimbursement export
+  reimbursementType: string; // Xero reimbursement type name
+}
+
+// One trip's share of a claim, at the rates its place in the year earns
+export interface MileageClaim {
+  date: string;
+  trip: Trip; // a day's plain km total claims as a trip without details
+  kilometers: number;
+  rate: number; // dollars per km, averaged when a trip crosses a tier
+  amount: number;
+}
+
+export interface OrgSettings {
+  payRules: PayRules;
+  period: PeriodSettings;
+  rules: TimesheetRules;
+  rounding: RoundingPolicy;
+  signOff: SignOffSettings;
+  jobs: Job[];
+  tracking: JobTracking;
+  mileage: MileageSettings;
+  timeZone: string; // IANA zone that decides which day "today" is
 }
@@ -0,0 +1,89 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { finishUsage, reserveUsage, summarizeUsage, UsageRequest } from "./usage";
+
+const NOW = new Date("2025-08-04T09:00:00.000Z");
+const EARLIER = new Date("2025-08-04T08:30:00.000Z");
+
+let dir: string;
+
+function request(overrides: Partial<UsageRequest>): UsageRequest {
+  return {
+    callerId: "manager-1",
+    employee: "Alex Turner",
+    ip: "203.0.113.5",
+    provider: "Replay",
+    model: "replay",
+    files: 1,
+    ...overrides,
+  };
+}
+
+function done(inputTokens = 0, outputTokens = 0) {
+  return { modelCalls: 1, cacheHits: 0, inputTokens, outputTokens, latencyMs: 100, ok: true, error: null };
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "usage-"));
+  process.env.DATA_DIR = dir;
+  process.env.EXTRACT_LIMIT_PER_EMPLOYEE = "2";
+  process.env.EXTRACT_LIMIT_PER_IP = "0";
+});
+
+afterEach(async () => {
+  delete process.env.EXTRACT_LIMIT_PER_EMPLOYEE;
+  delete process.env.EXTRACT_LIMIT_PER_IP;
+  delete process.env.EXTRACT_DAILY_BUDGET_USD;
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("reserveUsage", () => {
+  it("counts requests against whoever made them, whichever employee they were for", async () => {
+    await reserveUsage(request({ employee: "Alex Turner" }), EARLIER);
+    await reserveUsage(request({ employee: "Sam Lee" }), EARLIER);
+
+    await expect(reserveUsage(request({}), NOW)).rejects.toMatchObject({ status: 429 });
+    // Alex's own uploads aren't held up by what a manager read for them
+    await expect(reserveUsage(request({ callerId: "employee-alex" }), NOW)).resolves.toEqual(expect.any(String));
+  });
+
+  it("only counts the last hour", async () => {
+    await reserveUsage(request({}), new Date("2025-08-04T07:59:00.000Z"));
+    await reserveUsage(request({}), EARLIER);
+    await expect(reserveUsage(request({}), NOW)).resolves.toEqual(expect.any(String));
+  });
+
+  it("counts requests made side by side against each other", async () => {
+    const results = await Promise.allSettled([1, 2, 3].map(() => reserveUsage(request({}), NOW)));
+    expect(results.map((r) => r.status)).toEqual(["fulfilled", "fulfilled", "rejected"]);
+  });
+
+  it("counts requests still running at the average cost towards the budget", async () => {
+    process.env.EXTRACT_LIMIT_PER_EMPLOYEE = "0";
+    process.env.EXTRACT_DAILY_BUDGET_USD = "0.07";
+    const model = "claude-sonnet-4-5";
+    // 10,000 input tokens at $3 a million is $0.03, and the one still running counts the same
+    await finishUsage(await reserveUsage(request({ model }), EARLIER), done(10_000));
+    await reserveUsage(request({ model }), EARLIER);
+
+    await expect(reserveUsage(request({ model }), NOW)).resolves.toEqual(expect.any(String));
+    await expect(reserveUsage(request({ model }), NOW)).rejects.toMatchObject({ status: 429 });
+  });
+
+  it("refuses a model without a price while there's a budget", async () => {
+    process.env.EXTRACT_DAILY_BUDGET_USD = "5";
+    await expect(reserveUsage(request({ model: "llama3.2-vision" }), NOW)).rejects.toMatchObject({ status: 503 });
+  });
+});
+
+describe("finishUsage", () => {
+  it("fills in the reserved request with what it used and cost", async () => {
+    await finishUsage(await reserveUsage(request({ model: "claude-sonnet-4-5" }), EARLIER), done(1_000_000, 0));
+    await reserveUsage(request({}), EARLIER);
+
+    const { totals } = await summarizeUsage(1, "UTC", NOW);
+    expect(totals).toMatchObject({ requests: 2, failures: 0, inputTokens: 1_000_000, costUsd: 3 });
+  });
+});
@@ -0,0 +1,187 @@
+import { randomUUID } from "crypto";
+import { createCollection } from "./store";
+import { HttpError } from "./errors";
+import { addDays, formatDate } from "./dates";
+import { TokenUsage, UsageEvent, UsageSummary, UsageTotals } from "./types";
+
+const usage = createCollection<UsageEvent>("usage");
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// US dollars per million input/output tokens, matched by longest model-name
+// prefix. List prices when written; AI_PRICE_INPUT and AI_PRICE_OUTPUT override.
+const PRICES: Record<string, [number, number]> = {
+  "claude-opus-4-6": [5, 25],
+  "claude-opus-4-5": [5, 25],
+  "claude-opus-4": [15, 75],
+  "claude-sonnet-4": [3, 15],
+  "claude-haiku-4-5": [1, 5],
+  "claude-3-5-haiku": [0.8, 4],
+  "gpt-4o-mini": [0.15, 0.6],
+  "gpt-4o": [2.5, 10],
+  "gpt-4.1-mini": [0.4, 1.6],
+  "gpt-4.1": [2, 8],
+};
+
+function envNumber(name: string): number | null {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") return null;
+  const parsed = Number(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function modelPrice(model: string): [number, number] | null {
+  const input = envNumber("AI_PRICE_INPUT");
+  const output = envNumber("AI_PRICE_OUTPUT");
+  if (input !== null && output !== null) return [input, output];
+
+  const prefix = Object.keys(PRICES)
+    .filter((p) => model.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? PRICES[prefix] : null;
+}
+
+export function estimateCost(model: string, tokens: TokenUsage): number | null {
+  if (!tokens.inputTokens && !tokens.outputTokens) return 0;
+  const price = modelPrice(model);
+  if (!price) return null;
+  return (tokens.inputTokens * price[0] + tokens.outputTokens * price[1]) / 1_000_000;
+}
+
+export type UsageRequest = Pick<UsageEvent, "callerId" | "employee" | "ip" | "provider" | "model" | "files">;
+
+// Requests per hour; 0 turns a limit off
+function limits() {
+  return {
+    perIp: envNumber("EXTRACT_LIMIT_PER_IP") ?? 60,
+    perEmployee: envNumber("EXTRACT_LIMIT_PER_EMPLOYEE") ?? 20,
+    dailyBudgetUsd: envNumber("EXTRACT_DAILY_BUDGET_USD") ?? 0,
+  };
+}
+
+// Throws a 429 when the caller has used up their hourly requests or the
+// organisation has spent its budget for the last 24 hours. Requests count
+// against whoever made them, whichever employee they were for.
+function checkRateLimit(events: UsageEvent[], request: UsageRequest, now: Date): void {
+  const { perIp, perEmployee, dailyBudgetUsd } = limits();
+
+  const lastHour = events.filter((e) => now.getTime() - Date.parse(e.at) < HOUR_MS);
+  // Seconds until the oldest of the counted requests drops out of the window
+  const retryAfter = (counted: UsageEvent[]) =>
+    Math.max(1, Math.ceil((Math.min(...counted.map((e) => Date.parse(e.at))) + HOUR_MS - now.getTime()) / 1000));
+
+  const fromIp = lastHour.filter((e) => e.ip === request.ip);
+  if (perIp && fromIp.length >= perIp) {
+    throw new HttpError(429, `Too many extractions from this address; the limit is ${perIp} an hour`, {
+      retryAfter: retryAfter(fromIp),
+    });
+  }
+
+  const fromCaller = lastHour.filter((e) => e.callerId === request.callerId);
+  if (perEmployee && fromCaller.length >= perEmployee) {
+    throw new HttpError(429, `Too many extractions from your account; the limit is ${perEmployee} an hour`, {
+      retryAfter: retryAfter(fromCaller),
+    });
+  }
+
+  if (dailyBudgetUsd) {
+    // A budget can't be kept without knowing what the model costs
+    if (!modelPrice(request.model)) {
+      throw new HttpError(
+        503,
+        `The price of ${request.model} isn't known, so the daily AI budget can't be kept; ` +
+          "set AI_PRICE_INPUT and AI_PRICE_OUTPUT"
+      );
+    }
+    const lastDay = events.filter((e) => now.getTime() - Date.parse(e.at) < 24 * HOUR_MS);
+    // Requests still running count at the average cost of those that finished
+    const finished = lastDay.filter((e) => !e.pending);
+    const average = finished.length ? finished.reduce((sum, e) => sum + (e.costUsd ?? 0), 0) / finished.length : 0;
+    const spent = lastDay.reduce((sum, e) => sum + (e.pending ? average : e.costUsd ?? 0), 0);
+    if (spent >= dailyBudgetUsd) {
+      throw new HttpError(429, "The daily AI extraction budget has been used up; try again later", {
+        retryAfter: 60 * 60,
+      });
+    }
+  }
+}
+
+let reserving: Promise<unknown> = Promise.resolve();
+
+// Checks the limits and records the request as pending in one step, so
+// requests made side by side count against each other. Returns the event's id
+// for finishUsage.
+export function reserveUsage(request: UsageRequest, now = new Date()): Promise<string> {
+  const next = reserving
+    .catch(() => undefined)
+    .then(async () => {
+      checkRateLimit(await usage.all(), request, now);
+      const event = await usage.put({
+        ...request,
+        id: randomUUID(),
+        at: now.toISOString(),
+        pending: true,
+        modelCalls: 0,
+        cacheHits: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        costUsd: null,
+        latencyMs: 0,
+        ok: false,
+        error: null,
+      });
+      return event.id;
+    });
+  reserving = next;
+  return next;
+}
+
+export type UsageOutcome = Pick<
+  UsageEvent,
+  "modelCalls" | "cacheHits" | "inputTokens" | "outputTokens" | "latencyMs" | "ok" | "error"
+>;
+
+// Fills in a reserved request once its extraction has ended, however it ended
+export async function finishUsage(id: string, outcome: UsageOutcome): Promise<void> {
+  const event = await usage.get(id);
+  if (!event) return;
+  await usage.put({ ...event, ...outcome, pending: false, costUsd: estimateCost(event.model, outcome) });
+}
+
+function totals(events: UsageEvent[]): UsageTotals {
+  const requests = events.length;
+  return {
+    requests,
+    failures: events.filter((e) => !e.ok && !e.pending).length,
+    cacheHits: events.reduce((sum, e) => sum + e.cacheHits, 0),
+    inputTokens: events.reduce((sum, e) => sum + e.inputTokens, 0),
+    outputTokens: events.reduce((sum, e) => sum + e.outputTokens, 0),
+    costUsd: events.reduce((sum, e) => sum + (e.costUsd ?? 0), 0),
+    averageLatencyMs: requests ? Math.round(events.reduce((sum, e) => sum + e.latencyMs, 0) / requests) : 0,
+  };
+}
+
+function groupBy(events: UsageEvent[], key: (e: UsageEvent) => string): Map<string, UsageEvent[]> {
+  const groups = new Map<string, UsageEvent[]>();
+  events.forEach((e) => groups.set(key(e), [...(groups.get(key(e)) ?? []), e]));
+  return groups;
+}
+
+// Usage over the last `days` days, grouped by the organisation's calendar days
+export async function summarizeUsage(days: number, timeZone: string, now = new Date()): Promise<UsageSummary> {
+  const since = addDays(formatDate(now, timeZone), 1 - days);
+  const dateOf = (e: UsageEvent) => formatDate(new Date(e.at), timeZone);
+  const events = (await usage.all()).filter((e) => dateOf(e) >= since);
+
+  return {
+    since,
+    totals: totals(events),
+    byEmployee: Array.from(groupBy(events, (e) => e.employee), ([employee, group]) => ({
+      employee,
+      ...totals(group),
+    })).sort((a, b) => b.costUsd - a.costUsd || b.requests - a.requests),
+    byDay: Array.from(groupBy(events, dateOf), ([date, group]) => ({ date, ...totals(group) })).sort((a, b) =>
+      b.date.localeCompare(a.date)
+    ),
+  };
+}
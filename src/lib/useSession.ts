@@ -0,0 +1,22 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fetchCurrentUser } from "./api";
+import { Employee } from "./types";
+
+// The signed-in employee for client components; undefined while loading
+export function useSession(): Employee | null | undefined {
+  const [user, setUser] = useState<Employee | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCurrentUser()
+      .then((u) => !cancelled && setUser(u))
+      .catch(() => !cancelled && setUser(null));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return user;
+}
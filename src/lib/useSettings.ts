@@ -0,0 +1,23 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fetchSettings } from "./api";
+import { DEFAULT_SETTINGS } from "./settings";
+import { OrgSettings } from "./types";
+
+// Organisation settings for client components; defaults until the fetch lands
+export function useSettings(): OrgSettings {
+  const [settings, setSettings] = useState<OrgSettings>(DEFAULT_SETTINGS);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSettings()
+      .then((s) => !cancelled && setSettings(s))
+      .catch((err) => console.error("Failed to load settings:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return settings;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { canTransition, getTransition, isEditable, isExportable, needsManager } from "./workflow";
+import { TimesheetStatus, WorkflowAction } from "./types";
+
+const STATUSES: TimesheetStatus[] = ["draft", "submitted", "approved", "rejected"];
+
+function allowedFrom(action: WorkflowAction): TimesheetStatus[] {
+  return STATUSES.filter((status) => canTransition(status, action));
+}
+
+describe("canTransition", () => {
+  it("allows each action only from the statuses it starts at", () => {
+    expect(allowedFrom("submit")).toEqual(["draft", "rejected"]);
+    expect(allowedFrom("approve")).toEqual(["submitted"]);
+    expect(allowedFrom("reject")).toEqual(["submitted"]);
+    expect(allowedFrom("reopen")).toEqual(["submitted", "approved", "rejected"]);
+    expect(allowedFrom("comment")).toEqual(STATUSES);
+  });
+
+  it("moves the sheet to the action's status, leaving it alone for a comment", () => {
+    expect(getTransition("submit").to).toBe("submitted");
+    expect(getTransition("approve").to).toBe("approved");
+    expect(getTransition("reject").to).toBe("rejected");
+    expect(getTransition("reopen").to).toBe("draft");
+    expect(getTransition("comment").to).toBeNull();
+  });
+
+  it("needs a comment to reject or comment", () => {
+    const needing = (["submit", "approve", "reject", "reopen", "comment"] as WorkflowAction[]).filter(
+      (action) => getTransition(action).requiresComment
+    );
+    expect(needing).toEqual(["reject", "comment"]);
+  });
+});
+
+describe("needsManager", () => {
+  it("leaves decisions, and reopening an approved sheet, to a manager", () => {
+    expect(needsManager("submitted", "approve")).toBe(true);
+    expect(needsManager("submitted", "reject")).toBe(true);
+    expect(needsManager("approved", "reopen")).toBe(true);
+  });
+
+  it("lets employees withdraw a submission or reopen a rejected sheet themselves", () => {
+    expect(needsManager("submitted", "reopen")).toBe(false);
+    expect(needsManager("rejected", "reopen")).toBe(false);
+    expect(needsManager("draft", "submit")).toBe(false);
+    expect(needsManager("approved", "comment")).toBe(false);
+  });
+});
+
+describe("isEditable and isExportable", () => {
+  it("only edits drafts and rejected sheets, and only exports approved ones", () => {
+    expect(STATUSES.filter(isEditable)).toEqual(["draft", "rejected"]);
+    expect(STATUSES.filter(isExportable)).toEqual(["approved"]);
+  });
+});
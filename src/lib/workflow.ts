@@ -0,0 +1,69 @@
+import { TimesheetStatus, WorkflowAction } from "./types";
+
+interface Transition {
+  from: TimesheetStatus[];
+  to: TimesheetStatus | null; // null leaves the status alone
+  requiresComment: boolean;
+  // Statuses only a manager other than the employee can take it from
+  managerFrom: TimesheetStatus[];
+}
+
+const ALL_STATUSES: TimesheetStatus[] = ["draft", "submitted", "approved", "rejected"];
+
+const TRANSITIONS: Record<WorkflowAction, Transition> = {
+  submit: { from: ["draft", "rejected"], to: "submitted", requiresComment: false, managerFrom: [] },
+  approve: { from: ["submitted"], to: "approved", requiresComment: false, managerFrom: ["submitted"] },
+  reject: { from: ["submitted"], to: "rejected", requiresComment: true, managerFrom: ["submitted"] },
+  // Withdraw a submission, or send an approved sheet back for correction
+  reopen: {
+    from: ["submitted", "approved", "rejected"],
+    to: "draft",
+    requiresComment: false,
+    managerFrom: ["approved"],
+  },
+  comment: { from: ALL_STATUSES, to: null, requiresComment: true, managerFrom: [] },
+};
+
+export const STATUS_LABELS: Record<TimesheetStatus, string> = {
+  draft: "Draft",
+  submitted: "Submitted",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export const STATUS_STYLES: Record<TimesheetStatus, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  submitted: "bg-blue-100 text-blue-700",
+  approved: "bg-emerald-100 text-emerald-700",
+  rejected: "bg-red-100 text-red-700",
+};
+
+export const ACTION_VERBS: Record<WorkflowAction, string> = {
+  submit: "submitted",
+  approve: "approved",
+  reject: "rejected",
+  reopen: "reopened",
+  comment: "commented",
+};
+
+export function getTransition(action: WorkflowAction): Transition {
+  return TRANSITIONS[action];
+}
+
+export function canTransition(status: TimesheetStatus, action: WorkflowAction): boolean {
+  return TRANSITIONS[action].from.includes(status);
+}
+
+// Decisions, and undoing one, are a manager's to make about someone else's sheet
+export function needsManager(status: TimesheetStatus, action: WorkflowAction): boolean {
+  return TRANSITIONS[action].managerFrom.includes(status);
+}
+
+// Values can only be edited before submission or after a rejection
+export function isEditable(status: TimesheetStatus): boolean {
+  return status === "draft" || status === "rejected";
+}
+
+export function isExportable(status: TimesheetStatus): boolean {
+  return status === "approved";
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { generateReimbursementCSV, generateXeroCSV } from "./xero";
+import { generateWeekDays } from "./dates";
+import { DEFAULT_PAYROLL, DEFAULT_SETTINGS } from "./settings";
+import { OrgSettings } from "./types";
+
+const employee = { ...DEFAULT_PAYROLL, name: "Alex Turner" };
+const withJobs: OrgSettings = {
+  ...DEFAULT_SETTINGS,
+  jobs: ["J1", "J2", "J3"].map((code) => ({ code, client: "Acme", project: code, active: true })),
+};
+
+describe("generateXeroCSV", () => {
+  it("gives the rounding left over from a day's job shares to the last job", () => {
+    const days = generateWeekDays("2025-08-04");
+    days[0].totalHours = "8";
+    days[0].allocations = [
+      { jobCode: "J1", hours: "" },
+      { jobCode: "J2", hours: "" },
+      { jobCode: "J3", hours: "" },
+    ];
+    const units = generateXeroCSV(employee, days, withJobs)
+      .split("\n")
+      .slice(1)
+      .map((row) => row.split(",")[3]);
+    expect(units).toEqual(['"2.67"', '"2.67"', '"2.66"']);
+  });
+
+  it("escapes quotes in notes", () => {
+    const days = generateWeekDays("2025-08-04");
+    days[0].totalHours = "8";
+    days[0].notes = 'Fixed the "big" pump, then lunch';
+    const [, row] = generateXeroCSV(employee, days).split("\n");
+    expect(row).toContain('"Fixed the ""big"" pump, then lunch"');
+  });
+
+  it("stops notes from running as spreadsheet formulas", () => {
+    const days = generateWeekDays("2025-08-04");
+    ['=HYPERLINK("http://x")', "+1+1", "-2+3", "@SUM(A1)"].forEach((notes, i) => {
+      days[i].totalHours = "8";
+      days[i].notes = notes;
+    });
+    const rows = generateXeroCSV(employee, days).split("\n").slice(1);
+    expect(rows[0]).toContain(`"'=HYPERLINK(""http://x"")"`);
+    expect(rows[1]).toContain(`"'+1+1"`);
+    expect(rows[2]).toContain(`"'-2+3"`);
+    expect(rows[3]).toContain(`"'@SUM(A1)"`);
+  });
+});
+
+describe("generateReimbursementCSV", () => {
+  it("escapes quotes in trip descriptions", () => {
+    const trip = { from: 'The "Yard"', to: "Site", purpose: "", vehicle: "", kilometers: "10" };
+    const claim = { date: "2025-08-04", trip, kilometers: 10, rate: 0.88, amount: 8.8 };
+    const [, row] = generateReimbursementCSV(employee, [claim]).split("\n");
+    expect(row).toContain('The ""Yard""');
+  });
+});
@@ -1,36 +1,98 @@
-import { DayEntry } from "./types";
+import { DayEntry, MileageClaim, OrgSettings, PayrollProfile } from "./types";
+import { DEFAULT_SETTINGS } from "./settings";
+import { limitRates, splitHours } from "./payRules";
+import { allocateDay, findJob } from "./jobs";
+import { dayKilometers, describeTrip } from "./mileage";
+import { csvCell } from "./csv";
 
+// Splits hours across shares in hundredths, giving what rounding leaves over
+// to the last share so the parts add up to the whole
+function shareHours(hours: number, shares: number[]): number[] {
+  const total = Math.round(hours * 100);
+  let given = 0;
+  return shares.map((share, i) => {
+    const part = i === shares.length - 1 ? total - given : Math.round(total * share);
+    given += part;
+    return part / 100;
+  });
+}
+
+// Kilometres are left out for employees without a mileage rate, and when
+// mileage is paid as a reimbursement; the export route refuses timesheets
+// with kilometres for employees who can't claim them before it gets here
 export function generateXeroCSV(
-  employeeName: string,
-  days: DayEntry[]
+  employee: PayrollProfile & { name: string },
+  days: DayEntry[],
+  settings: OrgSettings = DEFAULT_SETTINGS
 ): string {
+  const { payRules, rounding, jobs, tracking } = settings;
+  const employeeName = employee.xeroName || employee.name;
+  const categories = jobs.length
+    ? [
+        { name: tracking.clientCategory, option: (code: string) => findJob(jobs, code)?.client ?? "" },
+        { name: tracking.projectCategory, option: (code: string) => findJob(jobs, code)?.project || code },
+      ].filter((c) => c.name)
+    : [];
+
   const rows: string[] = [];
-  rows.push("Employee Name,Date,Earnings Rate,Units,Notes");
+  const header = ["Employee Name", "Date", "Earnings Rate", "Units", "Notes"];
+  categories.forEach((_, i) => header.push(`TrackingName${i + 1}`, `TrackingOption${i + 1}`));
+  rows.push(header.join(","));
+
+  const split = new Map(
+    limitRates(splitHours(days, payRules, rounding), employee.eligibleRates, payRules).map((d) => [d.date, d.lines])
+  );
 
   for (const day of days) {
-    let hours = parseFloat(day.totalHours) || 0;
-
-    if (!hours && day.startTime && day.endTime) {
-      const [sh, sm] = day.startTime.split(":").map(Number);
-      const [eh, em] = day.endTime.split(":").map(Number);
-      hours = eh - sh + (em - sm) / 60;
-      const breakMins = parseFloat(day.breakMinutes) || 0;
-      hours -= breakMins / 60;
-    }
+    // Each earnings rate is shared across the day's jobs in proportion to their hours
+    const dayJobs = categories.length ? allocateDay(day, rounding) : [];
+    const jobTotal = dayJobs.reduce((sum, j) => sum + j.hours, 0);
+    const shares = jobTotal
+      ? dayJobs.map((j) => ({ jobCode: j.jobCode, share: j.hours / jobTotal }))
+      : [{ jobCode: null, share: 1 }];
 
-    if (hours > 0) {
-      rows.push(
-        `"${employeeName}","${day.date}","Ordinary Hours","${hours.toFixed(2)}","${day.notes || ""}"`
-      );
+    let first = true;
+    for (const line of split.get(day.date) ?? []) {
+      const parts = shareHours(line.hours, shares.map((s) => s.share));
+      shares.forEach(({ jobCode }, i) => {
+        const cells = [employeeName, day.date, line.rate, parts[i].toFixed(2), first ? day.notes || "" : ""];
+        categories.forEach((c) => cells.push(jobCode ? c.name : "", jobCode ? c.option(jobCode) : ""));
+        rows.push(cells.map(csvCell).join(","));
+        first = false;
+      });
     }
 
-    const km = parseFloat(day.kilometers) || 0;
-    if (km > 0) {
-      rows.push(
-        `"${employeeName}","${day.date}","Kilometers","${km.toFixed(2)}","${km} km"`
-      );
+    const km = dayKilometers(day);
+    if (km > 0 && employee.mileageRate && settings.mileage.payAs === "earnings") {
+      const cells = [employeeName, day.date, employee.mileageRate, km.toFixed(2), `${km} km`];
+      categories.forEach(() => cells.push("", ""));
+      rows.push(cells.map(csvCell).join(","));
     }
   }
 
   return rows.join("\n");
 }
+
+// One line per trip for a pay run's reimbursements, in dollars at the tiered rates
+export function generateReimbursementCSV(
+  employee: PayrollProfile & { name: string },
+  claims: MileageClaim[],
+  settings: OrgSettings = DEFAULT_SETTINGS
+): string {
+  const employeeName = employee.xeroName || employee.name;
+  const rows = [["Employee Name", "Date", "Reimbursement Type", "Description", "Quantity", "Rate", "Amount"].join(",")];
+  for (const claim of claims) {
+    const description = describeTrip(claim.trip) || `${claim.kilometers} km`;
+    const cells = [
+      employeeName,
+      claim.date,
+      settings.mileage.reimbursementType,
+      description,
+      claim.kilometers.toFixed(2),
+      claim.rate.toFixed(4),
+      claim.amount.toFixed(2),
+    ];
+    rows.push(cells.map(csvCell).join(","));
+  }
+  return rows.join("\n");
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+
+// Must match SESSION_COOKIE in lib/auth, which can't be imported at the edge
+const SESSION_COOKIE = "timesheet_session";
+
+// Sends visitors without a session to sign in. This only checks the cookie is
+// there; the API routes check it's valid.
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) return NextResponse.next();
+  return NextResponse.redirect(new URL("/signin", request.url));
+}
+
+export const config = {
+  matcher: ["/((?!api|signin|_next|favicon.ico).*)"],
+};